@@ -109,6 +109,26 @@
                     });
                     break;
 
+                case "importCaptions":
+                    var p = command.params;
+                    var script = "importCaptions('" +
+                        escapeString(p.captionPath) + "', " +
+                        (p.startTime || 0) + ")";
+
+                    evalScript(script, function(result) {
+                        try {
+                            response.data = JSON.parse(result);
+                            response.success = response.data.success !== false;
+                            if (!response.success) {
+                                response.error = response.data.error;
+                            }
+                        } catch (e) {
+                            response.error = result || e.message;
+                        }
+                        sendResponse(client, response);
+                    });
+                    break;
+
                 case "findProjectItem":
                     var script = "findProjectItemExists('" +
                         escapeString(command.params.itemPath) + "')";
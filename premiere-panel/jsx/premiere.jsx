@@ -139,6 +139,84 @@ $._PPRO_MCP_ = {
         }
     },
 
+    /**
+     * Import a caption file (SRT) and place it as a caption track on the
+     * active sequence, starting at startTime seconds
+     */
+    importCaptions: function(captionPath, startTime) {
+        try {
+            var seq = app.project.activeSequence;
+            if (!seq) {
+                return JSON.stringify({
+                    success: false,
+                    error: "No active sequence"
+                });
+            }
+
+            var rootItem = app.project.rootItem;
+            var imported = app.project.importFiles([captionPath], true, rootItem, false);
+            if (!imported) {
+                return JSON.stringify({
+                    success: false,
+                    error: "Failed to import caption file: " + captionPath
+                });
+            }
+
+            var captionItem = this._findItemByMediaPath(rootItem, captionPath);
+            if (!captionItem) {
+                return JSON.stringify({
+                    success: false,
+                    error: "Imported caption item not found in project"
+                });
+            }
+
+            // The scripting API doesn't expose caption tracks or their
+            // clips, so the caller reports the cues it wrote instead
+            var result = seq.createCaptionTrack(captionItem, startTime, Sequence.CAPTION_FORMAT_SUBTITLE);
+
+            return JSON.stringify({
+                success: result !== false,
+                captionItem: captionItem.name,
+                startTime: startTime,
+                captionTrackCreated: result !== false
+            });
+
+        } catch (e) {
+            return JSON.stringify({
+                success: false,
+                error: e.message || String(e)
+            });
+        }
+    },
+
+    /**
+     * Helper to find the most recently added project item for a media file
+     */
+    _findItemByMediaPath: function(parent, mediaPath) {
+        var target = mediaPath.replace(/\\/g, "/");
+        var found = null;
+
+        for (var i = 0; i < parent.children.numItems; i++) {
+            var child = parent.children[i];
+
+            if (child.type === 2) {
+                var nested = this._findItemByMediaPath(child, mediaPath);
+                if (nested) found = nested;
+                continue;
+            }
+
+            try {
+                if (child.getMediaPath().replace(/\\/g, "/") === target) {
+                    found = child;
+                }
+            } catch (e) {
+                // Items without media (sequences, etc.)
+            }
+        }
+
+        return found;
+    },
+
     /**
      * Get project information
      */
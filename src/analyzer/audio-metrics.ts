@@ -0,0 +1,357 @@
+import ffmpeg from "fluent-ffmpeg";
+import type {
+  AudioAnalysisResult,
+  AudioSegmentMetrics,
+  TranscriptSegment,
+  WordTimestamp,
+} from "../types/index.js";
+import {
+  generateAnalysisId,
+  getAudioAnalysis,
+  getSpeechAnalysis,
+  saveAudioAnalysis,
+  updateAnalysisStatus,
+} from "../cache/store.js";
+import { logger } from "../utils/logger.js";
+
+export interface AudioAnalysisOptions {
+  forceReanalyze?: boolean;
+}
+
+interface LevelReadings {
+  integratedLufs: number;
+  peakDb: number;
+  rmsDb: number;
+  noiseFloorDb: number;
+  clippedSamples: number;
+}
+
+// ffmpeg's readings for one BLOCK_SECONDS frame of the audio
+export interface LevelBlock {
+  time: number;
+  peakDb: number;
+  rmsDb: number;
+  // ebur128 momentary loudness: the 400 ms ending with this block
+  momentaryLufs: number;
+  // Times the block reached its peak level (astats Peak_count)
+  peakCount: number;
+}
+
+// Levels below this are reported as silence rather than -inf
+const FLOOR_DB = -120;
+// Samples this close to full scale count as clipped
+const CLIP_THRESHOLD_DB = -0.1;
+// Speech-to-noise ratio a clean take needs
+const CLEAN_MIN_SNR_DB = 20;
+
+// The whole file goes through ffmpeg once, cut into frames of this length;
+// astats (reset every frame) and ebur128 attach their readings to each frame
+// and ametadata prints them. Each segment is then measured from the frames
+// it covers.
+const SAMPLE_RATE = 48000;
+export const BLOCK_SECONDS = 0.1;
+// ebur128's momentary window, i.e. one BS.1770 gating block
+const MOMENTARY_SECONDS = 0.4;
+
+const LEVEL_FILTERS = [
+  `aresample=${SAMPLE_RATE}`,
+  `asetnsamples=n=${Math.round(SAMPLE_RATE * BLOCK_SECONDS)}:p=0`,
+  "astats=metadata=1:reset=1",
+  "ebur128=metadata=1",
+  "ametadata=mode=print",
+];
+
+function parseDb(value: string): number {
+  if (/-?inf|nan/i.test(value)) return FLOOR_DB;
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) ? Math.max(FLOOR_DB, parsed) : FLOOR_DB;
+}
+
+function toPower(db: number): number {
+  return db <= FLOOR_DB ? 0 : Math.pow(10, db / 10);
+}
+
+function toDb(power: number): number {
+  return power > 0 ? Math.max(FLOOR_DB, 10 * Math.log10(power)) : FLOOR_DB;
+}
+
+// Reads the ametadata print lines from ffmpeg's log, e.g.
+//   [Parsed_ametadata_4 @ 0x5581] frame:12   pts:57600   pts_time:1.2
+//   [Parsed_ametadata_4 @ 0x5581] lavfi.astats.Overall.RMS_level=-9.03
+//   [Parsed_ametadata_4 @ 0x5581] lavfi.r128.M=-9.05
+export function createLevelParser(): {
+  push(line: string): void;
+  // Start time of the latest frame, for progress reporting
+  position(): number;
+  finish(): LevelBlock[];
+} {
+  const blocks: LevelBlock[] = [];
+
+  return {
+    push(line) {
+      const frame = line.match(/\bpts_time:\s*(-?[\d.]+)/);
+      if (frame) {
+        blocks.push({
+          time: parseFloat(frame[1]),
+          peakDb: FLOOR_DB,
+          rmsDb: FLOOR_DB,
+          momentaryLufs: FLOOR_DB,
+          peakCount: 0,
+        });
+        return;
+      }
+
+      const block = blocks[blocks.length - 1];
+      const entry = line.match(/\b(lavfi\.[\w.]+)=(\S+)/);
+      if (!block || !entry) return;
+
+      const [, key, value] = entry;
+      switch (key) {
+        case "lavfi.astats.Overall.Peak_level":
+          block.peakDb = parseDb(value);
+          break;
+        case "lavfi.astats.Overall.RMS_level":
+          block.rmsDb = parseDb(value);
+          break;
+        case "lavfi.astats.Overall.Peak_count":
+          block.peakCount = parseFloat(value) || 0;
+          break;
+        case "lavfi.r128.M":
+          block.momentaryLufs = parseDb(value);
+          break;
+      }
+    },
+
+    position() {
+      return blocks.length > 0 ? blocks[blocks.length - 1].time : 0;
+    },
+
+    finish() {
+      return blocks.sort((a, b) => a.time - b.time);
+    },
+  };
+}
+
+// Integrated loudness (BS.1770) from ebur128's momentary readings: with
+// 100 ms frames they are the 400 ms gating blocks with 75% overlap. Absolute
+// gate at -70 LUFS, relative gate 10 LU below the mean of what passes it.
+function integratedLoudness(momentary: number[]): number {
+  const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+  const absolute = momentary.filter((m) => m > -70).map(toPower);
+  if (absolute.length === 0) return FLOOR_DB;
+
+  const relativeGate = toDb(mean(absolute)) - 10;
+  const gated = absolute.filter((p) => toDb(p) > relativeGate);
+  return toDb(mean(gated));
+}
+
+// Metrics of a time range from the blocks whose midpoint falls inside it (at
+// least the one nearest its middle). The noise floor is the quietest block,
+// i.e. the background level in the pauses between words. Loudness only uses
+// momentary windows that lie inside the range, unless it is shorter than one.
+export function measureBlocks(blocks: LevelBlock[], start: number, end: number): LevelReadings {
+  const midpoint = (b: LevelBlock) => b.time + BLOCK_SECONDS / 2;
+  let range = blocks.filter((b) => midpoint(b) >= start && midpoint(b) < end);
+
+  if (range.length === 0 && blocks.length > 0) {
+    const middle = (start + end) / 2;
+    range = [
+      blocks.reduce((best, b) =>
+        Math.abs(midpoint(b) - middle) < Math.abs(midpoint(best) - middle) ? b : best
+      ),
+    ];
+  }
+
+  if (range.length === 0) {
+    return {
+      integratedLufs: FLOOR_DB,
+      peakDb: FLOOR_DB,
+      rmsDb: FLOOR_DB,
+      noiseFloorDb: FLOOR_DB,
+      clippedSamples: 0,
+    };
+  }
+
+  const windows = range.filter(
+    (b) => b.time + BLOCK_SECONDS - MOMENTARY_SECONDS >= start - 1e-6
+  );
+  const momentary = (windows.length > 0 ? windows : range.slice(-1)).map(
+    (b) => b.momentaryLufs
+  );
+
+  return {
+    integratedLufs: integratedLoudness(momentary),
+    peakDb: Math.max(...range.map((b) => b.peakDb)),
+    rmsDb: toDb(range.reduce((sum, b) => sum + toPower(b.rmsDb), 0) / range.length),
+    noiseFloorDb: Math.min(...range.map((b) => b.rmsDb)),
+    clippedSamples: range.reduce(
+      (sum, b) => sum + (b.peakDb >= CLIP_THRESHOLD_DB ? b.peakCount : 0),
+      0
+    ),
+  };
+}
+
+// Run the level filters over the whole file in a single ffmpeg pass
+function measureLevelBlocks(
+  videoPath: string,
+  duration: number,
+  onProgress: (fraction: number) => void
+): Promise<LevelBlock[]> {
+  return new Promise((resolve, reject) => {
+    const parser = createLevelParser();
+
+    ffmpeg(videoPath)
+      .noVideo()
+      .audioFilters(LEVEL_FILTERS)
+      .format("null")
+      .output("-")
+      .on("stderr", (line: string) => {
+        parser.push(line);
+        if (duration > 0) onProgress(Math.min(1, parser.position() / duration));
+      })
+      .on("end", () => resolve(parser.finish()))
+      .on("error", (err) => reject(err))
+      .run();
+  });
+}
+
+function countWords(segment: TranscriptSegment, words: WordTimestamp[]): number {
+  const inSegment = words.filter((w) => {
+    const midpoint = (w.start + w.end) / 2;
+    return midpoint >= segment.start && midpoint <= segment.end;
+  });
+
+  return inSegment.length > 0
+    ? inSegment.length
+    : segment.text.split(/\s+/).filter(Boolean).length;
+}
+
+function clamp01(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
+
+// Weighted 0-1 score: speech-to-noise ratio matters most, any clipping is a
+// heavy penalty and loudness far from a typical dialogue level costs a little
+function scoreQuality(readings: LevelReadings): number {
+  const snr = readings.rmsDb - readings.noiseFloorDb;
+  const snrScore = clamp01((snr - 10) / 30);
+  const clipScore = readings.clippedSamples > 0 ? 0 : 1;
+  const loudnessScore = 1 - clamp01(Math.abs(readings.integratedLufs + 18) / 20);
+
+  return Math.round((0.5 * snrScore + 0.3 * clipScore + 0.2 * loudnessScore) * 100) / 100;
+}
+
+export async function analyzeAudioQuality(
+  videoPath: string,
+  options: AudioAnalysisOptions = {}
+): Promise<AudioAnalysisResult> {
+  const { forceReanalyze = false } = options;
+
+  const speech = getSpeechAnalysis(videoPath);
+  if (!speech) {
+    throw new Error(
+      "No speech analysis found for this video. Please run analyze_video_speech first."
+    );
+  }
+
+  // Check cache first
+  if (!forceReanalyze) {
+    const cached = getAudioAnalysis(videoPath, speech.analysisId);
+    if (cached) {
+      logger.info("Using cached audio analysis", cached.analysisId);
+      return cached;
+    }
+  }
+
+  const analysisId = generateAnalysisId();
+  const startedAt = Date.now();
+  let lastProgress = 0;
+
+  updateAnalysisStatus({
+    analysisId,
+    videoPath,
+    type: "audio",
+    status: "processing",
+    progress: 0,
+    startedAt,
+  });
+
+  try {
+    logger.info(`Measuring audio for ${speech.segments.length} segments...`);
+
+    const blocks = await measureLevelBlocks(videoPath, speech.duration, (fraction) => {
+      const progress = Math.round(fraction * 100);
+      if (progress < lastProgress + 5) return;
+      lastProgress = progress;
+      updateAnalysisStatus({
+        analysisId,
+        videoPath,
+        type: "audio",
+        status: "processing",
+        progress,
+        startedAt,
+      });
+    });
+
+    const segments = speech.segments.map((segment): AudioSegmentMetrics => {
+      const duration = Math.max(0.01, segment.end - segment.start);
+      const readings = measureBlocks(blocks, segment.start, segment.end);
+
+      return {
+        segmentId: segment.id,
+        start: segment.start,
+        end: segment.end,
+        wordsPerMinute: Math.round((countWords(segment, speech.words) / duration) * 60),
+        integratedLufs: readings.integratedLufs,
+        peakDb: readings.peakDb,
+        rmsDb: readings.rmsDb,
+        noiseFloorDb: readings.noiseFloorDb,
+        clippedSamples: readings.clippedSamples,
+        qualityScore: scoreQuality(readings),
+        clean:
+          readings.clippedSamples === 0 &&
+          readings.rmsDb - readings.noiseFloorDb >= CLEAN_MIN_SNR_DB,
+      };
+    });
+
+    const result: AudioAnalysisResult = {
+      analysisId,
+      videoPath,
+      speechAnalysisId: speech.analysisId,
+      segments,
+      createdAt: Date.now(),
+    };
+
+    saveAudioAnalysis(result);
+
+    updateAnalysisStatus({
+      analysisId,
+      videoPath,
+      type: "audio",
+      status: "completed",
+      progress: 100,
+      startedAt,
+      completedAt: Date.now(),
+    });
+
+    logger.info("Audio analysis complete:", segments.length, "segments");
+    return result;
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logger.error("Audio analysis failed:", errorMessage);
+
+    updateAnalysisStatus({
+      analysisId,
+      videoPath,
+      type: "audio",
+      status: "failed",
+      progress: 0,
+      error: errorMessage,
+      startedAt,
+      completedAt: Date.now(),
+    });
+
+    throw error;
+  }
+}
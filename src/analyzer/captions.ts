@@ -0,0 +1,183 @@
+import type {
+  CaptionCue,
+  CaptionFormat,
+  SpeechAnalysisResult,
+  WordTimestamp,
+} from "../types/index.js";
+import { secondsToSRT, secondsToVTT } from "../utils/timecode.js";
+
+export interface CaptionOptions {
+  maxCharsPerLine?: number;
+  maxLines?: number;
+  maxCueDuration?: number;
+  offset?: number;
+}
+
+// A pause this long always starts a new cue
+const CUE_BREAK_GAP = 1.5;
+
+// Without word timings, spread each segment's duration over its words in
+// proportion to their length
+function wordsFromSegments(speech: SpeechAnalysisResult): WordTimestamp[] {
+  const words: WordTimestamp[] = [];
+
+  for (const segment of speech.segments) {
+    const tokens = segment.text.split(/\s+/).filter(Boolean);
+    const totalChars = tokens.reduce((sum, t) => sum + t.length, 0) || 1;
+    const segmentDuration = segment.end - segment.start;
+
+    let cursor = segment.start;
+    for (const token of tokens) {
+      const duration = (segmentDuration * token.length) / totalChars;
+      words.push({
+        word: token,
+        start: cursor,
+        end: cursor + duration,
+        confidence: 1,
+        speaker: segment.speaker,
+      });
+      cursor += duration;
+    }
+  }
+
+  return words;
+}
+
+// Re-flow the transcript into caption cues that respect line length, line
+// count and on-screen duration limits
+export function buildCaptionCues(
+  speech: SpeechAnalysisResult,
+  options: CaptionOptions = {}
+): CaptionCue[] {
+  const {
+    maxCharsPerLine = 42,
+    maxLines = 2,
+    maxCueDuration = 7,
+    offset = 0,
+  } = options;
+
+  const words = speech.words.length > 0 ? speech.words : wordsFromSegments(speech);
+  const cues: CaptionCue[] = [];
+
+  let lines: string[] = [];
+  let cueWords: WordTimestamp[] = [];
+
+  const closeCue = () => {
+    if (cueWords.length === 0) return;
+    cues.push({
+      index: cues.length + 1,
+      start: cueWords[0].start + offset,
+      end: cueWords[cueWords.length - 1].end + offset,
+      lines,
+      speaker: cueWords[0].speaker,
+    });
+    lines = [];
+    cueWords = [];
+  };
+
+  for (const word of words) {
+    const text = word.word.trim();
+    if (!text) continue;
+
+    const previous = cueWords[cueWords.length - 1];
+    if (
+      previous &&
+      (word.start - previous.end > CUE_BREAK_GAP ||
+        word.end - cueWords[0].start > maxCueDuration ||
+        word.speaker !== previous.speaker)
+    ) {
+      closeCue();
+    }
+
+    const currentLine = lines[lines.length - 1];
+    if (currentLine !== undefined && currentLine.length + 1 + text.length <= maxCharsPerLine) {
+      lines[lines.length - 1] = `${currentLine} ${text}`;
+    } else if (lines.length < maxLines) {
+      lines.push(text);
+    } else {
+      closeCue();
+      lines.push(text);
+    }
+
+    cueWords.push(word);
+  }
+  closeCue();
+
+  return cues;
+}
+
+function formatSRT(cues: CaptionCue[]): string {
+  return cues
+    .map(
+      (cue) =>
+        `${cue.index}\n${secondsToSRT(cue.start)} --> ${secondsToSRT(cue.end)}\n${cue.lines.join("\n")}\n`
+    )
+    .join("\n");
+}
+
+function formatVTT(cues: CaptionCue[]): string {
+  const body = cues
+    .map((cue) => {
+      const text = cue.speaker
+        ? `<v ${cue.speaker}>${cue.lines.join("\n")}`
+        : cue.lines.join("\n");
+      return `${cue.index}\n${secondsToVTT(cue.start)} --> ${secondsToVTT(cue.end)}\n${text}\n`;
+    })
+    .join("\n");
+
+  return `WEBVTT\n\n${body}`;
+}
+
+function formatTXT(speech: SpeechAnalysisResult): string {
+  return (
+    speech.segments
+      .map((s) => (s.speaker ? `${s.speaker}: ${s.text}` : s.text))
+      .join("\n") + "\n"
+  );
+}
+
+function formatJSON(
+  speech: SpeechAnalysisResult,
+  cues: CaptionCue[],
+  offset: number
+): string {
+  return JSON.stringify(
+    {
+      videoPath: speech.videoPath,
+      language: speech.language,
+      duration: speech.duration,
+      offset,
+      speakers: speech.speakers,
+      cues: cues.map((cue) => ({ ...cue, text: cue.lines.join(" ") })),
+      segments: speech.segments.map((segment) => ({
+        ...segment,
+        start: segment.start + offset,
+        end: segment.end + offset,
+        words: speech.words
+          .filter((w) => w.start >= segment.start && w.end <= segment.end)
+          .map((w) => ({ ...w, start: w.start + offset, end: w.end + offset })),
+      })),
+    },
+    null,
+    2
+  );
+}
+
+export function formatCaptions(
+  speech: SpeechAnalysisResult,
+  format: CaptionFormat,
+  options: CaptionOptions = {}
+): { content: string; cues: CaptionCue[] } {
+  const cues = buildCaptionCues(speech, options);
+
+  switch (format) {
+    case "srt":
+      return { content: formatSRT(cues), cues };
+    case "vtt":
+      return { content: formatVTT(cues), cues };
+    case "txt":
+      return { content: formatTXT(speech), cues };
+    case "json":
+      return { content: formatJSON(speech, cues, options.offset ?? 0), cues };
+  }
+}
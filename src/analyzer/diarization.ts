@@ -0,0 +1,385 @@
+import * as fs from "fs";
+import type { TranscriptSegment, WordTimestamp } from "../types/index.js";
+import { logger } from "../utils/logger.js";
+
+// Offline speaker diarization: every transcript segment is turned into a
+// spectral "voice print" (mean and spread of log mel band energies) and the
+// prints are clustered with k-means. It is no match for a neural model, but it
+// needs no downloads and separates distinct voices in interview footage well.
+
+export interface DiarizationOptions {
+  numSpeakers?: number;
+  maxSpeakers?: number;
+}
+
+export interface DiarizationResult {
+  segments: TranscriptSegment[];
+  words: WordTimestamp[];
+  speakers: string[];
+}
+
+const FRAME_SIZE = 512;
+const HOP_SIZE = 256;
+const MEL_BANDS = 24;
+const MIN_FRAME_RMS = 1e-3;
+const MIN_SEGMENT_SECONDS = 0.3;
+const MIN_SILHOUETTE = 0.1;
+const KMEANS_ITERATIONS = 50;
+
+export function speakerLabel(index: number): string {
+  return `SPEAKER_${index + 1}`;
+}
+
+// Read a 16-bit PCM WAV (as produced by extractAudio) into mono float samples
+export async function readWavSamples(
+  wavPath: string
+): Promise<{ samples: Float32Array; sampleRate: number }> {
+  const buffer = await fs.promises.readFile(wavPath);
+
+  if (buffer.toString("ascii", 0, 4) !== "RIFF" || buffer.toString("ascii", 8, 12) !== "WAVE") {
+    throw new Error(`Not a WAV file: ${wavPath}`);
+  }
+
+  let offset = 12;
+  let sampleRate = 16000;
+  let channels = 1;
+  let bitsPerSample = 16;
+
+  while (offset + 8 <= buffer.length) {
+    const chunkId = buffer.toString("ascii", offset, offset + 4);
+    const chunkSize = buffer.readUInt32LE(offset + 4);
+    const body = offset + 8;
+
+    if (chunkId === "fmt ") {
+      channels = buffer.readUInt16LE(body + 2);
+      sampleRate = buffer.readUInt32LE(body + 4);
+      bitsPerSample = buffer.readUInt16LE(body + 14);
+    } else if (chunkId === "data") {
+      if (bitsPerSample !== 16) {
+        throw new Error(`Unsupported WAV bit depth: ${bitsPerSample}`);
+      }
+
+      const end = Math.min(buffer.length, body + chunkSize);
+      const frameCount = Math.floor((end - body) / (2 * channels));
+      const samples = new Float32Array(frameCount);
+
+      for (let i = 0; i < frameCount; i++) {
+        let sum = 0;
+        for (let c = 0; c < channels; c++) {
+          sum += buffer.readInt16LE(body + (i * channels + c) * 2);
+        }
+        samples[i] = sum / channels / 32768;
+      }
+
+      return { samples, sampleRate };
+    }
+
+    offset = body + chunkSize + (chunkSize % 2);
+  }
+
+  throw new Error(`No audio data found in WAV file: ${wavPath}`);
+}
+
+// In-place iterative radix-2 FFT
+function fft(re: Float64Array, im: Float64Array): void {
+  const n = re.length;
+
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+
+  for (let len = 2; len <= n; len <<= 1) {
+    const angle = (-2 * Math.PI) / len;
+    for (let i = 0; i < n; i += len) {
+      for (let k = 0; k < len / 2; k++) {
+        const wr = Math.cos(angle * k);
+        const wi = Math.sin(angle * k);
+        const a = i + k;
+        const b = a + len / 2;
+        const tr = re[b] * wr - im[b] * wi;
+        const ti = re[b] * wi + im[b] * wr;
+        re[b] = re[a] - tr;
+        im[b] = im[a] - ti;
+        re[a] += tr;
+        im[a] += ti;
+      }
+    }
+  }
+}
+
+function buildMelFilterbank(sampleRate: number): number[][] {
+  const toMel = (hz: number) => 2595 * Math.log10(1 + hz / 700);
+  const fromMel = (mel: number) => 700 * (10 ** (mel / 2595) - 1);
+
+  const maxMel = toMel(sampleRate / 2);
+  const bins: number[] = [];
+  for (let i = 0; i < MEL_BANDS + 2; i++) {
+    const hz = fromMel((maxMel * i) / (MEL_BANDS + 1));
+    bins.push(Math.floor(((FRAME_SIZE + 1) * hz) / sampleRate));
+  }
+
+  const filters: number[][] = [];
+  for (let m = 1; m <= MEL_BANDS; m++) {
+    const filter = new Array(FRAME_SIZE / 2 + 1).fill(0);
+    for (let k = bins[m - 1]; k < bins[m]; k++) {
+      filter[k] = (k - bins[m - 1]) / Math.max(1, bins[m] - bins[m - 1]);
+    }
+    for (let k = bins[m]; k < bins[m + 1]; k++) {
+      filter[k] = (bins[m + 1] - k) / Math.max(1, bins[m + 1] - bins[m]);
+    }
+    filters.push(filter);
+  }
+
+  return filters;
+}
+
+// Mean and standard deviation of log mel energies over the voiced frames of
+// [start, end). Returns null when the range holds no usable audio.
+function segmentVoicePrint(
+  samples: Float32Array,
+  sampleRate: number,
+  start: number,
+  end: number,
+  filters: number[][],
+  window: Float64Array
+): number[] | null {
+  const from = Math.max(0, Math.floor(start * sampleRate));
+  const to = Math.min(samples.length, Math.floor(end * sampleRate));
+
+  const sums = new Float64Array(MEL_BANDS);
+  const squares = new Float64Array(MEL_BANDS);
+  let frames = 0;
+
+  const re = new Float64Array(FRAME_SIZE);
+  const im = new Float64Array(FRAME_SIZE);
+
+  for (let pos = from; pos + FRAME_SIZE <= to; pos += HOP_SIZE) {
+    let energy = 0;
+    for (let i = 0; i < FRAME_SIZE; i++) {
+      const sample = samples[pos + i];
+      energy += sample * sample;
+      re[i] = sample * window[i];
+      im[i] = 0;
+    }
+    if (Math.sqrt(energy / FRAME_SIZE) < MIN_FRAME_RMS) continue;
+
+    fft(re, im);
+
+    for (let m = 0; m < MEL_BANDS; m++) {
+      const filter = filters[m];
+      let bandEnergy = 0;
+      for (let k = 0; k <= FRAME_SIZE / 2; k++) {
+        if (filter[k] > 0) {
+          bandEnergy += filter[k] * (re[k] * re[k] + im[k] * im[k]);
+        }
+      }
+      const logEnergy = Math.log(bandEnergy + 1e-10);
+      sums[m] += logEnergy;
+      squares[m] += logEnergy * logEnergy;
+    }
+    frames++;
+  }
+
+  if (frames === 0) return null;
+
+  const print: number[] = [];
+  for (let m = 0; m < MEL_BANDS; m++) {
+    const mean = sums[m] / frames;
+    print.push(mean, Math.sqrt(Math.max(0, squares[m] / frames - mean * mean)));
+  }
+  return print;
+}
+
+// Z-score each dimension so loud bands don't dominate the distance
+function normalizeVectors(vectors: number[][]): number[][] {
+  const dims = vectors[0].length;
+  const means = new Array(dims).fill(0);
+  const stds = new Array(dims).fill(0);
+
+  for (const v of vectors) {
+    for (let d = 0; d < dims; d++) means[d] += v[d] / vectors.length;
+  }
+  for (const v of vectors) {
+    for (let d = 0; d < dims; d++) stds[d] += (v[d] - means[d]) ** 2 / vectors.length;
+  }
+
+  return vectors.map((v) =>
+    v.map((x, d) => (x - means[d]) / (Math.sqrt(stds[d]) || 1))
+  );
+}
+
+function distance(a: number[], b: number[]): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += (a[i] - b[i]) ** 2;
+  return Math.sqrt(sum);
+}
+
+// Deterministic k-means: seeds with farthest-point initialisation so repeated
+// runs on the same audio give the same labels
+function kMeans(vectors: number[][], k: number): number[] {
+  const centroids: number[][] = [vectors[0]];
+  while (centroids.length < k) {
+    let farthest = 0;
+    let farthestDistance = -1;
+    vectors.forEach((v, i) => {
+      const nearest = Math.min(...centroids.map((c) => distance(v, c)));
+      if (nearest > farthestDistance) {
+        farthestDistance = nearest;
+        farthest = i;
+      }
+    });
+    centroids.push(vectors[farthest]);
+  }
+
+  let assignments = new Array(vectors.length).fill(0);
+
+  for (let iteration = 0; iteration < KMEANS_ITERATIONS; iteration++) {
+    const next = vectors.map((v) => {
+      let best = 0;
+      for (let c = 1; c < k; c++) {
+        if (distance(v, centroids[c]) < distance(v, centroids[best])) best = c;
+      }
+      return best;
+    });
+
+    const changed = next.some((a, i) => a !== assignments[i]);
+    assignments = next;
+
+    for (let c = 0; c < k; c++) {
+      const members = vectors.filter((_, i) => assignments[i] === c);
+      if (members.length === 0) continue;
+      centroids[c] = members[0].map(
+        (_, d) => members.reduce((sum, m) => sum + m[d], 0) / members.length
+      );
+    }
+
+    if (!changed && iteration > 0) break;
+  }
+
+  return assignments;
+}
+
+function silhouetteScore(vectors: number[][], assignments: number[], k: number): number {
+  let total = 0;
+
+  for (let i = 0; i < vectors.length; i++) {
+    const own = assignments[i];
+    const meanDistances = new Array(k).fill(0);
+    const counts = new Array(k).fill(0);
+
+    for (let j = 0; j < vectors.length; j++) {
+      if (i === j) continue;
+      meanDistances[assignments[j]] += distance(vectors[i], vectors[j]);
+      counts[assignments[j]]++;
+    }
+
+    if (counts[own] === 0) continue;
+
+    const a = meanDistances[own] / counts[own];
+    let b = Infinity;
+    for (let c = 0; c < k; c++) {
+      if (c !== own && counts[c] > 0) b = Math.min(b, meanDistances[c] / counts[c]);
+    }
+    if (b === Infinity) continue;
+
+    total += (b - a) / Math.max(a, b);
+  }
+
+  return total / vectors.length;
+}
+
+function clusterVoicePrints(
+  vectors: number[][],
+  numSpeakers: number | undefined,
+  maxSpeakers: number
+): number[] {
+  if (numSpeakers !== undefined) {
+    return kMeans(vectors, Math.min(numSpeakers, vectors.length));
+  }
+
+  // Pick the speaker count with the best-separated clusters
+  let best = new Array(vectors.length).fill(0);
+  let bestScore = MIN_SILHOUETTE;
+
+  for (let k = 2; k <= Math.min(maxSpeakers, vectors.length - 1); k++) {
+    const assignments = kMeans(vectors, k);
+    const score = silhouetteScore(vectors, assignments, k);
+    logger.debug(`Diarization with ${k} speakers: silhouette ${score.toFixed(3)}`);
+    if (score > bestScore) {
+      bestScore = score;
+      best = assignments;
+    }
+  }
+
+  return best;
+}
+
+export async function diarizeTranscript(
+  audioPath: string,
+  segments: TranscriptSegment[],
+  words: WordTimestamp[],
+  options: DiarizationOptions = {}
+): Promise<DiarizationResult> {
+  const { numSpeakers, maxSpeakers = 4 } = options;
+
+  if (segments.length === 0) {
+    return { segments, words, speakers: [] };
+  }
+
+  const { samples, sampleRate } = await readWavSamples(audioPath);
+  const filters = buildMelFilterbank(sampleRate);
+  const window = new Float64Array(FRAME_SIZE).map(
+    (_, i) => 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (FRAME_SIZE - 1))
+  );
+
+  // Voice prints for segments long enough to characterise a voice
+  const printed: { index: number; print: number[] }[] = [];
+  segments.forEach((segment, index) => {
+    if (segment.end - segment.start < MIN_SEGMENT_SECONDS) return;
+    const print = segmentVoicePrint(samples, sampleRate, segment.start, segment.end, filters, window);
+    if (print) printed.push({ index, print });
+  });
+
+  const clusterOf = new Map<number, number>();
+  if (printed.length > 0) {
+    const assignments = clusterVoicePrints(
+      normalizeVectors(printed.map((p) => p.print)),
+      numSpeakers,
+      maxSpeakers
+    );
+    printed.forEach((p, i) => clusterOf.set(p.index, assignments[i]));
+  }
+
+  // Renumber clusters in order of first appearance, so SPEAKER_1 talks first
+  const order = new Map<number, number>();
+  for (let i = 0; i < segments.length; i++) {
+    const cluster = clusterOf.get(i);
+    if (cluster !== undefined && !order.has(cluster)) order.set(cluster, order.size);
+  }
+
+  // Segments without a voice print inherit the previous speaker
+  let previous = 0;
+  const labelled = segments.map((segment, i) => {
+    const cluster = clusterOf.get(i);
+    if (cluster !== undefined) previous = order.get(cluster)!;
+    return { ...segment, speaker: speakerLabel(previous) };
+  });
+
+  const labelledWords = words.map((word) => {
+    const containing =
+      labelled.find((s) => word.start >= s.start && word.end <= s.end) ??
+      labelled.find((s) => word.start < s.end && word.end > s.start);
+    return containing ? { ...word, speaker: containing.speaker } : word;
+  });
+
+  const speakers = Array.from({ length: Math.max(1, order.size) }, (_, i) => speakerLabel(i));
+  logger.info(`Diarization found ${speakers.length} speaker(s)`);
+
+  return { segments: labelled, words: labelledWords, speakers };
+}
@@ -0,0 +1,58 @@
+import type { EmbeddingProvider } from "../../types/index.js";
+import { HttpStatusError } from "../../utils/retry.js";
+import { logger } from "../../utils/logger.js";
+
+export interface HttpEmbeddingConfig {
+  baseUrl?: string;
+  model?: string;
+  apiKey?: string;
+}
+
+// Any server implementing the OpenAI /v1/embeddings API: OpenAI itself, or a
+// local model served by Ollama, LM Studio or vLLM
+export function createHttpEmbeddingProvider(
+  config: HttpEmbeddingConfig = {}
+): EmbeddingProvider {
+  const {
+    baseUrl = process.env.EMBEDDING_URL || "http://127.0.0.1:11434",
+    model = process.env.EMBEDDING_MODEL || "nomic-embed-text",
+    apiKey = process.env.EMBEDDING_API_KEY,
+  } = config;
+
+  return {
+    name: "http",
+    model,
+
+    async embed(texts) {
+      logger.debug(`Embedding ${texts.length} texts with ${model} at`, baseUrl);
+
+      const response = await fetch(`${baseUrl}/v1/embeddings`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+        },
+        body: JSON.stringify({ model, input: texts }),
+      });
+
+      if (!response.ok) {
+        throw new HttpStatusError(
+          `Embedding server returned ${response.status}: ${await response.text()}`,
+          response.status,
+          Object.fromEntries(response.headers)
+        );
+      }
+
+      const output = (await response.json()) as {
+        data?: Array<{ index: number; embedding: number[] }>;
+      };
+      if (!output.data || output.data.length !== texts.length) {
+        throw new Error(
+          `Embedding server returned ${output.data?.length ?? 0} vectors for ${texts.length} texts`
+        );
+      }
+
+      return [...output.data].sort((a, b) => a.index - b.index).map((d) => d.embedding);
+    },
+  };
+}
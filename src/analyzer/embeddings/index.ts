@@ -0,0 +1,12 @@
+import type { EmbeddingProvider } from "../../types/index.js";
+import { createRegistry } from "../../utils/registry.js";
+import { localEmbeddingProvider } from "./local.js";
+import { createHttpEmbeddingProvider } from "./http.js";
+
+export const DEFAULT_EMBEDDING_PROVIDER = process.env.EMBEDDING_PROVIDER || "local";
+
+export const embeddingProviders = createRegistry<EmbeddingProvider>({
+  kind: "embedding provider",
+  defaultName: DEFAULT_EMBEDDING_PROVIDER,
+  entries: [localEmbeddingProvider, createHttpEmbeddingProvider()],
+});
@@ -0,0 +1,76 @@
+import type { EmbeddingProvider } from "../../types/index.js";
+
+// Deterministic offline embeddings: words and their character trigrams are
+// hashed into a fixed-size vector (the "hashing trick"). There is no notion of
+// synonyms, but shared stems ("pricing", "price", "priced") land close
+// together, which is enough for tests and air-gapped machines.
+
+const DIMENSIONS = 512;
+
+// Common English suffixes, so inflections of a word share a stem
+const SUFFIXES = ["ingly", "ings", "ing", "edly", "ed", "ies", "es", "s", "ly"];
+
+const STOP_WORDS = new Set([
+  "the", "and", "for", "are", "but", "not", "you", "all", "any", "can", "her", "was",
+  "one", "our", "out", "his", "has", "had", "how", "its", "let", "who", "did", "get",
+  "him", "she", "too", "use", "that", "with", "have", "this", "will", "your", "from",
+  "they", "them", "then", "than", "there", "their", "what", "when", "were", "about",
+  "just", "like", "some", "into", "also", "been", "more", "very",
+]);
+
+function stem(word: string): string {
+  for (const suffix of SUFFIXES) {
+    if (word.length - suffix.length >= 3 && word.endsWith(suffix)) {
+      word = word.slice(0, -suffix.length);
+      break;
+    }
+  }
+  // "price" and "pric(ing)" share a stem
+  return word.length > 3 && word.endsWith("e") ? word.slice(0, -1) : word;
+}
+
+// 32-bit FNV-1a
+function hash(text: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+function addFeature(vector: Float64Array, feature: string, weight: number): void {
+  const h = hash(feature);
+  // The top bit picks the sign so unrelated features cancel out on average
+  vector[h % DIMENSIONS] += h & 0x80000000 ? -weight : weight;
+}
+
+export function embedText(text: string): number[] {
+  const vector = new Float64Array(DIMENSIONS);
+  const words = text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((w) => w.length > 1 && !STOP_WORDS.has(w));
+
+  for (const word of words) {
+    const stemmed = stem(word);
+    addFeature(vector, `w:${stemmed}`, 1);
+
+    const padded = `<${stemmed}>`;
+    for (let i = 0; i + 3 <= padded.length; i++) {
+      addFeature(vector, `t:${padded.slice(i, i + 3)}`, 0.3);
+    }
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return Array.from(vector, (v) => (norm > 0 ? v / norm : 0));
+}
+
+export const localEmbeddingProvider: EmbeddingProvider = {
+  name: "local",
+  model: `hashed-${DIMENSIONS}`,
+
+  async embed(texts) {
+    return texts.map(embedText);
+  },
+};
@@ -0,0 +1,269 @@
+import * as path from "path";
+import * as fs from "fs";
+import * as os from "os";
+import type {
+  Disfluency,
+  DisfluencyType,
+  SpeechAnalysisResult,
+  WordTimestamp,
+} from "../types/index.js";
+import { logger } from "../utils/logger.js";
+
+// User dictionaries, per language. A list adds fillers to the built-in ones,
+// e.g. { "nl": ["eh", "uhm"] }; an object can also add discourse markers,
+// remove built-in entries or replace them altogether:
+// { "en": { "fillers": ["okay so"], "remove": ["mm"] },
+//   "pt": { "replace": true, "fillers": ["hum"], "discourseMarkers": ["tipo"] } }
+const FILLERS_CONFIG_PATH =
+  process.env.PREMIERE_MCP_FILLERS_PATH ||
+  path.join(os.homedir(), ".premiere-mcp", "fillers.json");
+
+// Hesitation sounds: never words in their own right, so always flagged
+const DEFAULT_FILLERS: Record<string, string[]> = {
+  en: ["um", "umm", "uh", "uhh", "er", "erm", "hmm", "mm"],
+  es: ["eh", "em", "mm"],
+  fr: ["euh", "heu", "hum"],
+  de: ["äh", "ähm", "öh", "hm"],
+  it: ["ehm", "eh", "mm"],
+  pt: ["hum", "hã", "ãh"],
+};
+
+// Words and phrases that are fillers in some sentences and meaning in others
+// ("kind of blue", "bueno", "also"). Only flagged when asked for, and only
+// when spoken on their own between pauses.
+const DEFAULT_DISCOURSE_MARKERS: Record<string, string[]> = {
+  en: ["like", "you know", "i mean", "sort of", "kind of"],
+  es: ["este", "pues", "o sea", "bueno", "digamos"],
+  fr: ["ben", "bah", "genre", "en fait", "du coup"],
+  de: ["halt", "also", "sozusagen"],
+  it: ["cioè", "tipo", "allora", "insomma"],
+  pt: ["é", "tipo", "então", "né", "quer dizer"],
+};
+
+// Silence needed on both sides of a discourse marker for it to count as one
+const DISCOURSE_MARKER_MIN_GAP = 0.3;
+
+// Fragments of this length that prefix the next word are treated as false
+// starts, but only when the speaker paused after them or the recognizer was
+// unsure of them: "we were" and "the theory" are ordinary speech
+const MIN_FALSE_START_LENGTH = 2;
+const MAX_FALSE_START_LENGTH = 4;
+const FALSE_START_MIN_GAP = 0.2;
+const FALSE_START_MAX_CONFIDENCE = 0.5;
+const MAX_REPEAT_PHRASE = 3;
+
+export interface FillerDetectionOptions {
+  language?: string;
+  fillerWords?: string[];
+  discourseMarkers?: boolean;
+  padding?: number;
+  detectRepeats?: boolean;
+  detectFalseStarts?: boolean;
+}
+
+export interface FillerDictionary {
+  fillers: string[];
+  discourseMarkers: string[];
+}
+
+type FillerDictionaryConfig =
+  | string[]
+  | {
+      fillers?: string[];
+      discourseMarkers?: string[];
+      remove?: string[];
+      replace?: boolean;
+    };
+
+function normalizeWord(word: string): string {
+  return word.toLowerCase().replace(/[^\p{L}\p{N}']/gu, "");
+}
+
+export function loadFillerDictionary(language: string): FillerDictionary {
+  const base = language.split(/[-_]/)[0].toLowerCase();
+  const fillers = new Set(DEFAULT_FILLERS[base] ?? []);
+  const discourseMarkers = new Set(DEFAULT_DISCOURSE_MARKERS[base] ?? []);
+
+  if (fs.existsSync(FILLERS_CONFIG_PATH)) {
+    try {
+      const config = JSON.parse(
+        fs.readFileSync(FILLERS_CONFIG_PATH, "utf-8")
+      ) as Record<string, FillerDictionaryConfig>;
+      const entry = config[base];
+
+      if (Array.isArray(entry)) {
+        for (const word of entry) fillers.add(word.toLowerCase());
+      } else if (entry) {
+        if (entry.replace) {
+          fillers.clear();
+          discourseMarkers.clear();
+        }
+        for (const word of entry.fillers ?? []) fillers.add(word.toLowerCase());
+        for (const word of entry.discourseMarkers ?? []) {
+          discourseMarkers.add(word.toLowerCase());
+        }
+        for (const word of entry.remove ?? []) {
+          fillers.delete(word.toLowerCase());
+          discourseMarkers.delete(word.toLowerCase());
+        }
+      }
+    } catch (e) {
+      logger.warn("Failed to read filler dictionary", FILLERS_CONFIG_PATH);
+    }
+  }
+
+  return { fillers: [...fillers], discourseMarkers: [...discourseMarkers] };
+}
+
+// Expand the cut by the padding without eating into neighbouring words
+function paddedCut(
+  words: WordTimestamp[],
+  first: number,
+  last: number,
+  padding: number
+): { cutStart: number; cutEnd: number } {
+  const start = words[first].start;
+  const end = words[last].end;
+  const previousEnd = first > 0 ? words[first - 1].end : 0;
+  const nextStart = last < words.length - 1 ? words[last + 1].start : Infinity;
+
+  return {
+    cutStart: Math.max(previousEnd, start - padding, 0),
+    cutEnd: Math.min(nextStart, end + padding),
+  };
+}
+
+export function detectFillers(
+  speech: SpeechAnalysisResult,
+  options: FillerDetectionOptions = {}
+): Disfluency[] {
+  const {
+    language = ["auto", "unknown"].includes(speech.language)
+      ? "en"
+      : speech.language,
+    fillerWords,
+    discourseMarkers = false,
+    padding = 0.05,
+    detectRepeats = true,
+    detectFalseStarts = true,
+  } = options;
+
+  const words = speech.words;
+  const normalized = words.map((w) => normalizeWord(w.word));
+
+  // Multi-word fillers ("you know") are matched as token sequences
+  const tokenize = (phrases: string[]) =>
+    phrases
+      .map((f) => f.toLowerCase().split(/\s+/).map(normalizeWord).filter(Boolean))
+      .filter((f) => f.length > 0)
+      .sort((a, b) => b.length - a.length);
+
+  const dictionary = fillerWords
+    ? { fillers: fillerWords, discourseMarkers: [] }
+    : loadFillerDictionary(language);
+  const fillers = tokenize(dictionary.fillers);
+  const markers = discourseMarkers ? tokenize(dictionary.discourseMarkers) : [];
+
+  const matchAt = (phrases: string[][], i: number) =>
+    phrases.find((f) => f.every((token, k) => normalized[i + k] === token));
+
+  // A marker set off by pauses on both sides, not one inside a sentence
+  const standalone = (first: number, last: number) =>
+    (first === 0 || words[first].start - words[first - 1].end >= DISCOURSE_MARKER_MIN_GAP) &&
+    (last === words.length - 1 ||
+      words[last + 1].start - words[last].end >= DISCOURSE_MARKER_MIN_GAP);
+
+  const found: Disfluency[] = [];
+  const flagged = new Set<number>();
+
+  const flag = (type: DisfluencyType, first: number, last: number) => {
+    for (let i = first; i <= last; i++) flagged.add(i);
+    found.push({
+      type,
+      text: words
+        .slice(first, last + 1)
+        .map((w) => w.word)
+        .join(" "),
+      start: words[first].start,
+      end: words[last].end,
+      ...paddedCut(words, first, last, padding),
+      speaker: words[first].speaker,
+    });
+  };
+
+  for (let i = 0; i < words.length; i++) {
+    if (flagged.has(i) || !normalized[i]) continue;
+
+    // Filler words and phrases
+    const filler = matchAt(fillers, i);
+    if (filler) {
+      flag("filler", i, i + filler.length - 1);
+      i += filler.length - 1;
+      continue;
+    }
+
+    const marker = matchAt(markers, i);
+    if (marker && standalone(i, i + marker.length - 1)) {
+      flag("filler", i, i + marker.length - 1);
+      i += marker.length - 1;
+      continue;
+    }
+
+    // False starts: "I- I think", or a fragment that prefixes the next word
+    if (detectFalseStarts && i < words.length - 1) {
+      const raw = words[i].word.trim();
+      const next = normalized[i + 1];
+      const cutOff = /[-—–]$/.test(raw);
+      const hesitant =
+        words[i + 1].start - words[i].end >= FALSE_START_MIN_GAP ||
+        words[i].confidence < FALSE_START_MAX_CONFIDENCE;
+      const prefixFragment =
+        hesitant &&
+        normalized[i].length >= MIN_FALSE_START_LENGTH &&
+        normalized[i].length <= MAX_FALSE_START_LENGTH &&
+        next.length >= normalized[i].length + 2 &&
+        next.startsWith(normalized[i]);
+
+      if (cutOff || prefixFragment) {
+        flag("false_start", i, i);
+        continue;
+      }
+    }
+
+    // Repeated words or short phrases: keep the last take, cut the earlier ones
+    if (detectRepeats) {
+      for (let n = MAX_REPEAT_PHRASE; n >= 1; n--) {
+        if (i + 2 * n > words.length) continue;
+        const phrase = normalized.slice(i, i + n);
+        const repeat = normalized.slice(i + n, i + 2 * n);
+        if (phrase.every((token, k) => token && token === repeat[k])) {
+          flag("repeat", i, i + n - 1);
+          i += n - 1;
+          break;
+        }
+      }
+    }
+  }
+
+  logger.info(`Found ${found.length} disfluencies in ${words.length} words`);
+  return found.sort((a, b) => a.start - b.start);
+}
+
+// Merge overlapping cut ranges into the list of ranges to remove
+export function mergeCutRanges(
+  disfluencies: Disfluency[]
+): Array<{ start: number; end: number }> {
+  const sorted = [...disfluencies].sort((a, b) => a.cutStart - b.cutStart);
+  const merged: Array<{ start: number; end: number }> = [];
+
+  for (const d of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && d.cutStart <= last.end) {
+      last.end = Math.max(last.end, d.cutEnd);
+    } else {
+      merged.push({ start: d.cutStart, end: d.cutEnd });
+    }
+  }
+
+  return merged;
+}
@@ -15,12 +15,14 @@ export interface FrameExtractionOptions {
   startTime?: number;
   endTime?: number;
   maxFrames?: number;
+  // Explicit times in seconds (e.g. one per shot); overrides fps sampling
+  timestamps?: number[];
 }
 
 export async function extractVideoFrames(
   videoPath: string,
   options: FrameExtractionOptions = {}
-): Promise<{ frames: ExtractedFrame[]; tempDir: string }> {
+): Promise<{ frames: ExtractedFrame[]; tempDir: string; framesSkipped: number }> {
   const { fps = 1, startTime, endTime, maxFrames = 500 } = options;
 
   // Get video info
@@ -30,26 +32,45 @@ export async function extractVideoFrames(
   const duration = effectiveEnd - effectiveStart;
 
   // Calculate timestamps
-  const intervalMs = 1000 / fps;
   const timestamps: number[] = [];
+  let framesSkipped = 0;
 
-  for (let t = effectiveStart * 1000; t < effectiveEnd * 1000; t += intervalMs) {
-    timestamps.push(Math.round(t));
-    if (timestamps.length >= maxFrames) {
-      logger.warn(
-        `Limiting to ${maxFrames} frames (video would have ${Math.ceil(
-          duration * fps
-        )} at ${fps} fps)`
-      );
-      break;
+  if (options.timestamps) {
+    const requested = options.timestamps
+      .filter((t) => t >= effectiveStart && t < effectiveEnd)
+      .map((t) => Math.round(t * 1000))
+      .sort((a, b) => a - b);
+
+    if (requested.length > maxFrames) {
+      framesSkipped = requested.length - maxFrames;
+      logger.warn(`Limiting to ${maxFrames} of ${requested.length} requested frames`);
+    }
+    timestamps.push(...requested.slice(0, maxFrames));
+  } else {
+    const intervalMs = 1000 / fps;
+
+    for (let t = effectiveStart * 1000; t < effectiveEnd * 1000; t += intervalMs) {
+      timestamps.push(Math.round(t));
+      if (timestamps.length >= maxFrames) {
+        const total = Math.ceil(duration * fps);
+        framesSkipped = Math.max(0, total - maxFrames);
+        if (framesSkipped > 0) {
+          logger.warn(`Limiting to ${maxFrames} frames (video would have ${total} at ${fps} fps)`);
+        }
+        break;
+      }
     }
   }
 
   if (timestamps.length === 0) {
-    return { frames: [], tempDir: "" };
+    return { frames: [], tempDir: "", framesSkipped };
   }
 
-  logger.info(`Extracting ${timestamps.length} frames at ${fps} fps...`);
+  logger.info(
+    options.timestamps
+      ? `Extracting ${timestamps.length} frames at requested times...`
+      : `Extracting ${timestamps.length} frames at ${fps} fps...`
+  );
 
   // Create temp directory for frames
   const tempDir = await fs.promises.mkdtemp(
@@ -83,7 +104,7 @@ export async function extractVideoFrames(
     }
 
     logger.info(`Extracted ${frames.length} frames to ${tempDir}`);
-    return { frames, tempDir };
+    return { frames, tempDir, framesSkipped };
   } catch (error) {
     // Cleanup on error
     try {
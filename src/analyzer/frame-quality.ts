@@ -0,0 +1,253 @@
+import type { FrameQuality, UnusableRange } from "../types/index.js";
+import { decodeVideoFrames } from "../utils/image.js";
+import { mapWithConcurrency } from "../utils/concurrency.js";
+
+// Cheap local image metrics for every sampled frame, measured on a small
+// grayscale copy so they cost a fraction of a vision call. Shake needs frames
+// much closer together than any useful sampling rate, so each sample also
+// decodes a short burst of frames following it.
+
+const WIDTH = 160;
+const HEIGHT = 90;
+// Largest shift (in pixels of the small copy) searched for camera motion
+const MAX_SHIFT = 8;
+// Mean absolute difference (0-255) above which two frames show different
+// content (a cut) rather than the same scene moved
+const MAX_ALIGNED_DIFFERENCE = 40;
+// Frames per sample for the shake measurement, and their rate (fps)
+const BURST_FRAMES = 5;
+const BURST_RATE = 15;
+
+export interface FrameQualityThresholds {
+  minSharpness?: number;
+  maxHighlightClipping?: number;
+  maxShadowClipping?: number;
+  minLuma?: number;
+  maxLuma?: number;
+  maxShake?: number;
+}
+
+export const DEFAULT_QUALITY_THRESHOLDS: Required<FrameQualityThresholds> = {
+  minSharpness: 50,
+  maxHighlightClipping: 0.25,
+  maxShadowClipping: 0.5,
+  minLuma: 0.06,
+  maxLuma: 0.94,
+  maxShake: 0.01,
+};
+
+// Variance of the Laplacian: low when the frame has no crisp edges
+function laplacianVariance(pixels: Buffer, width: number, height: number): number {
+  let sum = 0;
+  let sumSquares = 0;
+  let count = 0;
+
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const value =
+        pixels[i - 1] + pixels[i + 1] + pixels[i - width] + pixels[i + width] - 4 * pixels[i];
+      sum += value;
+      sumSquares += value * value;
+      count++;
+    }
+  }
+
+  const mean = sum / count;
+  return sumSquares / count - mean * mean;
+}
+
+interface Shift {
+  dx: number;
+  dy: number;
+}
+
+// Offset of a minimum from the middle of three samples, from the parabola
+// through them
+function parabolicOffset(before: number, at: number, after: number): number {
+  const curvature = before - 2 * at + after;
+  return curvature > 0 ? (before - after) / (2 * curvature) : 0;
+}
+
+// Global translation between two frames in pixels, found by trying every
+// shift up to MAX_SHIFT and refined to a fraction of a pixel. Undefined when
+// no shift lines the frames up (different shots).
+export function globalShift(
+  previous: Buffer,
+  current: Buffer,
+  width: number,
+  height: number
+): Shift | undefined {
+  const size = 2 * MAX_SHIFT + 1;
+  const differences: number[] = new Array(size * size);
+  let best = 0;
+
+  for (let dy = -MAX_SHIFT; dy <= MAX_SHIFT; dy++) {
+    for (let dx = -MAX_SHIFT; dx <= MAX_SHIFT; dx++) {
+      let total = 0;
+      let count = 0;
+      for (let y = MAX_SHIFT; y < height - MAX_SHIFT; y += 2) {
+        for (let x = MAX_SHIFT; x < width - MAX_SHIFT; x += 2) {
+          total += Math.abs(current[y * width + x] - previous[(y + dy) * width + x + dx]);
+          count++;
+        }
+      }
+
+      const index = (dy + MAX_SHIFT) * size + dx + MAX_SHIFT;
+      differences[index] = total / count;
+      if (differences[index] < differences[best]) best = index;
+    }
+  }
+
+  if (differences[best] > MAX_ALIGNED_DIFFERENCE) return undefined;
+
+  const bx = best % size;
+  const by = Math.floor(best / size);
+  const at = differences[best];
+  return {
+    dx:
+      bx - MAX_SHIFT +
+      (bx > 0 && bx < size - 1
+        ? parabolicOffset(differences[best - 1], at, differences[best + 1])
+        : 0),
+    dy:
+      by - MAX_SHIFT +
+      (by > 0 && by < size - 1
+        ? parabolicOffset(differences[best - size], at, differences[best + size])
+        : 0),
+  };
+}
+
+// Camera shake across a burst of closely spaced frames: how much the shifts
+// between consecutive frames vary around their mean, as a fraction of the
+// frame width. A pan or dolly moves every frame by about the same amount and
+// scores near zero; a handheld wobble doesn't.
+export function measureShake(burst: Buffer[], width: number, height: number): number | undefined {
+  const shifts: Shift[] = [];
+  for (let i = 1; i < burst.length; i++) {
+    const shift = globalShift(burst[i - 1], burst[i], width, height);
+    if (shift) shifts.push(shift);
+  }
+  if (shifts.length < 2) return undefined;
+
+  const meanX = shifts.reduce((sum, s) => sum + s.dx, 0) / shifts.length;
+  const meanY = shifts.reduce((sum, s) => sum + s.dy, 0) / shifts.length;
+  const variance =
+    shifts.reduce((sum, s) => sum + (s.dx - meanX) ** 2 + (s.dy - meanY) ** 2, 0) /
+    shifts.length;
+  return Math.sqrt(variance) / width;
+}
+
+export function computeFrameQuality(
+  pixels: Buffer,
+  width: number,
+  height: number,
+  previous?: Buffer
+): FrameQuality {
+  const pixelCount = width * height;
+  let lumaSum = 0;
+  let highlights = 0;
+  let shadows = 0;
+
+  for (let i = 0; i < pixelCount; i++) {
+    lumaSum += pixels[i];
+    if (pixels[i] >= 250) highlights++;
+    if (pixels[i] <= 5) shadows++;
+  }
+
+  const round = (v: number) => Math.round(v * 1000) / 1000;
+  const shift = previous ? globalShift(previous, pixels, width, height) : undefined;
+
+  return {
+    sharpness: Math.round(laplacianVariance(pixels, width, height) * 10) / 10,
+    averageLuma: round(lumaSum / pixelCount / 255),
+    highlightClipping: round(highlights / pixelCount),
+    shadowClipping: round(shadows / pixelCount),
+    motion: shift ? round(Math.hypot(shift.dx, shift.dy) / width) : undefined,
+  };
+}
+
+// Measure the video at every timestamp. Motion compares each sample with
+// the one before it, so timestamps must be in time order.
+export async function measureFrameQuality(
+  videoPath: string,
+  timestamps: number[]
+): Promise<FrameQuality[]> {
+  const bursts = await mapWithConcurrency(timestamps, 4, (time) =>
+    decodeVideoFrames(videoPath, time, BURST_FRAMES, BURST_RATE, WIDTH, HEIGHT)
+  );
+
+  return bursts.map((burst, i) => {
+    const quality = computeFrameQuality(
+      burst[0],
+      WIDTH,
+      HEIGHT,
+      i > 0 ? bursts[i - 1][0] : undefined
+    );
+    const shake = measureShake(burst, WIDTH, HEIGHT);
+    return {
+      ...quality,
+      shake: shake === undefined ? undefined : Math.round(shake * 1000) / 1000,
+    };
+  });
+}
+
+// Reasons a frame is unusable, empty if it is fine
+export function qualityIssues(
+  quality: FrameQuality,
+  thresholds: FrameQualityThresholds = {}
+): string[] {
+  const t = { ...DEFAULT_QUALITY_THRESHOLDS, ...thresholds };
+  const issues: string[] = [];
+
+  if (quality.sharpness < t.minSharpness) issues.push("soft focus");
+  if (quality.highlightClipping > t.maxHighlightClipping || quality.averageLuma > t.maxLuma) {
+    issues.push("blown out");
+  }
+  if (quality.shadowClipping > t.maxShadowClipping || quality.averageLuma < t.minLuma) {
+    issues.push("too dark");
+  }
+  if (quality.shake !== undefined && quality.shake > t.maxShake) issues.push("camera shake");
+
+  return issues;
+}
+
+// Merge consecutive unusable frames into ranges. A frame stands for the time
+// until the next sampled frame.
+export function findUnusableRanges(
+  frames: Array<{ timestamp: number; quality?: FrameQuality }>,
+  fps: number,
+  thresholds: FrameQualityThresholds = {},
+  minDuration: number = 0
+): UnusableRange[] {
+  const ranges: UnusableRange[] = [];
+  let current: UnusableRange | null = null;
+
+  frames.forEach((frame, i) => {
+    const issues = frame.quality ? qualityIssues(frame.quality, thresholds) : [];
+    const end = i < frames.length - 1 ? frames[i + 1].timestamp : frame.timestamp + 1 / fps;
+
+    if (issues.length === 0) {
+      current = null;
+      return;
+    }
+
+    if (current) {
+      current.end = end;
+      current.duration = end - current.start;
+      current.frames++;
+      current.reasons = [...new Set([...current.reasons, ...issues])];
+    } else {
+      current = {
+        start: frame.timestamp,
+        end,
+        duration: end - frame.timestamp,
+        reasons: issues,
+        frames: 1,
+      };
+      ranges.push(current);
+    }
+  });
+
+  return ranges.filter((r) => r.duration >= minDuration);
+}
@@ -0,0 +1,221 @@
+import { z } from "zod";
+import { createHash } from "crypto";
+import { logger } from "../utils/logger.js";
+
+// A small subset of JSON Schema, enough to describe per-frame attributes:
+// { "type": "object", "properties": { "framing": { "type": "string", "enum": [...] } } }
+export interface AttributeSchemaProperty {
+  type: "string" | "number" | "integer" | "boolean" | "array";
+  description?: string;
+  enum?: Array<string | number>;
+  items?: AttributeSchemaProperty;
+  minimum?: number;
+  maximum?: number;
+}
+
+export interface AttributeSchema {
+  type?: "object";
+  properties: Record<string, AttributeSchemaProperty>;
+  required?: string[];
+}
+
+export const FRAME_PRESETS: Record<string, AttributeSchema> = {
+  "product-shots": {
+    type: "object",
+    properties: {
+      product_visible: { type: "boolean", description: "A product is clearly visible" },
+      product_name: { type: "string", description: "Product or brand name if identifiable" },
+      shot_type: {
+        type: "string",
+        enum: ["hero", "detail", "in-use", "packaging", "lifestyle", "other"],
+      },
+      background: { type: "string", enum: ["plain", "studio", "environment", "other"] },
+      logo_visible: { type: "boolean" },
+      hands_visible: { type: "boolean" },
+    },
+  },
+  sports: {
+    type: "object",
+    properties: {
+      sport: { type: "string", description: "Sport being played, if any" },
+      action: {
+        type: "string",
+        enum: ["play", "goal", "celebration", "replay", "crowd", "bench", "break", "other"],
+      },
+      players_visible: { type: "integer", minimum: 0 },
+      ball_visible: { type: "boolean" },
+      scoreboard_visible: { type: "boolean" },
+      camera: { type: "string", enum: ["wide", "medium", "close-up", "aerial", "other"] },
+    },
+  },
+  "interview-framing": {
+    type: "object",
+    properties: {
+      framing: {
+        type: "string",
+        enum: ["extreme-close-up", "close-up", "medium-close-up", "medium", "wide", "other"],
+      },
+      people_count: { type: "integer", minimum: 0 },
+      subject_position: { type: "string", enum: ["left", "center", "right", "none"] },
+      looking_at_camera: { type: "boolean" },
+      lower_third_visible: { type: "boolean" },
+      b_roll: { type: "boolean", description: "Cutaway footage rather than the interview itself" },
+    },
+  },
+};
+
+function propertyToZod(property: AttributeSchemaProperty): z.ZodTypeAny {
+  switch (property.type) {
+    case "string": {
+      if (!property.enum || property.enum.length === 0) return z.string();
+      // Models often vary the case of enum values ("Close-up"), so map
+      // those onto the canonical spelling before checking
+      const values = property.enum.map(String);
+      return z.preprocess(
+        (v) =>
+          typeof v === "string"
+            ? values.find((e) => e.toLowerCase() === v.trim().toLowerCase()) ?? v
+            : v,
+        z.enum(values as [string, ...string[]])
+      );
+    }
+    case "number":
+    case "integer": {
+      let schema = property.type === "integer" ? z.number().int() : z.number();
+      if (property.minimum !== undefined) schema = schema.min(property.minimum);
+      if (property.maximum !== undefined) schema = schema.max(property.maximum);
+      return property.enum && property.enum.length > 0
+        ? schema.refine((v) => property.enum!.includes(v), "Not an allowed value")
+        : schema;
+    }
+    case "boolean":
+      return z.boolean();
+    case "array":
+      return z.array(property.items ? propertyToZod(property.items) : z.unknown());
+    default:
+      return z.unknown();
+  }
+}
+
+// Stable key identifying a schema, so cached analyses made with a different
+// schema aren't reused
+export function attributeSchemaKey(schema: AttributeSchema): string {
+  return createHash("sha256").update(JSON.stringify(schema)).digest("hex").slice(0, 12);
+}
+
+// Append the attribute schema to the frame prompt
+export function buildSchemaPrompt(basePrompt: string, schema: AttributeSchema): string {
+  return `${basePrompt}
+
+Also include an "attributes" object in the JSON with these fields (use null when a field doesn't apply):
+${JSON.stringify(schema.properties, null, 2)}`;
+}
+
+// Validate attributes field by field: a field the model got wrong is dropped
+// instead of discarding the whole frame
+export function validateAttributes(
+  raw: unknown,
+  schema: AttributeSchema
+): Record<string, unknown> {
+  const attributes: Record<string, unknown> = {};
+  if (!raw || typeof raw !== "object") return attributes;
+
+  for (const [name, property] of Object.entries(schema.properties)) {
+    const value = (raw as Record<string, unknown>)[name];
+    if (value === undefined || value === null) continue;
+
+    const parsed = propertyToZod(property).safeParse(value);
+    if (parsed.success) {
+      attributes[name] = parsed.data;
+    } else {
+      logger.warn(`Dropping invalid frame attribute "${name}":`, parsed.error.issues[0]?.message);
+    }
+  }
+
+  return attributes;
+}
+
+// Shape of a caller-supplied attribute schema, checked before it is used
+export const attributeSchemaSchema = z.object({
+  type: z.literal("object").optional(),
+  properties: z.record(
+    z.lazy(() => attributeSchemaPropertySchema)
+  ),
+  required: z.array(z.string()).optional(),
+});
+
+const attributeSchemaPropertySchema: z.ZodType<AttributeSchemaProperty> = z.lazy(() =>
+  z.object({
+    type: z.enum(["string", "number", "integer", "boolean", "array"]),
+    description: z.string().optional(),
+    enum: z.array(z.union([z.string(), z.number()])).optional(),
+    items: attributeSchemaPropertySchema.optional(),
+    minimum: z.number().optional(),
+    maximum: z.number().optional(),
+  })
+);
+
+export interface AttributeFilter {
+  field: string;
+  operator: "==" | "!=" | ">" | ">=" | "<" | "<=" | "contains";
+  value: unknown;
+}
+
+const FILTER_PATTERN = /^\s*([\w.-]+)\s*(==|!=|>=|<=|>|<|contains)\s*(.+?)\s*$/;
+
+// Parse filter expressions such as `framing == "close-up"`, `players_visible >= 2`
+// or `logo_visible == true`. Values are read as JSON, falling back to the raw text.
+export function parseAttributeFilter(expression: string): AttributeFilter {
+  const match = expression.match(FILTER_PATTERN);
+  if (!match) {
+    throw new Error(
+      `Invalid attribute filter "${expression}". Expected "<field> <==|!=|>|>=|<|<=|contains> <value>"`
+    );
+  }
+
+  let value: unknown;
+  try {
+    value = JSON.parse(match[3]);
+  } catch {
+    value = match[3].replace(/^'(.*)'$/, "$1");
+  }
+
+  return { field: match[1], operator: match[2] as AttributeFilter["operator"], value };
+}
+
+function valuesEqual(actual: unknown, expected: unknown): boolean {
+  if (typeof actual === "string" && typeof expected === "string") {
+    return actual.toLowerCase() === expected.toLowerCase();
+  }
+  return actual === expected;
+}
+
+export function matchesAttributeFilter(
+  attributes: Record<string, unknown> | undefined,
+  filter: AttributeFilter
+): boolean {
+  const actual = attributes?.[filter.field];
+  if (actual === undefined || actual === null) return false;
+
+  switch (filter.operator) {
+    case "==":
+      return Array.isArray(actual)
+        ? actual.some((v) => valuesEqual(v, filter.value))
+        : valuesEqual(actual, filter.value);
+    case "!=":
+      return Array.isArray(actual)
+        ? !actual.some((v) => valuesEqual(v, filter.value))
+        : !valuesEqual(actual, filter.value);
+    case "contains":
+      return Array.isArray(actual)
+        ? actual.some((v) => valuesEqual(v, filter.value))
+        : String(actual).toLowerCase().includes(String(filter.value).toLowerCase());
+    default: {
+      if (typeof actual !== "number" || typeof filter.value !== "number") return false;
+      if (filter.operator === ">") return actual > filter.value;
+      if (filter.operator === ">=") return actual >= filter.value;
+      if (filter.operator === "<") return actual < filter.value;
+      return actual <= filter.value;
+    }
+  }
+}
@@ -0,0 +1,168 @@
+import * as path from "path";
+import * as fs from "fs";
+import { createHash } from "crypto";
+import type {
+  Glossary,
+  TranscriptSegment,
+  WordTimestamp,
+} from "../types/index.js";
+import { logger } from "../utils/logger.js";
+
+// A project glossary lives next to the footage (or in any parent directory):
+// {
+//   "version": "3",
+//   "vocabulary": ["Premiere", "SKU-4410"],
+//   "initialPrompt": "Product review of the Acme X2.",
+//   "replacements": { "premier": "Premiere" }
+// }
+export const GLOSSARY_FILENAME = ".premiere-mcp-glossary.json";
+
+export function findGlossaryFile(videoPath: string): string | null {
+  let dir = path.dirname(path.resolve(videoPath));
+
+  while (true) {
+    const candidate = path.join(dir, GLOSSARY_FILENAME);
+    if (fs.existsSync(candidate)) return candidate;
+
+    const parent = path.dirname(dir);
+    if (parent === dir) return null;
+    dir = parent;
+  }
+}
+
+export function loadProjectGlossary(videoPath: string): Glossary | null {
+  const glossaryPath = findGlossaryFile(videoPath);
+  if (!glossaryPath) return null;
+
+  const raw = fs.readFileSync(glossaryPath, "utf-8");
+  const parsed = JSON.parse(raw) as Partial<Glossary>;
+
+  logger.info("Using project glossary", glossaryPath);
+
+  return {
+    // Without an explicit version, the content hash identifies the revision
+    version:
+      parsed.version !== undefined
+        ? String(parsed.version)
+        : createHash("sha256").update(raw).digest("hex").slice(0, 12),
+    vocabulary: parsed.vocabulary ?? [],
+    initialPrompt: parsed.initialPrompt,
+    replacements: parsed.replacements ?? {},
+  };
+}
+
+// Whisper has no explicit vocabulary list; listing the terms in the initial
+// prompt biases decoding towards their spelling
+export function buildTranscriptionPrompt(
+  vocabulary: string[],
+  initialPrompt?: string
+): string | undefined {
+  const parts: string[] = [];
+  if (initialPrompt) parts.push(initialPrompt.trim());
+  if (vocabulary.length > 0) parts.push(`Glossary: ${vocabulary.join(", ")}.`);
+
+  return parts.length > 0 ? parts.join(" ") : undefined;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function normalizeToken(text: string): string {
+  return text.toLowerCase().replace(/[^\p{L}\p{N}'-]/gu, "");
+}
+
+// Apply a case-insensitive, whole-word replacement table to segment text and
+// word timings. Multi-word keys ("pre mere") merge the matched words into one.
+export function applyReplacements(
+  segments: TranscriptSegment[],
+  words: WordTimestamp[],
+  replacements: Record<string, string>
+): { segments: TranscriptSegment[]; words: WordTimestamp[] } {
+  const entries = Object.entries(replacements).filter(([from]) => from.trim());
+  if (entries.length === 0) return { segments, words };
+
+  const replacedSegments = segments.map((segment) => {
+    let text = segment.text;
+    for (const [from, to] of entries) {
+      const pattern = new RegExp(
+        `(?<![\\p{L}\\p{N}])${escapeRegExp(from.trim())}(?![\\p{L}\\p{N}])`,
+        "giu"
+      );
+      text = text.replace(pattern, to);
+    }
+    return { ...segment, text };
+  });
+
+  const phrases = entries
+    .map(([from, to]) => ({
+      tokens: from.trim().split(/\s+/).map(normalizeToken),
+      to,
+    }))
+    .sort((a, b) => b.tokens.length - a.tokens.length);
+
+  const replacedWords: WordTimestamp[] = [];
+  for (let i = 0; i < words.length; i++) {
+    const match = phrases.find((p) =>
+      p.tokens.every(
+        (token, k) => i + k < words.length && normalizeToken(words[i + k].word) === token
+      )
+    );
+
+    if (!match) {
+      replacedWords.push(words[i]);
+      continue;
+    }
+
+    const matched = words.slice(i, i + match.tokens.length);
+    // Keep trailing punctuation of the last matched word ("premier," -> "Premiere,")
+    const trailing = matched[matched.length - 1].word.match(/[^\p{L}\p{N}]*$/u)?.[0] ?? "";
+    replacedWords.push({
+      ...matched[0],
+      word: match.to + trailing,
+      end: matched[matched.length - 1].end,
+      confidence: Math.min(...matched.map((w) => w.confidence)),
+    });
+    i += match.tokens.length - 1;
+  }
+
+  return { segments: replacedSegments, words: replacedWords };
+}
+
+// Add corrections to the project glossary's replacement table, creating the
+// file next to the video if there is none yet. Numeric versions are bumped.
+export function learnGlossaryReplacements(
+  videoPath: string,
+  corrections: Array<{ from: string; to: string }>
+): { glossaryPath: string; added: number } {
+  const glossaryPath =
+    findGlossaryFile(videoPath) ??
+    path.join(path.dirname(path.resolve(videoPath)), GLOSSARY_FILENAME);
+
+  const existing: Record<string, unknown> = fs.existsSync(glossaryPath)
+    ? JSON.parse(fs.readFileSync(glossaryPath, "utf-8"))
+    : { version: "0", vocabulary: [], replacements: {} };
+
+  const replacements = (existing.replacements ?? {}) as Record<string, string>;
+  let added = 0;
+
+  for (const { from, to } of corrections) {
+    const key = normalizeToken(from);
+    const value = to.replace(/[^\p{L}\p{N}'-]+$/u, "");
+    if (!key || replacements[key] === value) continue;
+    replacements[key] = value;
+    added++;
+  }
+
+  if (added > 0) {
+    const version = existing.version;
+    if (version !== undefined && /^\d+$/.test(String(version))) {
+      existing.version = String(Number(version) + 1);
+    }
+    existing.replacements = replacements;
+    fs.writeFileSync(glossaryPath, JSON.stringify(existing, null, 2) + "\n", "utf-8");
+    logger.info(`Learned ${added} glossary replacement(s) into`, glossaryPath);
+  }
+
+  return { glossaryPath, added };
+}
@@ -0,0 +1,14 @@
+import type { OcrProvider } from "../../types/index.js";
+import { createRegistry } from "../../utils/registry.js";
+import { createTesseractOcrProvider } from "./tesseract.js";
+
+export const DEFAULT_OCR_PROVIDER = process.env.OCR_PROVIDER || "tesseract";
+
+// "vision" isn't registered here: it is built from the vision provider of
+// each analysis (see createVisionOcrProvider)
+export const ocrProviders = createRegistry<OcrProvider>({
+  kind: "OCR provider",
+  defaultName: DEFAULT_OCR_PROVIDER,
+  entries: [createTesseractOcrProvider()],
+  externalNames: ["vision"],
+});
@@ -0,0 +1,124 @@
+import { execFile } from "child_process";
+import { promisify } from "util";
+import type { OcrProvider, OnScreenText } from "../../types/index.js";
+import { logger } from "../../utils/logger.js";
+
+const execFileAsync = promisify(execFile);
+
+// Words below this Tesseract confidence (0-100) are mostly noise from
+// textures and edges, not text
+const MIN_WORD_CONFIDENCE = 60;
+
+// Turn Tesseract's TSV output into one entry per text line. Each row is
+// level, page, block, paragraph, line, word, left, top, width, height,
+// confidence, text; level 1 is the page, level 5 a word.
+export function parseTesseractTsv(tsv: string): OnScreenText[] {
+  let pageWidth = 0;
+  let pageHeight = 0;
+  const lines = new Map<
+    string,
+    { words: string[]; confidences: number[]; left: number; top: number; right: number; bottom: number }
+  >();
+
+  for (const row of tsv.split("\n").slice(1)) {
+    const columns = row.split("\t");
+    if (columns.length < 12) continue;
+
+    const [level, , block, paragraph, line] = columns.slice(0, 5).map(Number);
+    const [left, top, width, height] = columns.slice(6, 10).map(Number);
+    const confidence = parseFloat(columns[10]);
+    const word = columns.slice(11).join("\t").trim();
+
+    if (level === 1) {
+      pageWidth = width;
+      pageHeight = height;
+      continue;
+    }
+    if (level !== 5 || !word || confidence < MIN_WORD_CONFIDENCE) continue;
+
+    const key = `${block}:${paragraph}:${line}`;
+    const entry = lines.get(key);
+    if (entry) {
+      entry.words.push(word);
+      entry.confidences.push(confidence);
+      entry.left = Math.min(entry.left, left);
+      entry.top = Math.min(entry.top, top);
+      entry.right = Math.max(entry.right, left + width);
+      entry.bottom = Math.max(entry.bottom, top + height);
+    } else {
+      lines.set(key, {
+        words: [word],
+        confidences: [confidence],
+        left,
+        top,
+        right: left + width,
+        bottom: top + height,
+      });
+    }
+  }
+
+  if (pageWidth === 0 || pageHeight === 0) return [];
+
+  const round = (v: number) => Math.round(v * 1000) / 1000;
+  return [...lines.values()].map((line) => ({
+    text: line.words.join(" "),
+    confidence: round(
+      line.confidences.reduce((sum, c) => sum + c, 0) / line.confidences.length / 100
+    ),
+    box: {
+      x: round(line.left / pageWidth),
+      y: round(line.top / pageHeight),
+      width: round((line.right - line.left) / pageWidth),
+      height: round((line.bottom - line.top) / pageHeight),
+    },
+  }));
+}
+
+// Local OCR with the Tesseract CLI. Sparse-text mode (--psm 11) suits video
+// frames, where text is scattered (lower thirds, signs) rather than a page.
+export function createTesseractOcrProvider(
+  command: string = process.env.TESSERACT_COMMAND || "tesseract",
+  languages: string = process.env.OCR_LANGUAGES || "eng"
+): OcrProvider {
+  return {
+    name: "tesseract",
+
+    async recognize(imagePath) {
+      logger.debug("Running tesseract on", imagePath);
+
+      const { stdout } = await execFileAsync(
+        command,
+        [imagePath, "stdout", "-l", languages, "--psm", "11", "tsv"],
+        { maxBuffer: 16 * 1024 * 1024 }
+      );
+
+      return parseTesseractTsv(stdout);
+    },
+
+    async checkAvailable() {
+      let output: string;
+      try {
+        // Older versions list the languages on stderr
+        const { stdout, stderr } = await execFileAsync(command, ["--list-langs"]);
+        output = `${stdout}\n${stderr}`;
+      } catch (error) {
+        if ((error as { code?: unknown }).code === "ENOENT") {
+          throw new Error(
+            `Tesseract not found ("${command}"). Install it, set TESSERACT_COMMAND, or use ocrProvider "vision"`
+          );
+        }
+        throw new Error(
+          `Tesseract could not be run: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+
+      const installed = new Set(output.split("\n").map((line) => line.trim()));
+      const missing = languages.split("+").filter((language) => !installed.has(language));
+      if (missing.length > 0) {
+        throw new Error(
+          `Tesseract has no language data for ${missing.join(", ")}. Install it or change OCR_LANGUAGES`
+        );
+      }
+    },
+  };
+}
@@ -0,0 +1,59 @@
+import type {
+  OcrProvider,
+  OnScreenText,
+  VisionProvider,
+  VisionRequestOptions,
+} from "../../types/index.js";
+import { parseBoundingBox } from "../../utils/bounding-box.js";
+import { parseJsonResponse } from "../../utils/json-response.js";
+import { logger } from "../../utils/logger.js";
+
+const OCR_PROMPT = `Read all legible text in this video frame: slides, captions, lower thirds, signs, labels and screens.
+Respond with JSON only, in this structure:
+{
+  "text": [
+    { "text": "the text of one line or block", "box": [x, y, width, height] }
+  ]
+}
+The box is the text's bounding box as fractions (0-1) of the image width and height, measured from the top-left corner.
+Use {"text": []} if there is no text.`;
+
+export function parseVisionOcrResponse(response: string): OnScreenText[] {
+  const items = (parseJsonResponse(response) as { text?: unknown } | null)?.text;
+  if (!Array.isArray(items)) return [];
+
+  return items.flatMap((item: unknown) => {
+    const { text, box } = (item ?? {}) as { text?: unknown; box?: unknown };
+    if (typeof text !== "string" || !text.trim()) return [];
+
+    return [
+      {
+        text: text.trim(),
+        box: parseBoundingBox(box) ?? { x: 0, y: 0, width: 1, height: 1 },
+      },
+    ];
+  });
+}
+
+// OCR through a vision provider, for machines without Tesseract or text
+// Tesseract reads poorly (stylized titles, skewed signage). Costs one extra
+// vision call per analyzed frame.
+export function createVisionOcrProvider(
+  provider: VisionProvider,
+  request: VisionRequestOptions = {}
+): OcrProvider {
+  return {
+    name: "vision",
+
+    async recognize(imagePath) {
+      const response = await provider.describeImage(imagePath, OCR_PROMPT, request);
+
+      try {
+        return parseVisionOcrResponse(response);
+      } catch {
+        logger.warn("Could not parse OCR response from", provider.name);
+        return [];
+      }
+    },
+  };
+}
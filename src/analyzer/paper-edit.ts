@@ -0,0 +1,142 @@
+import type {
+  EditDecision,
+  SpeechAnalysisResult,
+  WordTimestamp,
+} from "../types/index.js";
+
+export interface PaperEditOptions {
+  handles?: number; // seconds of extra source kept around each range
+}
+
+export interface PaperEditResult {
+  decisions: EditDecision[];
+  // Edited words that could not be found in the transcript (typed-in text)
+  unmatched: string[];
+}
+
+function normalizeToken(text: string): string {
+  return text.toLowerCase().replace(/[^\p{L}\p{N}'-]/gu, "");
+}
+
+function tokenize(text: string): string[] {
+  return text.split(/\s+/).map(normalizeToken).filter(Boolean);
+}
+
+// Map every edited token to a source word index. Tokens that continue the
+// current run stay in it; otherwise the source position sharing the longest
+// run of following tokens wins, preferring words not used yet and positions
+// closest after the current one. This handles deleted and reordered lines.
+export function alignTokens(source: string[], edited: string[]): Array<number | null> {
+  const used = new Set<number>();
+  const alignment: Array<number | null> = [];
+  let expected = 0;
+
+  const runLength = (i: number, j: number) => {
+    let k = 0;
+    while (i + k < source.length && j + k < edited.length && source[i + k] === edited[j + k]) {
+      k++;
+    }
+    return k;
+  };
+
+  for (let j = 0; j < edited.length; j++) {
+    let match: number | null = null;
+
+    if (expected < source.length && source[expected] === edited[j] && !used.has(expected)) {
+      match = expected;
+    } else {
+      let bestScore = -Infinity;
+      for (let i = 0; i < source.length; i++) {
+        if (source[i] !== edited[j]) continue;
+
+        const distance = i >= expected ? i - expected : source.length + (expected - i);
+        const score =
+          runLength(i, j) * source.length * 4 +
+          (used.has(i) ? 0 : source.length * 2) -
+          distance;
+        if (score > bestScore) {
+          bestScore = score;
+          match = i;
+        }
+      }
+    }
+
+    alignment.push(match);
+    if (match !== null) {
+      used.add(match);
+      expected = match + 1;
+    }
+  }
+
+  return alignment;
+}
+
+// Turn an edited transcript into source ranges laid back to back on the
+// record side. Handles extend into the surrounding audio but never into a
+// neighbouring word that was cut.
+export function buildPaperEdit(
+  speech: SpeechAnalysisResult,
+  editedText: string,
+  options: PaperEditOptions = {}
+): PaperEditResult {
+  const { handles = 0 } = options;
+  const words: WordTimestamp[] = speech.words;
+
+  if (words.length === 0) {
+    throw new Error(
+      "The transcript has no word timings. Re-run analyze_video_speech to get word-level timestamps."
+    );
+  }
+
+  const source = words.map((w) => normalizeToken(w.word));
+  const editedWords = editedText.split(/\s+/).filter((w) => normalizeToken(w));
+  const alignment = alignTokens(source, tokenize(editedText));
+
+  const unmatched: string[] = [];
+  const runs: Array<{ first: number; last: number }> = [];
+
+  alignment.forEach((index, j) => {
+    if (index === null) {
+      unmatched.push(editedWords[j]);
+      return;
+    }
+
+    const current = runs[runs.length - 1];
+    if (current && index === current.last + 1) {
+      current.last = index;
+    } else {
+      runs.push({ first: index, last: index });
+    }
+  });
+
+  const decisions: EditDecision[] = [];
+  let recordIn = 0;
+
+  for (const run of runs) {
+    const first = words[run.first];
+    const last = words[run.last];
+    const previousEnd = run.first > 0 ? words[run.first - 1].end : 0;
+    const nextStart = run.last < words.length - 1 ? words[run.last + 1].start : speech.duration;
+
+    const sourceIn = Math.max(previousEnd, first.start - handles, 0);
+    const sourceOut = Math.min(nextStart, last.end + handles, speech.duration);
+    const duration = sourceOut - sourceIn;
+    if (duration <= 0) continue;
+
+    decisions.push({
+      index: decisions.length + 1,
+      sourceIn,
+      sourceOut,
+      recordIn,
+      recordOut: recordIn + duration,
+      duration,
+      text: words
+        .slice(run.first, run.last + 1)
+        .map((w) => w.word)
+        .join(" "),
+    });
+    recordIn += duration;
+  }
+
+  return { decisions, unmatched };
+}
@@ -0,0 +1,72 @@
+import type { BoundingBox, PersonDetection } from "../../types/index.js";
+import { decodeRawImage } from "../../utils/image.js";
+
+// Clothing colours as a coarse RGB histogram, so people can be followed
+// across cuts when the detector gives no appearance description. Only the
+// torso (the middle of the body box) is sampled, to keep background and
+// skin out of it.
+
+const WIDTH = 160;
+const HEIGHT = 90;
+const LEVELS = 4; // Per channel, so LEVELS^3 bins
+
+function torso(box: BoundingBox): BoundingBox {
+  return {
+    x: box.x + box.width * 0.2,
+    y: box.y + box.height * 0.2,
+    width: box.width * 0.6,
+    height: box.height * 0.4,
+  };
+}
+
+// Normalized histogram of the pixels inside a box of an RGB image, or
+// undefined if the box covers no pixels
+export function colorHistogram(
+  rgb: Buffer,
+  width: number,
+  height: number,
+  box: BoundingBox
+): number[] | undefined {
+  const x0 = Math.max(0, Math.floor(box.x * width));
+  const y0 = Math.max(0, Math.floor(box.y * height));
+  const x1 = Math.min(width, Math.ceil((box.x + box.width) * width));
+  const y1 = Math.min(height, Math.ceil((box.y + box.height) * height));
+  if (x1 <= x0 || y1 <= y0) return undefined;
+
+  const bins: number[] = new Array(LEVELS ** 3).fill(0);
+  const level = (value: number) => Math.min(LEVELS - 1, Math.floor((value * LEVELS) / 256));
+  for (let y = y0; y < y1; y++) {
+    for (let x = x0; x < x1; x++) {
+      const i = (y * width + x) * 3;
+      bins[(level(rgb[i]) * LEVELS + level(rgb[i + 1])) * LEVELS + level(rgb[i + 2])]++;
+    }
+  }
+
+  const total = (x1 - x0) * (y1 - y0);
+  return bins.map((count) => Math.round((count / total) * 1000) / 1000);
+}
+
+// Histogram intersection: 1 for identical colour distributions, 0 for
+// disjoint ones
+export function appearanceSimilarity(a: number[] | undefined, b: number[] | undefined): number {
+  if (!a || !b) return 0;
+  let shared = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    shared += Math.min(a[i], b[i]);
+  }
+  return shared;
+}
+
+// Copies of the detections with their torso colours measured from the frame
+export async function addAppearance(
+  imagePath: string,
+  people: PersonDetection[]
+): Promise<PersonDetection[]> {
+  if (people.length === 0) return people;
+
+  const rgb = await decodeRawImage(imagePath, WIDTH, HEIGHT, "rgb24");
+  return people.map((person) => ({
+    ...person,
+    appearance: colorHistogram(rgb, WIDTH, HEIGHT, torso(person.box)),
+  }));
+}
@@ -0,0 +1,36 @@
+import * as fs from "fs";
+import type { PersonDetector } from "../../types/index.js";
+import { HttpStatusError } from "../../utils/retry.js";
+import { parsePeopleResponse } from "./parse.js";
+import { logger } from "../../utils/logger.js";
+
+// A local detection model behind HTTP (e.g. a YOLO or face-detection
+// service). The frame is POSTed as image/jpeg and the server answers with
+// the JSON described in parse.ts.
+export function createHttpPersonDetector(
+  url: string = process.env.PERSON_DETECTOR_URL || "http://127.0.0.1:8700/detect"
+): PersonDetector {
+  return {
+    name: "http",
+
+    async detect(imagePath) {
+      logger.debug("Sending frame to person detector at", url);
+
+      const response = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "image/jpeg" },
+        body: await fs.promises.readFile(imagePath),
+      });
+
+      if (!response.ok) {
+        throw new HttpStatusError(
+          `Person detector returned ${response.status}: ${await response.text()}`,
+          response.status,
+          Object.fromEntries(response.headers)
+        );
+      }
+
+      return parsePeopleResponse(await response.json());
+    },
+  };
+}
@@ -0,0 +1,14 @@
+import type { PersonDetector } from "../../types/index.js";
+import { createRegistry } from "../../utils/registry.js";
+import { createHttpPersonDetector } from "./http.js";
+
+export const DEFAULT_PERSON_DETECTOR = process.env.PERSON_DETECTOR || "vision";
+
+// "vision" isn't registered here: it is built from the vision provider of
+// each analysis (see createVisionPersonDetector)
+export const personDetectors = createRegistry<PersonDetector>({
+  kind: "person detector",
+  defaultName: DEFAULT_PERSON_DETECTOR,
+  entries: [createHttpPersonDetector()],
+  externalNames: ["vision"],
+});
@@ -0,0 +1,29 @@
+import type { PersonDetection } from "../../types/index.js";
+import { parseBoundingBox } from "../../utils/bounding-box.js";
+
+// Both detectors answer with the same JSON:
+// { "people": [{ "box": [x, y, w, h], "face": [x, y, w, h] | null,
+//                "confidence": 0.9, "description": "..." }] }
+// with boxes as fractions (0-1) of the frame from the top-left corner
+export function parsePeopleResponse(parsed: unknown): PersonDetection[] {
+  const items = (parsed as { people?: unknown } | null)?.people;
+  if (!Array.isArray(items)) return [];
+
+  return items.flatMap((item) => {
+    const { box, face, confidence, description } = (item ?? {}) as Record<string, unknown>;
+    const body = parseBoundingBox(box);
+    const faceBox = parseBoundingBox(face);
+    if (!body && !faceBox) return [];
+
+    return [
+      {
+        // A detector that only finds faces still gets a body box
+        box: body ?? faceBox!,
+        faceBox,
+        confidence: typeof confidence === "number" ? confidence : undefined,
+        description:
+          typeof description === "string" && description.trim() ? description.trim() : undefined,
+      },
+    ];
+  });
+}
@@ -0,0 +1,44 @@
+import type {
+  PersonDetector,
+  VisionProvider,
+  VisionRequestOptions,
+} from "../../types/index.js";
+import { parseJsonResponse } from "../../utils/json-response.js";
+import { parsePeopleResponse } from "./parse.js";
+import { logger } from "../../utils/logger.js";
+
+const PEOPLE_PROMPT = `Find every person visible in this video frame. Respond with JSON only, in this structure:
+{
+  "people": [
+    {
+      "box": [x, y, width, height],
+      "face": [x, y, width, height],
+      "description": "short appearance description, e.g. 'woman, dark curly hair, red jacket'"
+    }
+  ]
+}
+Boxes are fractions (0-1) of the image width and height, measured from the top-left corner. "box" covers the visible body, "face" the face (null if it isn't visible).
+Describe clothing and hair, not actions, so the same person gets the same description in other frames.
+Use {"people": []} if nobody is visible.`;
+
+// Person detection through a vision provider. Costs one extra vision call per
+// analyzed frame; the appearance descriptions help re-identify people across cuts.
+export function createVisionPersonDetector(
+  provider: VisionProvider,
+  request: VisionRequestOptions = {}
+): PersonDetector {
+  return {
+    name: "vision",
+
+    async detect(imagePath) {
+      const response = await provider.describeImage(imagePath, PEOPLE_PROMPT, request);
+
+      try {
+        return parsePeopleResponse(parseJsonResponse(response));
+      } catch {
+        logger.warn("Could not parse person detection response from", provider.name);
+        return [];
+      }
+    },
+  };
+}
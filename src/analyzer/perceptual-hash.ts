@@ -0,0 +1,91 @@
+import { decodeRawImage } from "../utils/image.js";
+
+// 64-bit DCT perceptual hash (pHash). Frames are shrunk to 32x32 grayscale,
+// transformed with a 2D DCT, and the 8x8 lowest frequencies are compared to
+// their median. Near-identical frames (compression noise, a blinking cursor,
+// a talking head barely moving) end up a few bits apart.
+
+const SAMPLE_SIZE = 32;
+const HASH_SIZE = 8;
+
+// Only the HASH_SIZE x HASH_SIZE low-frequency coefficients are needed
+function lowFrequencyDct(pixels: Buffer): number[] {
+  const n = SAMPLE_SIZE;
+  const cos: number[][] = [];
+  for (let u = 0; u < HASH_SIZE; u++) {
+    cos.push([]);
+    for (let x = 0; x < n; x++) {
+      cos[u].push(Math.cos(((2 * x + 1) * u * Math.PI) / (2 * n)));
+    }
+  }
+
+  const coefficients: number[] = [];
+  for (let u = 0; u < HASH_SIZE; u++) {
+    for (let v = 0; v < HASH_SIZE; v++) {
+      let sum = 0;
+      for (let y = 0; y < n; y++) {
+        for (let x = 0; x < n; x++) {
+          sum += pixels[y * n + x] * cos[u][y] * cos[v][x];
+        }
+      }
+      coefficients.push(sum);
+    }
+  }
+
+  return coefficients;
+}
+
+export function hashFromPixels(pixels: Buffer): string {
+  const coefficients = lowFrequencyDct(pixels);
+
+  // The DC term only carries overall brightness, so it's left out of the median
+  const sorted = coefficients.slice(1).sort((a, b) => a - b);
+  const median = (sorted[31] + sorted[32]) / 2;
+
+  let hex = "";
+  for (let i = 0; i < coefficients.length; i += 4) {
+    let nibble = 0;
+    for (let bit = 0; bit < 4; bit++) {
+      nibble = (nibble << 1) | (coefficients[i + bit] > median ? 1 : 0);
+    }
+    hex += nibble.toString(16);
+  }
+
+  return hex;
+}
+
+export async function perceptualHash(imagePath: string): Promise<string> {
+  return hashFromPixels(await decodeRawImage(imagePath, SAMPLE_SIZE, SAMPLE_SIZE));
+}
+
+export function hammingDistance(a: string, b: string): number {
+  let distance = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    let diff = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return distance;
+}
+
+// Map each frame to the frame whose analysis it can reuse: itself, or the
+// last kept frame if its hash is within threshold bits of that one. Comparing
+// against the kept frame rather than the previous one stops a slow pan from
+// being collapsed into its first frame.
+export function groupDuplicateFrames(hashes: string[], threshold: number): number[] {
+  const sourceOf: number[] = [];
+  let reference = -1;
+
+  hashes.forEach((hash, i) => {
+    if (reference !== -1 && hammingDistance(hash, hashes[reference]) <= threshold) {
+      sourceOf.push(reference);
+    } else {
+      sourceOf.push(i);
+      reference = i;
+    }
+  });
+
+  return sourceOf;
+}
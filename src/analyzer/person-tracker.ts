@@ -0,0 +1,164 @@
+import type {
+  FrameAnalysis,
+  PersonDetection,
+  PersonTrack,
+  ShotSize,
+} from "../types/index.js";
+import { intersectionOverUnion } from "../utils/bounding-box.js";
+import { appearanceSimilarity } from "./people/appearance.js";
+
+export interface PersonTrackingOptions {
+  // Seconds a track may go unseen before it can only be resumed by appearance
+  maxGap?: number;
+  // Box overlap needed to continue a track from one frame to the next
+  minIou?: number;
+  // Appearance-description similarity (0-1) needed to resume a track
+  minDescriptionSimilarity?: number;
+  // Clothing-colour similarity (0-1) needed to resume a track when the
+  // person or the track has no description
+  minAppearanceSimilarity?: number;
+}
+
+// Shot size from how much of the frame height the face fills, or from the
+// body box when no face was found
+export function classifyShotSize(person: PersonDetection): ShotSize {
+  if (person.faceBox) {
+    if (person.faceBox.height >= 0.25) return "close-up";
+    if (person.faceBox.height >= 0.1) return "medium";
+    return "wide";
+  }
+  return person.box.height >= 0.8 ? "medium" : "wide";
+}
+
+function descriptionWords(description: string | undefined): Set<string> {
+  return new Set(
+    (description ?? "")
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter((w) => w.length > 2)
+  );
+}
+
+function descriptionSimilarity(a: string | undefined, b: string | undefined): number {
+  const wordsA = descriptionWords(a);
+  const wordsB = descriptionWords(b);
+  if (wordsA.size === 0 || wordsB.size === 0) return 0;
+
+  const shared = [...wordsA].filter((w) => wordsB.has(w)).length;
+  return shared / (wordsA.size + wordsB.size - shared);
+}
+
+interface TrackState {
+  track: PersonTrack;
+  box: PersonDetection["box"];
+  appearance?: number[];
+  lastSeen: number;
+  shotIndex?: number;
+}
+
+// Give every detected person a track ID (1, 2, ...) that stays the same across
+// frames. Within a shot, detections continue the track whose last box they
+// overlap most; after a cut or a gap, a person is matched to an earlier track
+// by appearance description, or by clothing colours when the detector gives
+// no descriptions (the http detector). Colours tell apart people dressed
+// differently, but not two people in similar clothes. Frames must be in time
+// order; their people are replaced with tracked copies.
+export function trackPeople(
+  frames: FrameAnalysis[],
+  options: PersonTrackingOptions = {}
+): PersonTrack[] {
+  const {
+    maxGap = 3,
+    minIou = 0.3,
+    minDescriptionSimilarity = 0.5,
+    minAppearanceSimilarity = 0.7,
+  } = options;
+  const states: TrackState[] = [];
+
+  // How well a person fits an earlier track, relative to the threshold of the
+  // cue used (1 is just enough)
+  const resumeScore = (person: PersonDetection, state: TrackState): number =>
+    person.description && state.track.description
+      ? descriptionSimilarity(person.description, state.track.description) /
+        minDescriptionSimilarity
+      : appearanceSimilarity(person.appearance, state.appearance) / minAppearanceSimilarity;
+
+  for (const frame of frames) {
+    if (!frame.people) continue;
+
+    const used = new Set<TrackState>();
+    const assigned: Array<TrackState | undefined> = new Array(frame.people.length);
+
+    // Continue recent tracks in the same shot by box overlap, best pairs first
+    const recent = states.filter(
+      (s) =>
+        frame.timestamp - s.lastSeen <= maxGap &&
+        (frame.shotIndex === undefined || s.shotIndex === frame.shotIndex)
+    );
+    const pairs = frame.people
+      .flatMap((person, i) =>
+        recent.map((state) => ({ i, state, iou: intersectionOverUnion(person.box, state.box) }))
+      )
+      .filter((p) => p.iou >= minIou)
+      .sort((a, b) => b.iou - a.iou);
+
+    for (const { i, state } of pairs) {
+      if (assigned[i] || used.has(state)) continue;
+      assigned[i] = state;
+      used.add(state);
+    }
+
+    // Resume earlier tracks by appearance, otherwise start a new one
+    frame.people.forEach((person, i) => {
+      if (assigned[i]) return;
+
+      let best: TrackState | undefined;
+      let bestScore = 1;
+      for (const state of states) {
+        if (used.has(state)) continue;
+        const score = resumeScore(person, state);
+        if (score >= bestScore) {
+          best = state;
+          bestScore = score;
+        }
+      }
+
+      if (!best) {
+        best = {
+          track: {
+            id: states.length + 1,
+            start: frame.timestamp,
+            end: frame.timestamp,
+            frames: 0,
+            description: person.description,
+            shotSizes: [],
+          },
+          box: person.box,
+          lastSeen: frame.timestamp,
+        };
+        states.push(best);
+      }
+
+      assigned[i] = best;
+      used.add(best);
+    });
+
+    frame.people = frame.people.map((person, i) => {
+      const state = assigned[i]!;
+      const shotSize = classifyShotSize(person);
+
+      state.box = person.box;
+      state.appearance = person.appearance ?? state.appearance;
+      state.lastSeen = frame.timestamp;
+      state.shotIndex = frame.shotIndex;
+      state.track.end = frame.timestamp;
+      state.track.frames++;
+      state.track.description ??= person.description;
+      if (!state.track.shotSizes.includes(shotSize)) state.track.shotSizes.push(shotSize);
+
+      return { ...person, trackId: state.track.id, shotSize };
+    });
+  }
+
+  return states.map((s) => s.track);
+}
@@ -0,0 +1,99 @@
+import type { QualityAnalysisResult } from "../types/index.js";
+import { measureFrameQuality } from "./frame-quality.js";
+import { getVideoInfo } from "../utils/video-info.js";
+import {
+  generateAnalysisId,
+  getQualityAnalysis,
+  saveQualityAnalysis,
+  updateAnalysisStatus,
+} from "../cache/store.js";
+import { logger } from "../utils/logger.js";
+
+export interface QualityAnalysisOptions {
+  // Samples per second
+  fps?: number;
+  forceReanalyze?: boolean;
+}
+
+// Frame quality (sharpness, exposure, motion, shake) sampled across the whole
+// video with no vision calls. Cached on its own, so it never replaces a
+// visual analysis.
+export async function analyzeVideoQuality(
+  videoPath: string,
+  options: QualityAnalysisOptions = {}
+): Promise<QualityAnalysisResult> {
+  const { fps = 1, forceReanalyze = false } = options;
+
+  // Check cache first
+  if (!forceReanalyze) {
+    const cached = getQualityAnalysis(videoPath, fps);
+    if (cached) {
+      logger.info("Using cached quality analysis", cached.analysisId);
+      return cached;
+    }
+  }
+
+  const analysisId = generateAnalysisId();
+  const startedAt = Date.now();
+
+  updateAnalysisStatus({
+    analysisId,
+    videoPath,
+    type: "quality",
+    status: "processing",
+    progress: 0,
+    startedAt,
+  });
+
+  try {
+    const videoInfo = await getVideoInfo(videoPath);
+
+    const timestamps: number[] = [];
+    for (let t = 0; t < videoInfo.duration; t += 1 / fps) {
+      timestamps.push(Math.round(t * 1000) / 1000);
+    }
+
+    logger.info(`Measuring frame quality at ${timestamps.length} points (${fps} fps)...`);
+    const qualities = await measureFrameQuality(videoPath, timestamps);
+
+    const result: QualityAnalysisResult = {
+      analysisId,
+      videoPath,
+      duration: videoInfo.duration,
+      fps,
+      samples: timestamps.map((timestamp, i) => ({ timestamp, quality: qualities[i] })),
+      createdAt: Date.now(),
+    };
+
+    saveQualityAnalysis(result);
+
+    updateAnalysisStatus({
+      analysisId,
+      videoPath,
+      type: "quality",
+      status: "completed",
+      progress: 100,
+      startedAt,
+      completedAt: Date.now(),
+    });
+
+    logger.info("Quality analysis complete:", result.samples.length, "samples");
+    return result;
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logger.error("Quality analysis failed:", errorMessage);
+
+    updateAnalysisStatus({
+      analysisId,
+      videoPath,
+      type: "quality",
+      status: "failed",
+      progress: 0,
+      error: errorMessage,
+      startedAt,
+      completedAt: Date.now(),
+    });
+
+    throw error;
+  }
+}
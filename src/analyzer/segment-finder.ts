@@ -1,17 +1,61 @@
 import type {
   SpeechAnalysisResult,
   VisualAnalysisResult,
+  AudioAnalysisResult,
+  AudioSegmentMetrics,
   FoundSegment,
+  FrameAnalysis,
+  PersonDetection,
+  ShotSize,
 } from "../types/index.js";
+import { matchesAttributeFilter, type AttributeFilter } from "./frame-schemas.js";
+import { frameSearchText, frameSimilarityKey, type SemanticScores } from "./semantic-index.js";
 import { logger } from "../utils/logger.js";
 
 export interface FindSegmentsOptions {
   query: string;
-  searchType: "speech" | "visual" | "both";
+  // "visual" and "both" include on-screen text; "text" searches only that
+  searchType: "speech" | "visual" | "text" | "both";
   maxResults?: number;
   minDuration?: number;
   expandBy?: number;
   caseSensitive?: boolean;
+  speaker?: string;
+  language?: string;
+  // Audio quality filters and ranking; require an audio analysis
+  audioAnalysis?: AudioAnalysisResult | null;
+  cleanOnly?: boolean;
+  minWordsPerMinute?: number;
+  maxWordsPerMinute?: number;
+  maxNoiseFloorDb?: number;
+  rankBy?: "confidence" | "quality" | "loudness";
+  // Structured frame attribute filters; visual matches must pass all of them.
+  // Transcript segments have no frame to test, so speech matches are left
+  // out while any attribute or person filter is set.
+  attributeFilters?: AttributeFilter[];
+  // Person filters on visual matches; require person detection. A frame
+  // matches personId/shotSize if one person on it fits both.
+  personId?: number;
+  shotSize?: ShotSize;
+  minPeople?: number;
+  maxPeople?: number;
+  // Semantic mode: rank transcript segments and frames by the query's
+  // similarity to them (from computeSemanticScores) blended with the keyword
+  // score, instead of requiring the query to appear verbatim
+  semanticScores?: SemanticScores;
+  // Share of the blended score that comes from similarity (0-1)
+  semanticWeight?: number;
+  // Blended score a semantic match needs to be returned
+  minScore?: number;
+}
+
+// 1 when the whole query appears in the text, otherwise the share of its
+// words that do
+function keywordScore(text: string, query: string): number {
+  if (text.includes(query)) return 1;
+  const terms = query.split(/[^\p{L}\p{N}]+/u).filter((t) => t.length > 1);
+  if (terms.length === 0) return 0;
+  return terms.filter((t) => text.includes(t)).length / terms.length;
 }
 
 function getTranscriptContext(
@@ -51,10 +95,35 @@ function mergeOverlappingSegments(segments: FoundSegment[]): FoundSegment[] {
         start: current.start,
         end: Math.max(current.end, next.end),
         duration: Math.max(current.end, next.end) - current.start,
-        matchType: current.matchType === next.matchType ? current.matchType : "speech",
+        matchType:
+          current.matchType === next.matchType
+            ? current.matchType
+            : current.matchType === "speech" || next.matchType === "speech"
+              ? "speech"
+              : "visual",
         matchedContent: current.matchedContent + " | " + next.matchedContent,
         confidence: Math.max(current.confidence, next.confidence),
+        similarity:
+          current.similarity !== undefined || next.similarity !== undefined
+            ? Math.max(current.similarity ?? -1, next.similarity ?? -1)
+            : undefined,
         context: current.context,
+        speaker: current.speaker === next.speaker ? current.speaker : undefined,
+        language: current.language === next.language ? current.language : undefined,
+        // Keep the weaker take's metrics so a merged range is never rated too well
+        audio:
+          current.audio && next.audio
+            ? current.audio.qualityScore <= next.audio.qualityScore
+              ? current.audio
+              : next.audio
+            : current.audio ?? next.audio,
+        attributes: current.attributes ?? next.attributes,
+        thumbnailPath: current.thumbnailPath ?? next.thumbnailPath,
+        people: current.people ?? next.people,
+        text:
+          current.text || next.text
+            ? [...(current.text ?? []), ...(next.text ?? [])]
+            : undefined,
       };
     } else {
       merged.push(current);
@@ -78,20 +147,87 @@ export function findSegments(
     minDuration = 1,
     expandBy = 0.5,
     caseSensitive = false,
+    speaker,
+    language,
+    audioAnalysis,
+    cleanOnly = false,
+    minWordsPerMinute,
+    maxWordsPerMinute,
+    maxNoiseFloorDb,
+    rankBy = "confidence",
+    attributeFilters = [],
+    personId,
+    shotSize,
+    minPeople,
+    maxPeople,
+    semanticScores,
+    semanticWeight = 0.7,
+    minScore = 0.3,
   } = options;
 
+  // Audio metrics of the transcript segment playing at a given time
+  const metricsAt = (time: number): AudioSegmentMetrics | undefined =>
+    audioAnalysis?.segments.find((m) => time >= m.start && time <= m.end);
+
   const segments: FoundSegment[] = [];
   const searchQuery = caseSensitive ? query : query.toLowerCase();
-
-  logger.info(`Searching for "${query}" in ${searchType} data...`);
+  const filterByPeople =
+    personId !== undefined ||
+    shotSize !== undefined ||
+    minPeople !== undefined ||
+    maxPeople !== undefined;
+
+  // People on a frame that satisfy the person filters, or null if the frame
+  // doesn't pass them
+  const peopleMatching = (frame: FrameAnalysis): PersonDetection[] | null => {
+    if (!filterByPeople) return frame.people ?? [];
+    if (!frame.people) return null;
+    if (minPeople !== undefined && frame.people.length < minPeople) return null;
+    if (maxPeople !== undefined && frame.people.length > maxPeople) return null;
+    if (personId === undefined && shotSize === undefined) return frame.people;
+
+    const matching = frame.people.filter(
+      (p) =>
+        (personId === undefined || p.trackId === personId) &&
+        (shotSize === undefined || p.shotSize === shotSize)
+    );
+    return matching.length > 0 ? matching : null;
+  };
+
+  // Attribute and person filters only apply to frames; with a blank query
+  // they list the matching frames only
+  const frameFilters = attributeFilters.length > 0 || filterByPeople;
+  const framesOnly = frameFilters && !searchQuery.trim();
+
+  // Listing frames by filters has nothing to compare similarity against
+  const semantic = framesOnly ? undefined : semanticScores;
+
+  // Blended semantic score of a text, rounded like a confidence
+  const semanticScore = (similarity: number | undefined, text: string): number => {
+    const blended =
+      semanticWeight * Math.max(0, similarity ?? 0) +
+      (1 - semanticWeight) * keywordScore(caseSensitive ? text : text.toLowerCase(), searchQuery);
+    return Math.round(blended * 1000) / 1000;
+  };
+
+  logger.info(`Searching for "${query}" in ${searchType} data${semantic ? " (semantic)" : ""}...`);
 
   // Search speech transcription
-  if (speechAnalysis && (searchType === "speech" || searchType === "both")) {
+  if (speechAnalysis && !frameFilters && (searchType === "speech" || searchType === "both")) {
     // Search in full transcript segments
     for (const segment of speechAnalysis.segments) {
-      const text = caseSensitive ? segment.text : segment.text.toLowerCase();
+      if (speaker && segment.speaker !== speaker) continue;
+      if (language && segment.language !== language) continue;
 
-      if (text.includes(searchQuery)) {
+      const text = caseSensitive ? segment.text : segment.text.toLowerCase();
+      const similarity = semantic?.speech.get(segment.id);
+      const confidence = semantic
+        ? semanticScore(similarity, segment.text)
+        : text.includes(searchQuery)
+          ? 1.0
+          : 0;
+
+      if (semantic ? confidence >= minScore : confidence > 0) {
         const start = Math.max(0, segment.start - expandBy);
         const end = segment.end + expandBy;
 
@@ -101,15 +237,23 @@ export function findSegments(
           duration: end - start,
           matchType: "speech",
           matchedContent: segment.text,
-          confidence: 1.0,
+          confidence,
+          similarity,
           context: getTranscriptContext(speechAnalysis.segments, segment.id),
+          speaker: segment.speaker,
+          language: segment.language,
+          audio: metricsAt((segment.start + segment.end) / 2),
         });
       }
     }
 
-    // Also search word-by-word for more precise matches
-    if (speechAnalysis.words.length > 0) {
+    // Also search word-by-word for more precise matches (semantic matches
+    // are whole segments)
+    if (!semantic && speechAnalysis.words.length > 0) {
       for (const word of speechAnalysis.words) {
+        if (speaker && word.speaker !== speaker) continue;
+        if (language && word.language !== language) continue;
+
         const wordText = caseSensitive ? word.word : word.word.toLowerCase();
 
         if (wordText.includes(searchQuery)) {
@@ -129,6 +273,9 @@ export function findSegments(
             matchedContent: word.word,
             confidence: word.confidence,
             context: containingSegment?.text || "",
+            speaker: word.speaker,
+            language: word.language,
+            audio: metricsAt((word.start + word.end) / 2),
           });
         }
       }
@@ -137,11 +284,21 @@ export function findSegments(
     logger.info(`Found ${segments.length} speech matches`);
   }
 
-  // Search visual analysis
-  if (visualAnalysis && (searchType === "visual" || searchType === "both")) {
+  // Search visual analysis and on-screen text
+  const searchVisual = searchType === "visual" || searchType === "both";
+  const searchText = searchVisual || searchType === "text";
+
+  if (visualAnalysis && searchText) {
     const visualMatchesBefore = segments.length;
 
     for (const frame of visualAnalysis.frames) {
+      if (frame.error) continue;
+      if (!attributeFilters.every((f) => matchesAttributeFilter(frame.attributes, f))) {
+        continue;
+      }
+      const people = peopleMatching(frame);
+      if (!people) continue;
+
       const description = caseSensitive
         ? frame.description
         : frame.description.toLowerCase();
@@ -150,41 +307,116 @@ export function findSegments(
         caseSensitive ? o : o.toLowerCase()
       );
 
+      // A blank query lists frames by their attributes, not every text line
+      const textMatches =
+        framesOnly && searchType !== "text"
+          ? []
+          : (frame.text ?? []).filter((t) =>
+              (caseSensitive ? t.text : t.text.toLowerCase()).includes(searchQuery)
+            );
+
       const matchInDescription = description.includes(searchQuery);
       const matchInObjects = objects.some((o) => o.includes(searchQuery));
       const matchInScene = scene.includes(searchQuery);
+      const matchInAttributes = Object.values(frame.attributes ?? {}).some(
+        (v) =>
+          typeof v === "string" &&
+          (caseSensitive ? v : v.toLowerCase()).includes(searchQuery)
+      );
 
-      if (matchInDescription || matchInObjects || matchInScene) {
-        // Estimate segment around this frame based on fps
+      const similarity = semantic?.visual.get(frameSimilarityKey(frame.timestamp));
+      const visualConfidence = !searchVisual
+        ? 0
+        : semantic
+          ? semanticScore(similarity, frameSearchText(frame))
+          : matchInDescription || matchInObjects || matchInScene || matchInAttributes
+            ? 0.8 // Visual matches get slightly lower confidence
+            : 0;
+      const visualMatch = semantic ? visualConfidence >= minScore : visualConfidence > 0;
+
+      if (textMatches.length > 0 || visualMatch) {
+        // With shot sampling the match spans the frame's shot; otherwise
+        // estimate a segment around the frame based on fps
+        const shot =
+          frame.shotIndex !== undefined
+            ? visualAnalysis.shots?.find((s) => s.index === frame.shotIndex)
+            : undefined;
         const frameInterval = 1 / visualAnalysis.fps;
 
-        const start = Math.max(0, frame.timestamp - expandBy);
-        const end = frame.timestamp + frameInterval + expandBy;
+        const start = Math.max(0, (shot ? shot.start : frame.timestamp) - expandBy);
+        const end = (shot ? shot.end : frame.timestamp + frameInterval) + expandBy;
 
-        segments.push({
+        const frameDetails = {
           start,
           end,
           duration: end - start,
-          matchType: "visual",
-          matchedContent: frame.description,
-          confidence: 0.8, // Visual matches get slightly lower confidence
-          context: `Scene: ${frame.scene}, Objects: ${frame.objects.join(", ")}`,
-        });
+          attributes: frame.attributes,
+          thumbnailPath: frame.thumbnailPath,
+          people: people.length > 0 ? people : undefined,
+          audio: metricsAt(frame.timestamp),
+        };
+
+        // Text read off the frame is a more precise hit than its description
+        if (textMatches.length > 0) {
+          const confidences = textMatches.map((t) => t.confidence ?? 0.9);
+          segments.push({
+            ...frameDetails,
+            matchType: "text",
+            matchedContent: textMatches.map((t) => t.text).join(" / "),
+            confidence: Math.max(...confidences),
+            context: `On screen: ${frame.text!.map((t) => t.text).join(" / ")}`,
+            text: textMatches,
+          });
+        } else {
+          segments.push({
+            ...frameDetails,
+            matchType: "visual",
+            matchedContent: frame.description,
+            confidence: visualConfidence,
+            similarity,
+            context: `Scene: ${frame.scene}, Objects: ${frame.objects.join(", ")}`,
+          });
+        }
       }
     }
 
-    logger.info(`Found ${segments.length - visualMatchesBefore} visual matches`);
+    logger.info(`Found ${segments.length - visualMatchesBefore} visual and on-screen text matches`);
   }
 
   // Filter by minimum duration
   let filtered = segments.filter((s) => s.duration >= minDuration);
 
+  // Filter by audio quality; matches without metrics can't be vouched for
+  const filterByAudio =
+    cleanOnly ||
+    minWordsPerMinute !== undefined ||
+    maxWordsPerMinute !== undefined ||
+    maxNoiseFloorDb !== undefined;
+
+  if (filterByAudio) {
+    filtered = filtered.filter((s) => {
+      const audio = s.audio;
+      if (!audio) return false;
+      if (cleanOnly && !audio.clean) return false;
+      if (minWordsPerMinute !== undefined && audio.wordsPerMinute < minWordsPerMinute) return false;
+      if (maxWordsPerMinute !== undefined && audio.wordsPerMinute > maxWordsPerMinute) return false;
+      if (maxNoiseFloorDb !== undefined && audio.noiseFloorDb > maxNoiseFloorDb) return false;
+      return true;
+    });
+  }
+
   // Merge overlapping segments
   filtered = mergeOverlappingSegments(filtered);
 
-  // Sort by confidence and limit results
+  // Sort by the requested ranking (confidence breaks ties) and limit results
+  const rank = (s: FoundSegment): number => {
+    if (rankBy === "quality") return s.audio?.qualityScore ?? -Infinity;
+    if (rankBy === "loudness") return s.audio?.integratedLufs ?? -Infinity;
+    return s.confidence;
+  };
+
   const results = filtered
-    .sort((a, b) => b.confidence - a.confidence)
+    .sort((a, b) => rank(b) - rank(a) || b.confidence - a.confidence)
     .slice(0, maxResults);
 
   logger.info(`Returning ${results.length} segments after filtering and merging`);
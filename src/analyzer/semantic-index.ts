@@ -0,0 +1,178 @@
+import { createHash } from "crypto";
+import type {
+  EmbeddingProvider,
+  EmbeddingSourceType,
+  FrameAnalysis,
+  SpeechAnalysisResult,
+  VisualAnalysisResult,
+} from "../types/index.js";
+import { getEmbeddings, saveEmbeddings } from "../cache/store.js";
+import { withRetry } from "../utils/retry.js";
+import { logger } from "../utils/logger.js";
+
+const BATCH_SIZE = 64;
+
+// Similarity (-1 to 1) of the query to each indexed item: transcript segments
+// by segment id, frames by timestamp (see frameSimilarityKey)
+export interface SemanticScores {
+  speech: Map<number, number>;
+  visual: Map<number, number>;
+}
+
+interface IndexItem {
+  itemKey: string;
+  text: string;
+}
+
+export function frameSimilarityKey(timestamp: number): number {
+  return Math.round(timestamp * 1000);
+}
+
+// Everything searchable about a frame, as one passage
+export function frameSearchText(frame: FrameAnalysis): string {
+  const attributes = Object.entries(frame.attributes ?? {})
+    .filter(([, v]) => typeof v === "string")
+    .map(([k, v]) => `${k.replace(/_/g, " ")}: ${v}`);
+
+  return [
+    frame.description,
+    frame.scene,
+    frame.objects.join(", "),
+    ...attributes,
+    ...(frame.text ?? []).map((t) => t.text),
+  ]
+    .filter((part) => part && part.trim())
+    .join(". ");
+}
+
+export function cosineSimilarity(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+function textHash(text: string): string {
+  return createHash("sha256").update(text).digest("hex").slice(0, 16);
+}
+
+async function embedInBatches(
+  provider: EmbeddingProvider,
+  texts: string[]
+): Promise<number[][]> {
+  const vectors: number[][] = [];
+  for (let i = 0; i < texts.length; i += BATCH_SIZE) {
+    const batch = texts.slice(i, i + BATCH_SIZE);
+    vectors.push(
+      ...(await withRetry(() => provider.embed(batch), {
+        onRetry: (error, attempt, delayMs) =>
+          logger.warn(
+            `Embedding batch failed (attempt ${attempt}), retrying in ${Math.round(delayMs)}ms:`,
+            error instanceof Error ? error.message : error
+          ),
+      }))
+    );
+  }
+  return vectors;
+}
+
+// Vectors for the given items, embedding only those that are new or whose
+// text changed since they were cached
+async function indexItems(
+  videoPath: string,
+  provider: EmbeddingProvider,
+  sourceType: EmbeddingSourceType,
+  items: IndexItem[]
+): Promise<Map<string, ArrayLike<number>>> {
+  const providerKey = `${provider.name}:${provider.model ?? ""}`;
+  const cached = new Map(
+    getEmbeddings(videoPath, providerKey, sourceType).map((e) => [e.itemKey, e])
+  );
+
+  const vectors = new Map<string, ArrayLike<number>>();
+  const stale: Array<IndexItem & { textHash: string }> = [];
+
+  for (const item of items) {
+    const hash = textHash(item.text);
+    const entry = cached.get(item.itemKey);
+    if (entry && entry.textHash === hash) {
+      vectors.set(item.itemKey, entry.vector);
+    } else {
+      stale.push({ ...item, textHash: hash });
+    }
+  }
+
+  if (stale.length > 0) {
+    logger.info(`Embedding ${stale.length} ${sourceType} items with ${providerKey}`);
+    const embedded = await embedInBatches(provider, stale.map((item) => item.text));
+
+    saveEmbeddings(
+      videoPath,
+      providerKey,
+      sourceType,
+      stale.map((item, i) => ({
+        itemKey: item.itemKey,
+        textHash: item.textHash,
+        vector: embedded[i],
+      }))
+    );
+    stale.forEach((item, i) => vectors.set(item.itemKey, embedded[i]));
+  }
+
+  return vectors;
+}
+
+// Embed the query and score it against every transcript segment and frame
+// description, building or topping up the cached index on the way
+export async function computeSemanticScores(
+  videoPath: string,
+  speechAnalysis: SpeechAnalysisResult | null,
+  visualAnalysis: VisualAnalysisResult | null,
+  query: string,
+  provider: EmbeddingProvider
+): Promise<SemanticScores> {
+  const scores: SemanticScores = { speech: new Map(), visual: new Map() };
+  const [queryVector] = await embedInBatches(provider, [query]);
+
+  if (speechAnalysis) {
+    // Translations share segment ids with their source, so key by language
+    const segments = speechAnalysis.segments.filter((s) => s.text.trim());
+    const vectors = await indexItems(
+      videoPath,
+      provider,
+      "speech",
+      segments.map((s) => ({ itemKey: `${speechAnalysis.language}:${s.id}`, text: s.text }))
+    );
+
+    for (const segment of segments) {
+      const vector = vectors.get(`${speechAnalysis.language}:${segment.id}`);
+      if (vector) scores.speech.set(segment.id, cosineSimilarity(queryVector, vector));
+    }
+  }
+
+  if (visualAnalysis) {
+    const frames = visualAnalysis.frames.filter((f) => !f.error && frameSearchText(f));
+    const itemKey = (frame: FrameAnalysis) => String(frameSimilarityKey(frame.timestamp));
+    const vectors = await indexItems(
+      videoPath,
+      provider,
+      "visual",
+      frames.map((f) => ({ itemKey: itemKey(f), text: frameSearchText(f) }))
+    );
+
+    for (const frame of frames) {
+      const vector = vectors.get(itemKey(frame));
+      if (vector) {
+        const similarity = cosineSimilarity(queryVector, vector);
+        scores.visual.set(frameSimilarityKey(frame.timestamp), similarity);
+      }
+    }
+  }
+
+  return scores;
+}
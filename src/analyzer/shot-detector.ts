@@ -0,0 +1,173 @@
+import ffmpeg from "fluent-ffmpeg";
+import type { Shot, ShotDetectionResult } from "../types/index.js";
+import { getVideoInfo } from "../utils/video-info.js";
+import {
+  generateAnalysisId,
+  getShotAnalysis,
+  saveShotAnalysis,
+  updateAnalysisStatus,
+} from "../cache/store.js";
+import { logger } from "../utils/logger.js";
+
+export interface ShotDetectionOptions {
+  threshold?: number;
+  minShotDuration?: number;
+  forceReanalyze?: boolean;
+}
+
+export interface SceneCut {
+  time: number;
+  score: number;
+}
+
+// Run ffmpeg's scene-change scoring on a downscaled copy of the video and
+// collect the frames whose score passes the threshold. metadata=print logs
+// "pts_time:" for each selected frame followed by its lavfi.scene_score.
+function runSceneDetect(videoPath: string, threshold: number): Promise<SceneCut[]> {
+  return new Promise((resolve, reject) => {
+    const cuts: SceneCut[] = [];
+    let pendingTime: number | null = null;
+
+    ffmpeg(videoPath)
+      .noAudio()
+      .videoFilters([
+        "scale=320:-2",
+        `select='gt(scene,${threshold})'`,
+        "metadata=print",
+      ])
+      .format("null")
+      .output("-")
+      .on("stderr", (line: string) => {
+        const timeMatch = line.match(/pts_time:\s*([\d.]+)/);
+        if (timeMatch) {
+          pendingTime = parseFloat(timeMatch[1]);
+          return;
+        }
+
+        const scoreMatch = line.match(/lavfi\.scene_score=([\d.]+)/);
+        if (scoreMatch && pendingTime !== null) {
+          cuts.push({ time: pendingTime, score: parseFloat(scoreMatch[1]) });
+          pendingTime = null;
+        }
+      })
+      .on("end", () => resolve(cuts))
+      .on("error", (err) => reject(err))
+      .run();
+  });
+}
+
+// Turn cut points into shots covering [0, duration). Cuts closer than
+// minShotDuration to the previous one (flashes, fast pans) are dropped, and a
+// too-short final shot is folded into the one before it.
+export function buildShots(
+  cuts: SceneCut[],
+  duration: number,
+  minShotDuration: number
+): Shot[] {
+  const boundaries: SceneCut[] = [{ time: 0, score: 1 }];
+
+  for (const cut of [...cuts].sort((a, b) => a.time - b.time)) {
+    const previous = boundaries[boundaries.length - 1];
+    if (cut.time - previous.time >= minShotDuration && duration - cut.time >= minShotDuration) {
+      boundaries.push(cut);
+    }
+  }
+
+  return boundaries.map((boundary, index) => {
+    const end = index < boundaries.length - 1 ? boundaries[index + 1].time : duration;
+    return {
+      index,
+      start: boundary.time,
+      end,
+      duration: end - boundary.time,
+      cutScore: Math.round(boundary.score * 1000) / 1000,
+    };
+  });
+}
+
+// Representative timestamps inside a shot, evenly spaced and away from the
+// cuts so a frame never shows the transition itself
+export function representativeTimestamps(shot: Shot, framesPerShot: number): number[] {
+  const timestamps: number[] = [];
+  for (let k = 1; k <= framesPerShot; k++) {
+    timestamps.push(shot.start + (shot.duration * k) / (framesPerShot + 1));
+  }
+  return timestamps;
+}
+
+export async function detectShots(
+  videoPath: string,
+  options: ShotDetectionOptions = {}
+): Promise<ShotDetectionResult> {
+  const { threshold = 0.3, minShotDuration = 0.5, forceReanalyze = false } = options;
+
+  // Check cache first
+  if (!forceReanalyze) {
+    const cached = getShotAnalysis(videoPath, threshold, minShotDuration);
+    if (cached) {
+      logger.info("Using cached shot detection", cached.analysisId);
+      return cached;
+    }
+  }
+
+  const analysisId = generateAnalysisId();
+  const startedAt = Date.now();
+
+  updateAnalysisStatus({
+    analysisId,
+    videoPath,
+    type: "shots",
+    status: "processing",
+    progress: 0,
+    startedAt,
+  });
+
+  try {
+    const videoInfo = await getVideoInfo(videoPath);
+
+    logger.info(`Detecting shot boundaries with scene threshold ${threshold}...`);
+    const cuts = await runSceneDetect(videoPath, threshold);
+    const shots = buildShots(cuts, videoInfo.duration, minShotDuration);
+
+    const result: ShotDetectionResult = {
+      analysisId,
+      videoPath,
+      duration: videoInfo.duration,
+      threshold,
+      minShotDuration,
+      shots,
+      createdAt: Date.now(),
+    };
+
+    saveShotAnalysis(result);
+
+    updateAnalysisStatus({
+      analysisId,
+      videoPath,
+      type: "shots",
+      status: "completed",
+      progress: 100,
+      startedAt,
+      completedAt: Date.now(),
+    });
+
+    logger.info("Shot detection complete:", shots.length, "shots");
+    return result;
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logger.error("Shot detection failed:", errorMessage);
+
+    updateAnalysisStatus({
+      analysisId,
+      videoPath,
+      type: "shots",
+      status: "failed",
+      progress: 0,
+      error: errorMessage,
+      startedAt,
+      completedAt: Date.now(),
+    });
+
+    throw error;
+  }
+}
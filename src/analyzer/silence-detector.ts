@@ -0,0 +1,214 @@
+import * as path from "path";
+import * as fs from "fs";
+import * as os from "os";
+import ffmpeg from "fluent-ffmpeg";
+import type { SilenceAnalysisResult, SilenceRange } from "../types/index.js";
+import { getVideoInfo } from "../utils/video-info.js";
+import {
+  generateAnalysisId,
+  getSilenceAnalysis,
+  saveSilenceAnalysis,
+  updateAnalysisStatus,
+} from "../cache/store.js";
+import { extractAudio } from "./whisper.js";
+import { logger } from "../utils/logger.js";
+
+export interface SilenceDetectionOptions {
+  thresholdDb?: number;
+  minDuration?: number;
+  forceReanalyze?: boolean;
+}
+
+export interface KeepRangeOptions {
+  padding?: number;
+  minKeepDuration?: number;
+}
+
+// Run ffmpeg's silencedetect filter and collect the reported ranges from stderr
+function runSilenceDetect(
+  audioPath: string,
+  thresholdDb: number,
+  minDuration: number,
+  duration: number
+): Promise<SilenceRange[]> {
+  return new Promise((resolve, reject) => {
+    const silences: SilenceRange[] = [];
+    let openStart: number | null = null;
+
+    ffmpeg(audioPath)
+      .audioFilters(`silencedetect=noise=${thresholdDb}dB:d=${minDuration}`)
+      .format("null")
+      .output("-")
+      .on("stderr", (line: string) => {
+        const startMatch = line.match(/silence_start:\s*(-?[\d.]+)/);
+        if (startMatch) {
+          openStart = Math.max(0, parseFloat(startMatch[1]));
+          return;
+        }
+
+        const endMatch = line.match(/silence_end:\s*([\d.]+)/);
+        if (endMatch && openStart !== null) {
+          const end = parseFloat(endMatch[1]);
+          silences.push({ start: openStart, end, duration: end - openStart });
+          openStart = null;
+        }
+      })
+      .on("end", () => {
+        // Silence running to the end of the file has no silence_end line
+        if (openStart !== null && duration > openStart) {
+          silences.push({
+            start: openStart,
+            end: duration,
+            duration: duration - openStart,
+          });
+        }
+        resolve(silences);
+      })
+      .on("error", (err) => reject(err))
+      .run();
+  });
+}
+
+// Invert silence ranges into the ranges worth keeping. Padding keeps a little
+// room around speech so cuts don't clip breaths and word onsets.
+export function computeKeepRanges(
+  silences: SilenceRange[],
+  duration: number,
+  options: KeepRangeOptions = {}
+): SilenceRange[] {
+  const { padding = 0.1, minKeepDuration = 0.5 } = options;
+
+  const keep: SilenceRange[] = [];
+  let cursor = 0;
+
+  const sorted = [...silences].sort((a, b) => a.start - b.start);
+
+  for (const silence of sorted) {
+    const end = Math.min(duration, silence.start + padding);
+    const resume = silence.end - padding;
+    // Nothing is left to cut once a short silence is padded on both sides;
+    // cutting anyway would make this keep range overlap the next one
+    if (resume <= end) continue;
+
+    if (end > cursor) {
+      keep.push({ start: cursor, end, duration: end - cursor });
+    }
+    cursor = Math.max(cursor, resume);
+  }
+
+  if (cursor < duration) {
+    keep.push({ start: cursor, end: duration, duration: duration - cursor });
+  }
+
+  return keep.filter((range) => range.duration >= minKeepDuration);
+}
+
+export async function detectSilence(
+  videoPath: string,
+  options: SilenceDetectionOptions = {}
+): Promise<SilenceAnalysisResult> {
+  const { thresholdDb = -35, minDuration = 0.5, forceReanalyze = false } = options;
+
+  // Check cache first
+  if (!forceReanalyze) {
+    const cached = getSilenceAnalysis(videoPath, thresholdDb, minDuration);
+    if (cached) {
+      logger.info("Using cached silence analysis", cached.analysisId);
+      return cached;
+    }
+  }
+
+  const analysisId = generateAnalysisId();
+  const startedAt = Date.now();
+
+  updateAnalysisStatus({
+    analysisId,
+    videoPath,
+    type: "silence",
+    status: "processing",
+    progress: 0,
+    startedAt,
+  });
+
+  let tempDir = "";
+
+  try {
+    const videoInfo = await getVideoInfo(videoPath);
+
+    tempDir = await fs.promises.mkdtemp(
+      path.join(os.tmpdir(), "premiere-mcp-audio-")
+    );
+    const audioPath = path.join(tempDir, "audio.wav");
+
+    logger.info("Extracting audio for silence detection...");
+    await extractAudio(videoPath, audioPath);
+
+    updateAnalysisStatus({
+      analysisId,
+      videoPath,
+      type: "silence",
+      status: "processing",
+      progress: 50,
+      startedAt,
+    });
+
+    logger.info(
+      `Detecting silence below ${thresholdDb} dB lasting at least ${minDuration}s...`
+    );
+    const silences = await runSilenceDetect(
+      audioPath,
+      thresholdDb,
+      minDuration,
+      videoInfo.duration
+    );
+
+    const result: SilenceAnalysisResult = {
+      analysisId,
+      videoPath,
+      duration: videoInfo.duration,
+      thresholdDb,
+      minDuration,
+      silences,
+      createdAt: Date.now(),
+    };
+
+    saveSilenceAnalysis(result);
+
+    updateAnalysisStatus({
+      analysisId,
+      videoPath,
+      type: "silence",
+      status: "completed",
+      progress: 100,
+      startedAt,
+      completedAt: Date.now(),
+    });
+
+    logger.info("Silence detection complete:", silences.length, "ranges");
+    return result;
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logger.error("Silence detection failed:", errorMessage);
+
+    updateAnalysisStatus({
+      analysisId,
+      videoPath,
+      type: "silence",
+      status: "failed",
+      progress: 0,
+      error: errorMessage,
+      startedAt,
+      completedAt: Date.now(),
+    });
+
+    throw error;
+  } finally {
+    if (tempDir) {
+      try {
+        await fs.promises.rm(tempDir, { recursive: true });
+      } catch {
+        logger.warn("Failed to cleanup temp directory", tempDir);
+      }
+    }
+  }
+}
@@ -0,0 +1,197 @@
+import type {
+  SpeechAnalysisResult,
+  TranscriptEdit,
+  TranscriptSegment,
+  WordTimestamp,
+} from "../types/index.js";
+
+export interface TranscriptEditResult {
+  segments: TranscriptSegment[];
+  words: WordTimestamp[];
+  // Word-level corrections from replace_text edits, usable as glossary entries
+  corrections: Array<{ from: string; to: string }>;
+}
+
+// A word belongs to the segment that contains its midpoint
+function inSegment(word: WordTimestamp, segment: TranscriptSegment): boolean {
+  const midpoint = (word.start + word.end) / 2;
+  return midpoint >= segment.start && midpoint <= segment.end;
+}
+
+function normalizeToken(text: string): string {
+  return text.toLowerCase().replace(/[^\p{L}\p{N}'-]/gu, "");
+}
+
+// Spread a segment's time span over new text, proportionally to word length
+function distributeWords(
+  text: string,
+  segment: TranscriptSegment
+): WordTimestamp[] {
+  const tokens = text.split(/\s+/).filter(Boolean);
+  const totalChars = tokens.reduce((sum, t) => sum + t.length, 0) || 1;
+  const duration = segment.end - segment.start;
+
+  let cursor = segment.start;
+  return tokens.map((token) => {
+    const length = (duration * token.length) / totalChars;
+    const word: WordTimestamp = {
+      word: token,
+      start: cursor,
+      end: cursor + length,
+      confidence: 1,
+      speaker: segment.speaker,
+      language: segment.language,
+    };
+    cursor += length;
+    return word;
+  });
+}
+
+function findSegment(
+  segments: TranscriptSegment[],
+  segmentId: number
+): number {
+  const index = segments.findIndex((s) => s.id === segmentId);
+  if (index === -1) {
+    throw new Error(`Segment ${segmentId} not found`);
+  }
+  return index;
+}
+
+// Apply edits in order. Segment ids are renumbered after every split or merge,
+// so ids in later edits refer to the transcript as left by the earlier ones.
+export function applyTranscriptEdits(
+  speech: SpeechAnalysisResult,
+  edits: TranscriptEdit[]
+): TranscriptEditResult {
+  let segments = speech.segments.map((s) => ({ ...s }));
+  let words = speech.words.map((w) => ({ ...w }));
+  const corrections: Array<{ from: string; to: string }> = [];
+
+  const renumber = () => {
+    segments = segments
+      .sort((a, b) => a.start - b.start)
+      .map((s, id) => ({ ...s, id }));
+  };
+
+  for (const edit of edits) {
+    switch (edit.type) {
+      case "replace_text": {
+        const index = findSegment(segments, edit.segmentId);
+        const segment = segments[index];
+        const oldWords = words.filter((w) => inSegment(w, segment));
+        const newTokens = edit.text.split(/\s+/).filter(Boolean);
+
+        let newWords: WordTimestamp[];
+        if (oldWords.length === newTokens.length) {
+          // Same word count: keep the recognized timings
+          newWords = oldWords.map((w, i) => {
+            if (normalizeToken(w.word) !== normalizeToken(newTokens[i])) {
+              corrections.push({ from: w.word, to: newTokens[i] });
+            }
+            return { ...w, word: newTokens[i], confidence: 1 };
+          });
+        } else {
+          newWords = distributeWords(edit.text, segment);
+        }
+
+        segments[index] = { ...segment, text: edit.text.trim() };
+        words = [...words.filter((w) => !inSegment(w, segment)), ...newWords].sort(
+          (a, b) => a.start - b.start
+        );
+        break;
+      }
+
+      case "split": {
+        const index = findSegment(segments, edit.segmentId);
+        const segment = segments[index];
+        if (edit.at <= segment.start || edit.at >= segment.end) {
+          throw new Error(
+            `Split point ${edit.at}s is outside segment ${segment.id} (${segment.start}s - ${segment.end}s)`
+          );
+        }
+
+        const segmentWords = words.filter((w) => inSegment(w, segment));
+        const before = segmentWords.filter((w) => (w.start + w.end) / 2 < edit.at);
+        const after = segmentWords.filter((w) => (w.start + w.end) / 2 >= edit.at);
+
+        let firstText: string;
+        let secondText: string;
+        if (segmentWords.length > 0) {
+          firstText = before.map((w) => w.word).join(" ");
+          secondText = after.map((w) => w.word).join(" ");
+        } else {
+          // No word timings: split the text at the proportional position
+          const tokens = segment.text.split(/\s+/).filter(Boolean);
+          const cut = Math.round(
+            (tokens.length * (edit.at - segment.start)) / (segment.end - segment.start)
+          );
+          firstText = tokens.slice(0, cut).join(" ");
+          secondText = tokens.slice(cut).join(" ");
+        }
+
+        segments.splice(
+          index,
+          1,
+          { ...segment, end: edit.at, text: firstText },
+          { ...segment, start: edit.at, text: secondText }
+        );
+        renumber();
+        break;
+      }
+
+      case "merge": {
+        const index = findSegment(segments, edit.segmentId);
+        const next = segments[index + 1];
+        if (!next) {
+          throw new Error(`Segment ${edit.segmentId} has no following segment to merge with`);
+        }
+
+        const segment = segments[index];
+        segments.splice(index, 2, {
+          ...segment,
+          end: next.end,
+          text: `${segment.text} ${next.text}`.trim(),
+        });
+        renumber();
+        break;
+      }
+
+      case "nudge_word": {
+        if (words.length === 0) {
+          throw new Error("Transcript has no word timings to nudge");
+        }
+
+        // The word containing the given time, or the nearest one
+        const distanceTo = (w: WordTimestamp) =>
+          edit.at < w.start ? w.start - edit.at : edit.at > w.end ? edit.at - w.end : 0;
+        const index = words.reduce(
+          (best, w, i) => (distanceTo(w) < distanceTo(words[best]) ? i : best),
+          0
+        );
+
+        const word = words[index];
+        const previousEnd = index > 0 ? words[index - 1].end : 0;
+        const nextStart = index < words.length - 1 ? words[index + 1].start : Infinity;
+
+        const start = Math.max(previousEnd, word.start + (edit.startDelta ?? 0));
+        const end = Math.min(nextStart, word.end + (edit.endDelta ?? 0));
+        if (end <= start) {
+          throw new Error(`Nudging "${word.word}" would leave it with no duration`);
+        }
+
+        words[index] = { ...word, start, end };
+
+        // Keep the containing segment wrapped around the word
+        const segment = segments.find((s) => inSegment(word, s));
+        if (segment) {
+          segment.start = Math.min(segment.start, start);
+          segment.end = Math.max(segment.end, end);
+        }
+        break;
+      }
+    }
+  }
+
+  return { segments, words, corrections };
+}
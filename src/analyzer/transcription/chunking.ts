@@ -0,0 +1,62 @@
+import type {
+  BackendTranscript,
+  TranscriptionChunk,
+} from "../../types/index.js";
+
+export interface ChunkPlan {
+  index: number;
+  start: number;
+  end: number;
+}
+
+// Split [0, duration) into chunks of chunkDuration seconds, each overlapping
+// the next by `overlap` seconds so no word is cut in half at a boundary
+export function planChunks(
+  duration: number,
+  chunkDuration: number,
+  overlap: number
+): ChunkPlan[] {
+  if (duration <= chunkDuration) {
+    return [{ index: 0, start: 0, end: duration }];
+  }
+
+  const step = Math.max(1, chunkDuration - overlap);
+  const chunks: ChunkPlan[] = [];
+
+  for (let start = 0; start < duration; start += step) {
+    const end = Math.min(duration, start + chunkDuration);
+    chunks.push({ index: chunks.length, start, end });
+    if (end >= duration) break;
+  }
+
+  return chunks;
+}
+
+// Stitch chunk transcripts (already shifted to absolute time) together. Within
+// each overlap, the earlier chunk owns everything before the overlap's midpoint
+// and the later chunk everything after it, so each utterance is kept once.
+export function mergeChunks(chunks: TranscriptionChunk[]): BackendTranscript {
+  const sorted = [...chunks].sort((a, b) => a.index - b.index);
+  const merged: BackendTranscript = { segments: [], words: [] };
+
+  sorted.forEach((chunk, i) => {
+    const previous = sorted[i - 1];
+    const next = sorted[i + 1];
+    const from = previous ? (chunk.start + previous.end) / 2 : -Infinity;
+    const to = next ? (next.start + chunk.end) / 2 : Infinity;
+
+    const owns = (start: number, end: number) => {
+      const midpoint = (start + end) / 2;
+      return midpoint >= from && midpoint < to;
+    };
+
+    for (const segment of chunk.segments) {
+      if (owns(segment.start, segment.end)) {
+        merged.segments.push({ ...segment, id: merged.segments.length });
+      }
+    }
+    merged.words.push(...chunk.words.filter((w) => owns(w.start, w.end)));
+  });
+
+  return merged;
+}
@@ -0,0 +1,45 @@
+import { execFile } from "child_process";
+import { promisify } from "util";
+import * as fs from "fs";
+import * as path from "path";
+import type { TranscriptionBackend } from "../../types/index.js";
+import { parseVerboseJson, type VerboseJsonOutput } from "./verbose-json.js";
+import { logger } from "../../utils/logger.js";
+
+const execFileAsync = promisify(execFile);
+
+// faster-whisper through its openai-whisper compatible CLI (whisper-ctranslate2
+// by default), run as a local subprocess
+export function createFasterWhisperBackend(
+  command: string = process.env.FASTER_WHISPER_COMMAND || "whisper-ctranslate2"
+): TranscriptionBackend {
+  return {
+    name: "faster-whisper",
+
+    async transcribe(audioPath, { modelSize, language, prompt }) {
+      const outputDir = path.dirname(audioPath);
+      const args = [
+        audioPath,
+        "--model", modelSize,
+        "--output_format", "json",
+        "--output_dir", outputDir,
+        "--word_timestamps", "True",
+      ];
+      if (language) args.push("--language", language);
+      if (prompt) args.push("--initial_prompt", prompt);
+
+      logger.info("Running faster-whisper:", command);
+      await execFileAsync(command, args, { maxBuffer: 64 * 1024 * 1024 });
+
+      const jsonPath = path.join(
+        outputDir,
+        `${path.parse(audioPath).name}.json`
+      );
+      const output = JSON.parse(
+        await fs.promises.readFile(jsonPath, "utf-8")
+      ) as VerboseJsonOutput;
+
+      return parseVerboseJson(output);
+    },
+  };
+}
@@ -0,0 +1,86 @@
+import * as fs from "fs";
+import * as path from "path";
+import type { TranscriptionBackend } from "../../types/index.js";
+import { parseVerboseJson, type VerboseJsonOutput } from "./verbose-json.js";
+import { logger } from "../../utils/logger.js";
+
+async function postAudio(
+  url: string,
+  audioPath: string,
+  fields: Record<string, string | string[]>
+): Promise<VerboseJsonOutput> {
+  const audio = await fs.promises.readFile(audioPath);
+
+  const form = new FormData();
+  form.append("file", new Blob([audio], { type: "audio/wav" }), path.basename(audioPath));
+  for (const [key, value] of Object.entries(fields)) {
+    for (const v of Array.isArray(value) ? value : [value]) {
+      form.append(key, v);
+    }
+  }
+
+  const response = await fetch(url, { method: "POST", body: form });
+  if (!response.ok) {
+    throw new Error(
+      `Transcription server returned ${response.status}: ${await response.text()}`
+    );
+  }
+
+  return (await response.json()) as VerboseJsonOutput;
+}
+
+// whisper.cpp's bundled HTTP server ("whisper-server -m model.bin"). The model
+// is fixed when the server starts, so modelSize is ignored.
+export function createWhisperServerBackend(
+  baseUrl: string = process.env.WHISPER_SERVER_URL || "http://127.0.0.1:8080"
+): TranscriptionBackend {
+  return {
+    name: "whisper-cpp-server",
+
+    async transcribe(audioPath, { language, prompt }) {
+      logger.info("Sending audio to whisper.cpp server at", baseUrl);
+
+      const fields: Record<string, string> = {
+        response_format: "verbose_json",
+        language: language || "auto",
+        temperature: "0",
+      };
+      if (prompt) fields.prompt = prompt;
+
+      const output = await postAudio(`${baseUrl}/inference`, audioPath, fields);
+
+      return parseVerboseJson(output);
+    },
+  };
+}
+
+// Any local server implementing the OpenAI /v1/audio/transcriptions API
+// (faster-whisper-server, LocalAI, ...)
+export function createOpenAICompatibleBackend(
+  baseUrl: string = process.env.TRANSCRIPTION_HTTP_URL || "http://127.0.0.1:8000",
+  model: string | undefined = process.env.TRANSCRIPTION_HTTP_MODEL
+): TranscriptionBackend {
+  return {
+    name: "http",
+
+    async transcribe(audioPath, { modelSize, language, prompt }) {
+      logger.info("Sending audio to transcription server at", baseUrl);
+
+      const fields: Record<string, string | string[]> = {
+        model: model || modelSize,
+        response_format: "verbose_json",
+        "timestamp_granularities[]": ["segment", "word"],
+      };
+      if (language) fields.language = language;
+      if (prompt) fields.prompt = prompt;
+
+      const output = await postAudio(
+        `${baseUrl}/v1/audio/transcriptions`,
+        audioPath,
+        fields
+      );
+
+      return parseVerboseJson(output);
+    },
+  };
+}
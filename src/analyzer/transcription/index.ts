@@ -0,0 +1,22 @@
+import type { TranscriptionBackend } from "../../types/index.js";
+import { createRegistry } from "../../utils/registry.js";
+import { nodejsWhisperBackend } from "./nodejs-whisper.js";
+import {
+  createWhisperServerBackend,
+  createOpenAICompatibleBackend,
+} from "./http-backends.js";
+import { createFasterWhisperBackend } from "./faster-whisper.js";
+
+export const DEFAULT_TRANSCRIPTION_BACKEND =
+  process.env.TRANSCRIPTION_BACKEND || "nodejs-whisper";
+
+export const transcriptionBackends = createRegistry<TranscriptionBackend>({
+  kind: "transcription backend",
+  defaultName: DEFAULT_TRANSCRIPTION_BACKEND,
+  entries: [
+    nodejsWhisperBackend,
+    createWhisperServerBackend(),
+    createFasterWhisperBackend(),
+    createOpenAICompatibleBackend(),
+  ],
+});
@@ -0,0 +1,52 @@
+import { nodewhisper } from "nodejs-whisper";
+import * as fs from "fs";
+import type { TranscriptionBackend } from "../../types/index.js";
+import {
+  parseWhisperJson,
+  parseWhisperStdout,
+  type WhisperJsonOutput,
+} from "./whisper-cpp-output.js";
+import { logger } from "../../utils/logger.js";
+
+// Default backend: whisper.cpp built and driven by the nodejs-whisper package
+export const nodejsWhisperBackend: TranscriptionBackend = {
+  name: "nodejs-whisper",
+
+  async transcribe(audioPath, { modelSize, language, prompt }) {
+    if (prompt) {
+      // nodejs-whisper doesn't expose whisper.cpp's --prompt flag
+      logger.warn(
+        "nodejs-whisper backend ignores the initial prompt; glossary replacements still apply"
+      );
+    }
+
+    // Full JSON output makes whisper.cpp emit per-token offsets and
+    // probabilities, which is where the word timings come from
+    const whisperOutput = await nodewhisper(audioPath, {
+      modelName: modelSize,
+      autoDownloadModelName: modelSize,
+      removeWavFileAfterTranscription: false,
+      withCuda: false,
+      whisperOptions: {
+        language: language || undefined,
+        outputInJsonFull: true,
+        outputInVtt: false,
+        outputInSrt: false,
+        outputInCsv: false,
+      },
+    });
+
+    // Prefer the JSON file written next to the audio
+    const jsonPath = `${audioPath}.json`;
+
+    if (fs.existsSync(jsonPath)) {
+      const json = JSON.parse(
+        await fs.promises.readFile(jsonPath, "utf-8")
+      ) as WhisperJsonOutput;
+      return parseWhisperJson(json);
+    }
+
+    logger.warn("Whisper JSON output not found, falling back to stdout parsing");
+    return { segments: parseWhisperStdout(whisperOutput), words: [] };
+  },
+};
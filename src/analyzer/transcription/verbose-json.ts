@@ -0,0 +1,70 @@
+import type {
+  BackendTranscript,
+  TranscriptSegment,
+  WordTimestamp,
+} from "../../types/index.js";
+import { normalizeLanguageCode } from "../../utils/language.js";
+
+// The "verbose_json" shape shared by OpenAI-compatible transcription servers,
+// whisper.cpp's server and the openai-whisper / faster-whisper JSON writers
+export interface VerboseJsonWord {
+  word: string;
+  start: number;
+  end: number;
+  probability?: number;
+}
+
+export interface VerboseJsonSegment {
+  start: number;
+  end: number;
+  text: string;
+  words?: VerboseJsonWord[];
+}
+
+export interface VerboseJsonOutput {
+  language?: string;
+  language_probability?: number;
+  detected_language_probability?: number;
+  segments?: VerboseJsonSegment[];
+  words?: VerboseJsonWord[];
+}
+
+function toWord(word: VerboseJsonWord): WordTimestamp {
+  return {
+    word: word.word.trim(),
+    start: word.start,
+    end: word.end,
+    confidence: word.probability ?? 1,
+  };
+}
+
+export function parseVerboseJson(output: VerboseJsonOutput): BackendTranscript {
+  const segments: TranscriptSegment[] = [];
+  const words: WordTimestamp[] = [];
+
+  (output.segments ?? []).forEach((seg, index) => {
+    segments.push({
+      id: index,
+      start: seg.start,
+      end: seg.end,
+      text: seg.text.trim(),
+    });
+
+    if (seg.words) {
+      words.push(...seg.words.map(toWord));
+    }
+  });
+
+  // Some servers return words at the top level instead of per segment
+  if (words.length === 0 && output.words) {
+    words.push(...output.words.map(toWord));
+  }
+
+  return {
+    segments,
+    words: words.filter((w) => w.word.length > 0),
+    language: normalizeLanguageCode(output.language),
+    languageProbability:
+      output.language_probability ?? output.detected_language_probability,
+  };
+}
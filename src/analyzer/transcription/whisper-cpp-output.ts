@@ -0,0 +1,117 @@
+import type {
+  BackendTranscript,
+  TranscriptSegment,
+  WordTimestamp,
+} from "../../types/index.js";
+import { normalizeLanguageCode } from "../../utils/language.js";
+
+// Subset of the whisper.cpp "--output-json-full" format that we rely on
+export interface WhisperJsonToken {
+  text: string;
+  offsets: { from: number; to: number };
+  p: number;
+}
+
+export interface WhisperJsonSegment {
+  offsets: { from: number; to: number };
+  text: string;
+  tokens?: WhisperJsonToken[];
+}
+
+export interface WhisperJsonOutput {
+  result?: { language?: string };
+  transcription: WhisperJsonSegment[];
+}
+
+// Special tokens such as [_BEG_] or [_TT_150] carry no speech
+function isSpecialToken(text: string): boolean {
+  return /^\[_[A-Z0-9_]+\]$/.test(text.trim());
+}
+
+// Whisper emits sub-word tokens; a token starting with a space begins a new
+// word, everything else is glued onto the previous one. Word confidence is the
+// mean token probability.
+function tokensToWords(tokens: WhisperJsonToken[]): WordTimestamp[] {
+  const words: WordTimestamp[] = [];
+  let current: { text: string; start: number; end: number; probs: number[] } | null = null;
+
+  const flush = () => {
+    if (!current) return;
+    const word = current.text.trim();
+    if (word) {
+      words.push({
+        word,
+        start: current.start,
+        end: current.end,
+        confidence:
+          current.probs.reduce((sum, p) => sum + p, 0) / current.probs.length,
+      });
+    }
+    current = null;
+  };
+
+  for (const token of tokens) {
+    if (isSpecialToken(token.text)) continue;
+
+    const start = token.offsets.from / 1000;
+    const end = token.offsets.to / 1000;
+
+    if (!current || token.text.startsWith(" ")) {
+      flush();
+      current = { text: token.text, start, end, probs: [token.p] };
+    } else {
+      current.text += token.text;
+      current.end = Math.max(current.end, end);
+      current.probs.push(token.p);
+    }
+  }
+  flush();
+
+  return words;
+}
+
+export function parseWhisperJson(output: WhisperJsonOutput): BackendTranscript {
+  const segments: TranscriptSegment[] = [];
+  const words: WordTimestamp[] = [];
+
+  output.transcription.forEach((seg, index) => {
+    segments.push({
+      id: index,
+      start: seg.offsets.from / 1000,
+      end: seg.offsets.to / 1000,
+      text: seg.text.trim(),
+    });
+
+    if (seg.tokens) {
+      words.push(...tokensToWords(seg.tokens));
+    }
+  });
+
+  return {
+    segments,
+    words,
+    language: normalizeLanguageCode(output.result?.language),
+  };
+}
+
+// Fallback for plain stdout lines like "[00:00:01.000 --> 00:00:03.500]  Hello"
+export function parseWhisperStdout(stdout: string): TranscriptSegment[] {
+  const segments: TranscriptSegment[] = [];
+  const linePattern =
+    /^\[(\d+):(\d+):(\d+\.\d+)\s*-->\s*(\d+):(\d+):(\d+\.\d+)\]\s*(.*)$/;
+
+  for (const line of stdout.split("\n")) {
+    const match = line.trim().match(linePattern);
+    if (!match) continue;
+
+    const [, h1, m1, s1, h2, m2, s2, text] = match;
+    segments.push({
+      id: segments.length,
+      start: Number(h1) * 3600 + Number(m1) * 60 + Number(s1),
+      end: Number(h2) * 3600 + Number(m2) * 60 + Number(s2),
+      text: text.trim(),
+    });
+  }
+
+  return segments;
+}
@@ -0,0 +1,59 @@
+import Anthropic from "@anthropic-ai/sdk";
+import type { TranslationProvider } from "../../types/index.js";
+
+// Translates with Claude, sending a numbered JSON array so the reply can be
+// matched back to the segments one to one
+export function createClaudeTranslationProvider(
+  model: string = process.env.TRANSLATION_MODEL || "claude-sonnet-4-20250514"
+): TranslationProvider {
+  let client: Anthropic | null = null;
+
+  return {
+    name: "claude",
+
+    async translate(texts, { sourceLanguage, targetLanguage }) {
+      // Created on first use so the server starts without an API key
+      client ??= new Anthropic();
+
+      const source =
+        sourceLanguage === "auto" || sourceLanguage === "unknown"
+          ? "the source language"
+          : `"${sourceLanguage}"`;
+
+      const response = await client.messages.create({
+        model,
+        max_tokens: 8000,
+        messages: [
+          {
+            role: "user",
+            content: `Translate each subtitle line from ${source} to "${targetLanguage}". Keep the meaning and tone, keep names and product codes unchanged, and keep each line about as long as the original so it fits the same on-screen time.
+
+Respond with only a JSON array of ${texts.length} strings, one translation per input line, in the same order.
+
+${JSON.stringify(texts)}`,
+          },
+        ],
+      });
+
+      const content = response.content[0];
+      if (content.type !== "text") {
+        throw new Error("Unexpected response type from Claude");
+      }
+
+      // Extract the JSON array (handle potential markdown code blocks)
+      const match = content.text.match(/\[[\s\S]*\]/);
+      if (!match) {
+        throw new Error("Claude did not return a JSON array of translations");
+      }
+
+      const translations = JSON.parse(match[0]) as unknown[];
+      if (translations.length !== texts.length) {
+        throw new Error(
+          `Expected ${texts.length} translations, got ${translations.length}`
+        );
+      }
+
+      return translations.map(String);
+    },
+  };
+}
@@ -0,0 +1,18 @@
+import type { TranslationProvider } from "../../types/index.js";
+import { createRegistry } from "../../utils/registry.js";
+import { localTranslationProvider } from "./local.js";
+import { createClaudeTranslationProvider } from "./claude.js";
+import { createLibreTranslateProvider } from "./libretranslate.js";
+
+export const DEFAULT_TRANSLATION_PROVIDER =
+  process.env.TRANSLATION_PROVIDER || "claude";
+
+export const translationProviders = createRegistry<TranslationProvider>({
+  kind: "translation provider",
+  defaultName: DEFAULT_TRANSLATION_PROVIDER,
+  entries: [
+    createClaudeTranslationProvider(),
+    createLibreTranslateProvider(),
+    localTranslationProvider,
+  ],
+});
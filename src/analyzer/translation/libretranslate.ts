@@ -0,0 +1,40 @@
+import type { TranslationProvider } from "../../types/index.js";
+import { logger } from "../../utils/logger.js";
+
+// A self-hosted LibreTranslate server ("libretranslate --host 127.0.0.1"),
+// for fully offline translation
+export function createLibreTranslateProvider(
+  baseUrl: string = process.env.LIBRETRANSLATE_URL || "http://127.0.0.1:5000",
+  apiKey: string | undefined = process.env.LIBRETRANSLATE_API_KEY
+): TranslationProvider {
+  return {
+    name: "libretranslate",
+
+    async translate(texts, { sourceLanguage, targetLanguage }) {
+      logger.info("Sending text to LibreTranslate at", baseUrl);
+
+      const response = await fetch(`${baseUrl}/translate`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          q: texts,
+          source:
+            sourceLanguage === "unknown" || !sourceLanguage ? "auto" : sourceLanguage,
+          target: targetLanguage,
+          format: "text",
+          ...(apiKey ? { api_key: apiKey } : {}),
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(
+          `LibreTranslate returned ${response.status}: ${await response.text()}`
+        );
+      }
+
+      // An array of inputs yields { translatedText: string[] }
+      const output = (await response.json()) as { translatedText: string[] };
+      return output.translatedText;
+    },
+  };
+}
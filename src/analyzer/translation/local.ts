@@ -0,0 +1,11 @@
+import type { TranslationProvider } from "../../types/index.js";
+
+// Deterministic stand-in that only tags each text with the target language.
+// Useful offline and in tests, where the output must not depend on a model.
+export const localTranslationProvider: TranslationProvider = {
+  name: "local",
+
+  async translate(texts, { targetLanguage }) {
+    return texts.map((text) => `[${targetLanguage}] ${text}`);
+  },
+};
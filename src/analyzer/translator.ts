@@ -0,0 +1,120 @@
+import type {
+  SpeechAnalysisResult,
+  TranscriptSegment,
+  TranslationProvider,
+} from "../types/index.js";
+import {
+  generateAnalysisId,
+  getSpeechAnalysis,
+  saveSpeechAnalysis,
+} from "../cache/store.js";
+import { translationProviders } from "./translation/index.js";
+import { normalizeLanguageCode } from "../utils/language.js";
+import { logger } from "../utils/logger.js";
+
+export interface TranslateTranscriptOptions {
+  provider?: string | TranslationProvider;
+  batchSize?: number;
+  forceRetranslate?: boolean;
+}
+
+// Translate the current transcript into another language. Segment timings and
+// speakers are kept; word timings can't survive translation, so captions of
+// the variant are re-flowed from segment timings instead.
+export async function translateTranscript(
+  videoPath: string,
+  targetLanguage: string,
+  options: TranslateTranscriptOptions = {}
+): Promise<SpeechAnalysisResult> {
+  const { batchSize = 40, forceRetranslate = false } = options;
+
+  const target = normalizeLanguageCode(targetLanguage);
+  if (!target) {
+    throw new Error(`Invalid target language "${targetLanguage}"`);
+  }
+
+  const provider =
+    typeof options.provider === "object"
+      ? options.provider
+      : translationProviders.get(options.provider);
+
+  const source = getSpeechAnalysis(videoPath);
+  if (!source) {
+    throw new Error(
+      "No speech analysis found for this video. Please run analyze_video_speech first."
+    );
+  }
+
+  // Reuse a translation of the current transcript revision by the same provider
+  if (!forceRetranslate) {
+    const cached = getSpeechAnalysis(videoPath, target);
+    if (
+      cached &&
+      cached.translatedFrom === source.analysisId &&
+      cached.translationProvider === provider.name
+    ) {
+      logger.info("Using cached translation", cached.analysisId);
+      return cached;
+    }
+  }
+
+  // Translate per source language so mixed-language media is handled;
+  // segments already in the target language are kept as they are
+  const groups = new Map<string, TranscriptSegment[]>();
+  for (const segment of source.segments) {
+    const language = segment.language ?? source.language;
+    if (language === target || !segment.text.trim()) continue;
+    groups.set(language, [...(groups.get(language) ?? []), segment]);
+  }
+
+  if (groups.size === 0 && source.language === target) {
+    throw new Error(`The transcript is already in "${target}"`);
+  }
+
+  const translated = new Map<number, string>();
+
+  for (const [language, segments] of groups) {
+    for (let i = 0; i < segments.length; i += batchSize) {
+      const batch = segments.slice(i, i + batchSize);
+      logger.info(
+        `Translating segments ${i + 1}-${i + batch.length} of ${segments.length} from ${language} to ${target} with ${provider.name}...`
+      );
+
+      const texts = await provider.translate(
+        batch.map((s) => s.text),
+        { sourceLanguage: language, targetLanguage: target }
+      );
+      if (texts.length !== batch.length) {
+        throw new Error(
+          `Translation provider ${provider.name} returned ${texts.length} texts for ${batch.length} segments`
+        );
+      }
+
+      batch.forEach((segment, k) => translated.set(segment.id, texts[k].trim()));
+    }
+  }
+
+  const result: SpeechAnalysisResult = {
+    analysisId: generateAnalysisId(),
+    videoPath,
+    duration: source.duration,
+    language: target,
+    languages: [target],
+    segments: source.segments.map((segment) => ({
+      ...segment,
+      text: translated.get(segment.id) ?? segment.text,
+      language: target,
+    })),
+    words: [],
+    speakers: source.speakers,
+    glossaryVersion: source.glossaryVersion,
+    translatedFrom: source.analysisId,
+    translationProvider: provider.name,
+    createdAt: Date.now(),
+  };
+
+  saveSpeechAnalysis(result);
+  logger.info(`Saved ${target} translation`, result.analysisId);
+
+  return result;
+}
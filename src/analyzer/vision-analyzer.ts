@@ -1,29 +1,88 @@
-import Anthropic from "@anthropic-ai/sdk";
-import * as fs from "fs";
-import type { FrameAnalysis, VisualAnalysisResult } from "../types/index.js";
+import { createHash } from "crypto";
+import type {
+  FrameAnalysis,
+  FrameSampling,
+  OcrProvider,
+  PersonDetector,
+  Shot,
+  VisionProvider,
+  VisionRequestOptions,
+  VisualAnalysisResult,
+} from "../types/index.js";
 import { getVideoInfo } from "../utils/video-info.js";
 import {
   extractVideoFrames,
   cleanupFrames,
   type ExtractedFrame,
 } from "./frame-extractor.js";
+import { detectShots, representativeTimestamps } from "./shot-detector.js";
+import { groupDuplicateFrames, perceptualHash } from "./perceptual-hash.js";
+import { measureFrameQuality } from "./frame-quality.js";
+import { visionProviders } from "./vision/index.js";
+import { DEFAULT_OCR_PROVIDER, ocrProviders } from "./ocr/index.js";
+import { createVisionOcrProvider } from "./ocr/vision.js";
+import { DEFAULT_PERSON_DETECTOR, personDetectors } from "./people/index.js";
+import { createVisionPersonDetector } from "./people/vision.js";
+import { addAppearance } from "./people/appearance.js";
+import { trackPeople } from "./person-tracker.js";
+import { saveThumbnail } from "../cache/thumbnails.js";
 import {
+  FRAME_PRESETS,
+  attributeSchemaKey,
+  buildSchemaPrompt,
+  validateAttributes,
+  type AttributeSchema,
+} from "./frame-schemas.js";
+import { mapWithConcurrency } from "../utils/concurrency.js";
+import { isRateLimitError, withRetry } from "../utils/retry.js";
+import {
+  clearFrameAnalyses,
   generateAnalysisId,
+  getFrameAnalyses,
   getVisualAnalysis,
+  saveFrameAnalysis,
   saveVisualAnalysis,
   updateAnalysisStatus,
 } from "../cache/store.js";
 import { logger } from "../utils/logger.js";
 
-const anthropic = new Anthropic();
-
 export interface VisionAnalysisOptions {
   fps?: number;
   startTime?: number;
   endTime?: number;
   prompt?: string;
-  batchSize?: number;
+  // Vision calls in flight at once, and retries per frame before it is
+  // recorded as failed
+  concurrency?: number;
+  maxRetries?: number;
   forceReanalyze?: boolean;
+  // "shots" analyzes representative frames of each detected shot instead of
+  // sampling at a fixed fps
+  sampling?: FrameSampling;
+  sceneThreshold?: number;
+  framesPerShot?: number;
+  // Most frames extracted per analysis; the rest are skipped and counted
+  maxFrames?: number;
+  // Frames whose perceptual hash is within dedupeThreshold bits of the last
+  // analyzed frame reuse its analysis instead of calling the vision API
+  dedupe?: boolean;
+  dedupeThreshold?: number;
+  // Vision provider name (or instance) and per-call model settings
+  provider?: string | VisionProvider;
+  model?: string;
+  maxTokens?: number;
+  // Extra structured fields to extract per frame: a JSON schema, or the name
+  // of a preset from FRAME_PRESETS
+  attributeSchema?: AttributeSchema;
+  preset?: string;
+  // Also read on-screen text from each analyzed frame. "vision" uses the
+  // vision provider of the analysis; otherwise an OCR provider by name
+  ocr?: boolean;
+  ocrProvider?: string | OcrProvider;
+  // Detect people in each analyzed frame and follow them with track IDs.
+  // "vision" uses the vision provider; otherwise a detector by name
+  detectPeople?: boolean;
+  personDetector?: string | PersonDetector;
 }
 
 const DEFAULT_PROMPT = `Analyze this video frame and provide a JSON response with the following structure:
@@ -37,44 +96,17 @@ Only respond with the JSON, no other text.`;
 
 async function analyzeFrame(
   frame: ExtractedFrame,
-  prompt: string
+  prompt: string,
+  provider: VisionProvider,
+  request: VisionRequestOptions,
+  schema?: AttributeSchema
 ): Promise<FrameAnalysis> {
-  const imageData = await fs.promises.readFile(frame.framePath);
-  const base64 = imageData.toString("base64");
-
-  const response = await anthropic.messages.create({
-    model: "claude-sonnet-4-20250514",
-    max_tokens: 500,
-    messages: [
-      {
-        role: "user",
-        content: [
-          {
-            type: "image",
-            source: {
-              type: "base64",
-              media_type: "image/jpeg",
-              data: base64,
-            },
-          },
-          {
-            type: "text",
-            text: prompt,
-          },
-        ],
-      },
-    ],
-  });
-
-  const content = response.content[0];
-  if (content.type !== "text") {
-    throw new Error("Unexpected response type from Claude Vision");
-  }
+  const text = await provider.describeImage(frame.framePath, prompt, request);
 
   // Parse JSON response
   try {
     // Extract JSON from response (handle potential markdown code blocks)
-    let jsonStr = content.text.trim();
+    let jsonStr = text.trim();
     if (jsonStr.startsWith("```json")) {
       jsonStr = jsonStr.slice(7);
     }
@@ -88,12 +120,20 @@ async function analyzeFrame(
 
     const parsed = JSON.parse(jsonStr);
 
+    // With a schema, attributes are validated against it. Otherwise any
+    // fields a custom prompt asked for beyond the standard three are kept.
+    const { description, objects, scene, attributes: nested, ...extra } = parsed;
+    const attributes = schema
+      ? validateAttributes(nested ?? extra, schema)
+      : { ...extra, ...(nested && typeof nested === "object" ? nested : {}) };
+
     return {
       timestamp: frame.timestamp,
       framePath: frame.framePath,
-      description: parsed.description || "",
-      objects: parsed.objects || [],
-      scene: parsed.scene || "",
+      description: description || "",
+      objects: objects || [],
+      scene: scene || "",
+      attributes: Object.keys(attributes).length > 0 ? attributes : undefined,
     };
   } catch (e) {
     // If JSON parsing fails, use the raw text as description
@@ -101,7 +141,7 @@ async function analyzeFrame(
     return {
       timestamp: frame.timestamp,
       framePath: frame.framePath,
-      description: content.text,
+      description: text,
       objects: [],
       scene: "unknown",
     };
@@ -117,14 +157,89 @@ export async function analyzeVideoVisual(
     startTime,
     endTime,
     prompt = DEFAULT_PROMPT,
-    batchSize = 5,
+    concurrency = 5,
+    maxRetries = 3,
     forceReanalyze = false,
+    sampling = "fps",
+    sceneThreshold = 0.3,
+    framesPerShot = 1,
+    maxFrames = 500,
+    dedupe = true,
+    dedupeThreshold = 6,
+    model,
+    maxTokens,
+    preset,
+    ocr = false,
+    detectPeople = false,
   } = options;
 
-  // Check cache first
+  if (preset && !FRAME_PRESETS[preset]) {
+    throw new Error(
+      `Unknown frame analysis preset "${preset}". Available: ${Object.keys(FRAME_PRESETS).join(", ")}`
+    );
+  }
+  const schema = options.attributeSchema ?? (preset ? FRAME_PRESETS[preset] : undefined);
+  const schemaKey = schema ? attributeSchemaKey(schema) : undefined;
+  const framePrompt = schema ? buildSchemaPrompt(prompt, schema) : prompt;
+
+  const provider =
+    typeof options.provider === "object"
+      ? options.provider
+      : visionProviders.get(options.provider);
+  const effectiveModel = model || provider.defaultModel;
+
+  let ocrProvider: OcrProvider | undefined;
+  if (ocr) {
+    const ocrName = options.ocrProvider ?? DEFAULT_OCR_PROVIDER;
+    ocrProvider =
+      typeof ocrName === "object"
+        ? ocrName
+        : ocrName === "vision"
+          ? createVisionOcrProvider(provider, { model, maxTokens })
+          : ocrProviders.get(ocrName);
+  }
+
+  let personDetector: PersonDetector | undefined;
+  if (detectPeople) {
+    const detectorName = options.personDetector ?? DEFAULT_PERSON_DETECTOR;
+    personDetector =
+      typeof detectorName === "object"
+        ? detectorName
+        : detectorName === "vision"
+          ? createVisionPersonDetector(provider, { model, maxTokens })
+          : personDetectors.get(detectorName);
+  }
+
+  // Check cache first; results from another provider or model don't count,
+  // nor do results with frames whose OCR or person detection failed.
+  // Analyses cached before providers existed came from Claude, and those
+  // cached before dedupe or shot settings were stored used the defaults. A
+  // truncated analysis is redone when the frame limit has been raised.
   if (!forceReanalyze) {
     const cached = getVisualAnalysis(videoPath);
-    if (cached && cached.fps === fps) {
+    const cachedSampling = cached?.sampling ?? "fps";
+    if (
+      cached &&
+      cachedSampling === sampling &&
+      (sampling === "shots"
+        ? cached.shots !== undefined &&
+          (cached.sceneThreshold ?? 0.3) === sceneThreshold &&
+          (cached.framesPerShot ?? 1) === framesPerShot
+        : cached.fps === fps) &&
+      !(cached.framesSkipped && maxFrames > cached.frames.length) &&
+      (cached.provider ?? "claude") === provider.name &&
+      (cached.model === undefined || cached.model === effectiveModel) &&
+      (cached.dedupe ?? true) === dedupe &&
+      (!dedupe || (cached.dedupeThreshold ?? 6) === dedupeThreshold) &&
+      cached.attributeSchemaKey === schemaKey &&
+      (!ocrProvider ||
+        (cached.ocrProvider === ocrProvider.name &&
+          !cached.frames.some((f) => !f.error && f.text === undefined))) &&
+      (!personDetector ||
+        (cached.personDetector === personDetector.name &&
+          !cached.frames.some((f) => !f.error && f.people === undefined))) &&
+      !cached.frames.some((f) => f.error)
+    ) {
       logger.info("Using cached visual analysis", cached.analysisId);
       return cached;
     }
@@ -144,8 +259,14 @@ export async function analyzeVideoVisual(
   });
 
   let tempDir = "";
+  let framesDone: number | undefined;
+  let framesRemaining: number | undefined;
 
   try {
+    // A missing OCR engine would otherwise only show up after the vision
+    // provider has been paid for every frame
+    await ocrProvider?.checkAvailable?.();
+
     // Get video info
     const videoInfo = await getVideoInfo(videoPath);
     logger.info("Analyzing video:", videoPath);
@@ -161,10 +282,25 @@ export async function analyzeVideoVisual(
       startedAt,
     });
 
+    // In shot mode, frames are taken from inside each shot in the range
+    let shots: Shot[] | undefined;
+    let timestamps: number[] | undefined;
+
+    if (sampling === "shots") {
+      const detection = await detectShots(videoPath, { threshold: sceneThreshold });
+      shots = detection.shots.filter(
+        (s) => s.end > (startTime ?? 0) && s.start < (endTime ?? Infinity)
+      );
+      timestamps = shots.flatMap((s) => representativeTimestamps(s, framesPerShot));
+      logger.info(`Sampling ${timestamps.length} frames from ${shots.length} shots`);
+    }
+
     const extraction = await extractVideoFrames(videoPath, {
       fps,
       startTime,
       endTime,
+      maxFrames,
+      timestamps,
     });
     tempDir = extraction.tempDir;
     const frames = extraction.frames;
@@ -173,55 +309,281 @@ export async function analyzeVideoVisual(
       throw new Error("No frames extracted from video");
     }
 
-    logger.info(`Analyzing ${frames.length} frames with Claude Vision...`);
-
-    // Analyze frames in batches
-    const frameAnalyses: FrameAnalysis[] = [];
-    const totalBatches = Math.ceil(frames.length / batchSize);
+    // Local quality metrics (sharpness, exposure, motion, shake) for every frame
+    const qualities = await measureFrameQuality(
+      videoPath,
+      frames.map((f) => f.timestamp)
+    );
+
+    // Hash every frame and map each one to the frame whose analysis it will
+    // use: itself, or the last analyzed frame if they look the same
+    const hashes = await mapWithConcurrency(frames, 4, (frame) =>
+      perceptualHash(frame.framePath)
+    );
+    const sourceOf = dedupe
+      ? groupDuplicateFrames(hashes, dedupeThreshold)
+      : frames.map((_, i) => i);
+
+    const uniqueFrames = frames
+      .map((frame, index) => ({ frame, index }))
+      .filter(({ index }) => sourceOf[index] === index);
+    const apiCallsSaved = frames.length - uniqueFrames.length;
+
+    // Each analyzed frame is cached as soon as it completes, so a re-run
+    // after a crash only analyzes the frames that are missing
+    const frameKey = [
+      provider.name,
+      effectiveModel ?? "",
+      maxTokens ?? "",
+      createHash("sha256").update(framePrompt).digest("hex").slice(0, 12),
+      ocrProvider?.name ?? "",
+      personDetector?.name ?? "",
+    ].join(":");
+
+    if (forceReanalyze) {
+      clearFrameAnalyses(videoPath, frameKey);
+    }
 
-    for (let i = 0; i < frames.length; i += batchSize) {
-      const batch = frames.slice(i, i + batchSize);
-      const batchNumber = Math.floor(i / batchSize) + 1;
+    const previous = new Map(
+      getFrameAnalyses(videoPath, frameKey).map((a) => [a.timestamp.toFixed(3), a])
+    );
+    const analyzed = new Map<number, FrameAnalysis>();
 
-      logger.info(`Processing batch ${batchNumber}/${totalBatches}...`);
+    for (const { frame, index } of uniqueFrames) {
+      const done = previous.get(frame.timestamp.toFixed(3));
+      if (done) {
+        analyzed.set(index, { ...done, timestamp: frame.timestamp, framePath: frame.framePath });
+      }
+    }
+    // Frames whose OCR or person detection failed last time only need that
+    // pass again
+    const needsOcr = (analysis: FrameAnalysis) =>
+      ocrProvider !== undefined && analysis.text === undefined;
+    const needsPeople = (analysis: FrameAnalysis) =>
+      personDetector !== undefined && analysis.people === undefined;
+    const pending = uniqueFrames.filter(({ index }) => {
+      const done = analyzed.get(index);
+      return !done || needsOcr(done) || needsPeople(done);
+    });
 
-      // Process batch in parallel
-      const batchResults = await Promise.all(
-        batch.map((frame) => analyzeFrame(frame, prompt))
+    if (analyzed.size > 0) {
+      logger.info(
+        `Resuming visual analysis: ${analyzed.size}/${uniqueFrames.length} frames already done`
       );
+    }
+    logger.info(
+      `Analyzing ${pending.length} of ${frames.length} frames with ${provider.name} (${apiCallsSaved} near-duplicates skipped)...`
+    );
+
+    // Frames count as done once their source frame has a successful
+    // analysis; duplicates are done together with the frame they copy
+    const reportFrameProgress = () => {
+      const succeeded = [...analyzed.entries()].filter(([, a]) => !a.error).length;
+      framesDone = sourceOf.filter((source) => {
+        const analysis = analyzed.get(source);
+        return analysis !== undefined && !analysis.error;
+      }).length;
+      framesRemaining = frames.length - framesDone;
 
-      frameAnalyses.push(...batchResults);
-
-      // Update progress
-      const progress = 10 + (90 * (i + batch.length)) / frames.length;
       updateAnalysisStatus({
         analysisId,
         videoPath,
         type: "visual",
         status: "processing",
-        progress: Math.round(progress),
+        progress: Math.round(20 + (80 * succeeded) / uniqueFrames.length),
+        framesDone,
+        framesRemaining,
         startedAt,
       });
+    };
+    reportFrameProgress();
+
+    // Analyze frames with bounded concurrency. A rate limit hit by one
+    // frame pauses every worker until the server's reset time, and a frame
+    // that still fails after its retries is recorded with the error
+    let pausedUntil = 0;
+
+    const callWithRetry = <T>(frame: ExtractedFrame, fn: () => Promise<T>) =>
+      withRetry(
+        async () => {
+          const wait = pausedUntil - Date.now();
+          if (wait > 0) await new Promise((resolve) => setTimeout(resolve, wait));
+          return fn();
+        },
+        {
+          retries: maxRetries,
+          onRetry: (error, attempt, delayMs) => {
+            if (isRateLimitError(error)) {
+              pausedUntil = Math.max(pausedUntil, Date.now() + delayMs);
+            }
+            logger.warn(
+              `Frame at ${frame.timestamp.toFixed(2)}s failed (attempt ${attempt}/${maxRetries}), retrying in ${Math.round(delayMs)}ms:`,
+              error instanceof Error ? error.message : String(error)
+            );
+          },
+        }
+      );
+
+    await mapWithConcurrency(pending, concurrency, async ({ frame, index }) => {
+      try {
+        const analysis =
+          analyzed.get(index) ??
+          (await callWithRetry(frame, () =>
+            analyzeFrame(frame, framePrompt, provider, { model, maxTokens }, schema)
+          ));
+        // An OCR failure doesn't lose the vision analysis; the frame is kept
+        // without text and its OCR is retried on the next run
+        if (ocrProvider && needsOcr(analysis)) {
+          try {
+            analysis.text = await callWithRetry(frame, () =>
+              ocrProvider.recognize(frame.framePath)
+            );
+          } catch (error) {
+            logger.warn(
+              `OCR failed for frame at ${frame.timestamp.toFixed(2)}s, keeping it without text:`,
+              error instanceof Error ? error.message : String(error)
+            );
+          }
+        }
+        // Likewise a failed person detection leaves the frame without people
+        if (personDetector && needsPeople(analysis)) {
+          try {
+            const people = await callWithRetry(frame, () =>
+              personDetector.detect(frame.framePath)
+            );
+            // Without descriptions, clothing colours link people across
+            // cuts; tracking still works within shots if they can't be read
+            analysis.people = people.some((p) => !p.description)
+              ? await addAppearance(frame.framePath, people).catch(() => people)
+              : people;
+          } catch (error) {
+            logger.warn(
+              `Person detection failed for frame at ${frame.timestamp.toFixed(2)}s, keeping it without people:`,
+              error instanceof Error ? error.message : String(error)
+            );
+          }
+        }
+        analyzed.set(index, analysis);
+        saveFrameAnalysis(videoPath, frameKey, analysis);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        logger.error(`Frame at ${frame.timestamp.toFixed(2)}s failed:`, errorMessage);
+        analyzed.set(index, {
+          timestamp: frame.timestamp,
+          framePath: frame.framePath,
+          description: "",
+          objects: [],
+          scene: "",
+          error: errorMessage,
+        });
+      }
+
+      reportFrameProgress();
+    });
+
+    const framesFailed = [...analyzed.values()].filter((a) => a.error).length;
+    if (framesFailed === uniqueFrames.length) {
+      throw new Error(
+        `All ${framesFailed} frames failed to analyze: ${analyzed.get(uniqueFrames[0].index)!.error}`
+      );
+    }
+    if (framesFailed > 0) {
+      logger.warn(`${framesFailed} of ${uniqueFrames.length} frames failed to analyze`);
+    }
+    const ocrFailed = [...analyzed.values()].filter((a) => !a.error && needsOcr(a)).length;
+    if (ocrFailed > 0) {
+      logger.warn(`OCR failed for ${ocrFailed} of ${uniqueFrames.length} frames`);
+    }
+    const peopleFailed = [...analyzed.values()].filter((a) => !a.error && needsPeople(a)).length;
+    if (peopleFailed > 0) {
+      logger.warn(`Person detection failed for ${peopleFailed} of ${uniqueFrames.length} frames`);
+    }
+
+    // Keep a thumbnail of each analyzed frame before the extracted frames
+    // are deleted; duplicates share the thumbnail of the frame they copy
+    await mapWithConcurrency(uniqueFrames, 4, async ({ frame, index }) => {
+      const analysis = analyzed.get(index)!;
+      if (analysis.error) return;
+
+      try {
+        analysis.thumbnailPath = await saveThumbnail(videoPath, frame.timestamp, frame.framePath);
+      } catch (error) {
+        logger.warn(
+          `Could not save thumbnail for frame at ${frame.timestamp.toFixed(2)}s:`,
+          error instanceof Error ? error.message : String(error)
+        );
+      }
+    });
 
-      // Rate limiting delay between batches
-      if (i + batchSize < frames.length) {
-        await new Promise((resolve) => setTimeout(resolve, 500));
+    // Copy analyses forward to the skipped duplicates
+    const frameAnalyses: FrameAnalysis[] = frames.map((frame, i) => {
+      const source = analyzed.get(sourceOf[i])!;
+      const analysis: FrameAnalysis =
+        sourceOf[i] === i
+          ? { ...source }
+          : {
+              ...source,
+              timestamp: frame.timestamp,
+              framePath: frame.framePath,
+              duplicateOf: frames[sourceOf[i]].timestamp,
+            };
+
+      analysis.phash = hashes[i];
+      analysis.quality = qualities[i];
+      if (shots) {
+        analysis.shotIndex = shots.find(
+          (s) => frame.timestamp >= s.start && frame.timestamp < s.end
+        )?.index;
       }
+      return analysis;
+    });
+
+    // Motion measured across a cut says nothing about camera movement
+    if (shots) {
+      frameAnalyses.forEach((analysis, i) => {
+        if (i > 0 && analysis.shotIndex !== frameAnalyses[i - 1].shotIndex) {
+          delete analysis.quality?.motion;
+        }
+      });
     }
 
+    // Follow people across frames; a person may go unseen for a few samples
+    const personTracks = personDetector
+      ? trackPeople(frameAnalyses, { maxGap: Math.max(3, 2.5 / fps) })
+      : undefined;
+
     // Build result
     const result: VisualAnalysisResult = {
       analysisId,
       videoPath,
       duration: videoInfo.duration,
-      fps,
+      // In shot mode this is the effective sampling rate
+      fps: shots ? frameAnalyses.length / Math.max(videoInfo.duration, 1) : fps,
+      sampling,
+      provider: provider.name,
+      model: effectiveModel,
+      attributeSchemaKey: schemaKey,
+      ocrProvider: ocrProvider?.name,
+      personDetector: personDetector?.name,
       framesAnalyzed: frameAnalyses.length,
+      apiCallsSaved,
+      dedupe,
+      dedupeThreshold: dedupe ? dedupeThreshold : undefined,
+      sceneThreshold: shots ? sceneThreshold : undefined,
+      framesPerShot: shots ? framesPerShot : undefined,
+      framesSkipped: extraction.framesSkipped,
       frames: frameAnalyses,
+      shots,
+      personTracks,
       createdAt: Date.now(),
     };
 
-    // Save to cache
+    // Save to cache. Per-frame results are kept while frames, their OCR or
+    // their people are missing, so the next run retries only the failed ones.
     saveVisualAnalysis(result);
+    if (framesFailed === 0 && ocrFailed === 0 && peopleFailed === 0) {
+      clearFrameAnalyses(videoPath, frameKey);
+    }
 
     // Update status
     updateAnalysisStatus({
@@ -230,6 +592,8 @@ export async function analyzeVideoVisual(
       type: "visual",
       status: "completed",
       progress: 100,
+      framesDone,
+      framesRemaining,
       startedAt,
       completedAt: Date.now(),
     });
@@ -248,6 +612,8 @@ export async function analyzeVideoVisual(
       status: "failed",
       progress: 0,
       error: errorMessage,
+      framesDone,
+      framesRemaining,
       startedAt,
       completedAt: Date.now(),
     });
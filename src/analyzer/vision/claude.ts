@@ -0,0 +1,65 @@
+import Anthropic from "@anthropic-ai/sdk";
+import * as fs from "fs";
+import type { VisionProvider } from "../../types/index.js";
+
+export interface ClaudeVisionConfig {
+  model?: string;
+  maxTokens?: number;
+  baseURL?: string;
+}
+
+export function createClaudeVisionProvider(
+  config: ClaudeVisionConfig = {}
+): VisionProvider {
+  const {
+    model = process.env.VISION_MODEL || "claude-sonnet-4-20250514",
+    maxTokens = Number(process.env.VISION_MAX_TOKENS) || 500,
+    baseURL = process.env.VISION_BASE_URL || undefined,
+  } = config;
+
+  let client: Anthropic | null = null;
+
+  return {
+    name: "claude",
+    defaultModel: model,
+
+    async describeImage(imagePath, prompt, options) {
+      // Created on first use so the server starts without an API key.
+      // Retries are left to the caller, which coordinates them across frames.
+      client ??= new Anthropic({ baseURL, maxRetries: 0 });
+
+      const imageData = await fs.promises.readFile(imagePath);
+
+      const response = await client.messages.create({
+        model: options.model || model,
+        max_tokens: options.maxTokens || maxTokens,
+        messages: [
+          {
+            role: "user",
+            content: [
+              {
+                type: "image",
+                source: {
+                  type: "base64",
+                  media_type: "image/jpeg",
+                  data: imageData.toString("base64"),
+                },
+              },
+              {
+                type: "text",
+                text: prompt,
+              },
+            ],
+          },
+        ],
+      });
+
+      const content = response.content[0];
+      if (content.type !== "text") {
+        throw new Error("Unexpected response type from Claude Vision");
+      }
+
+      return content.text;
+    },
+  };
+}
@@ -0,0 +1,77 @@
+import * as fs from "fs";
+import type { VisionProvider } from "../../types/index.js";
+import { logger } from "../../utils/logger.js";
+import { HttpStatusError } from "../../utils/retry.js";
+
+export interface HttpVisionConfig {
+  baseUrl?: string;
+  model?: string;
+  maxTokens?: number;
+  apiKey?: string;
+}
+
+// Any server implementing the OpenAI /v1/chat/completions API with image
+// input (Ollama, LM Studio, vLLM, ...), for running a local vision model
+export function createHttpVisionProvider(config: HttpVisionConfig = {}): VisionProvider {
+  const {
+    baseUrl = process.env.VISION_HTTP_URL || "http://127.0.0.1:11434",
+    model = process.env.VISION_HTTP_MODEL || "llava",
+    maxTokens = Number(process.env.VISION_MAX_TOKENS) || 500,
+    apiKey = process.env.VISION_HTTP_API_KEY,
+  } = config;
+
+  return {
+    name: "http",
+    defaultModel: model,
+
+    async describeImage(imagePath, prompt, options) {
+      logger.debug("Sending frame to vision server at", baseUrl);
+
+      const imageData = await fs.promises.readFile(imagePath);
+
+      const response = await fetch(`${baseUrl}/v1/chat/completions`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model: options.model || model,
+          max_tokens: options.maxTokens || maxTokens,
+          messages: [
+            {
+              role: "user",
+              content: [
+                {
+                  type: "image_url",
+                  image_url: {
+                    url: `data:image/jpeg;base64,${imageData.toString("base64")}`,
+                  },
+                },
+                { type: "text", text: prompt },
+              ],
+            },
+          ],
+        }),
+      });
+
+      if (!response.ok) {
+        throw new HttpStatusError(
+          `Vision server returned ${response.status}: ${await response.text()}`,
+          response.status,
+          Object.fromEntries(response.headers)
+        );
+      }
+
+      const output = (await response.json()) as {
+        choices?: Array<{ message?: { content?: string } }>;
+      };
+      const text = output.choices?.[0]?.message?.content;
+      if (!text) {
+        throw new Error("Vision server returned no text");
+      }
+
+      return text;
+    },
+  };
+}
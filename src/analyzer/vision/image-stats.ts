@@ -0,0 +1,130 @@
+import type { VisionProvider } from "../../types/index.js";
+import { decodeRawImage } from "../../utils/image.js";
+
+// Deterministic offline provider: describes a frame from pixel statistics
+// (brightness, contrast, detail and dominant colours) instead of a model.
+// The same frame always yields the same answer, which makes it suitable for
+// tests and air-gapped machines. Prompts are ignored.
+
+const WIDTH = 64;
+const HEIGHT = 36;
+
+const HUE_NAMES: Array<[number, string]> = [
+  [15, "red"],
+  [45, "orange"],
+  [70, "yellow"],
+  [160, "green"],
+  [200, "cyan"],
+  [260, "blue"],
+  [300, "purple"],
+  [340, "pink"],
+  [360, "red"],
+];
+
+function hueName(hue: number): string {
+  return HUE_NAMES.find(([limit]) => hue < limit)?.[1] ?? "red";
+}
+
+export interface ImageStats {
+  brightness: number; // 0-1 mean luma
+  contrast: number; // 0-1 luma standard deviation
+  saturation: number; // 0-1 mean saturation
+  detail: number; // 0-1 mean absolute luma gradient
+  dominantColors: string[];
+}
+
+export function computeImageStats(rgb: Buffer, width: number, height: number): ImageStats {
+  const pixelCount = width * height;
+  const luma = new Float64Array(pixelCount);
+  const hueCounts = new Map<string, number>();
+  let saturationSum = 0;
+
+  for (let i = 0; i < pixelCount; i++) {
+    const r = rgb[i * 3] / 255;
+    const g = rgb[i * 3 + 1] / 255;
+    const b = rgb[i * 3 + 2] / 255;
+    luma[i] = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+
+    const max = Math.max(r, g, b);
+    const min = Math.min(r, g, b);
+    const saturation = max === 0 ? 0 : (max - min) / max;
+    saturationSum += saturation;
+
+    // Only clearly coloured pixels vote for a hue
+    if (saturation > 0.25 && max > 0.15) {
+      const delta = max - min;
+      let hue =
+        max === r ? ((g - b) / delta) % 6 : max === g ? (b - r) / delta + 2 : (r - g) / delta + 4;
+      hue = (hue * 60 + 360) % 360;
+      const name = hueName(hue);
+      hueCounts.set(name, (hueCounts.get(name) ?? 0) + 1);
+    }
+  }
+
+  const brightness = luma.reduce((sum, v) => sum + v, 0) / pixelCount;
+  const contrast = Math.sqrt(
+    luma.reduce((sum, v) => sum + (v - brightness) ** 2, 0) / pixelCount
+  );
+
+  let gradientSum = 0;
+  for (let y = 0; y < height - 1; y++) {
+    for (let x = 0; x < width - 1; x++) {
+      const i = y * width + x;
+      gradientSum += Math.abs(luma[i + 1] - luma[i]) + Math.abs(luma[i + width] - luma[i]);
+    }
+  }
+  const detail = gradientSum / ((width - 1) * (height - 1) * 2);
+
+  // Colours covering at least 10% of the frame, most common first
+  const dominantColors = [...hueCounts.entries()]
+    .filter(([, count]) => count >= pixelCount * 0.1)
+    .sort((a, b) => b[1] - a[1])
+    .map(([name]) => name);
+
+  const round = (v: number) => Math.round(v * 1000) / 1000;
+  return {
+    brightness: round(brightness),
+    contrast: round(contrast),
+    saturation: round(saturationSum / pixelCount),
+    detail: round(detail),
+    dominantColors,
+  };
+}
+
+export function describeImageStats(stats: ImageStats): {
+  description: string;
+  objects: string[];
+  scene: string;
+} {
+  if (stats.brightness < 0.06 && stats.contrast < 0.03) {
+    return { description: "Black frame", objects: [], scene: "black frame" };
+  }
+
+  const tone = stats.brightness < 0.3 ? "Dark" : stats.brightness > 0.7 ? "Bright" : "Mid-tone";
+  const contrast = stats.contrast < 0.1 ? "low-contrast" : stats.contrast > 0.25 ? "high-contrast" : "moderate-contrast";
+  const detail = stats.detail < 0.02 ? "flat" : stats.detail > 0.08 ? "detailed" : "moderately detailed";
+  const colors =
+    stats.saturation < 0.12
+      ? "nearly monochrome colours"
+      : stats.dominantColors.length > 0
+        ? `mostly ${stats.dominantColors.slice(0, 2).join(" and ")} tones`
+        : "mixed colours";
+
+  return {
+    description: `${tone}, ${contrast}, ${detail} frame with ${colors}`,
+    objects: stats.dominantColors,
+    scene: `${tone.toLowerCase()} ${detail} scene`,
+  };
+}
+
+export const imageStatsVisionProvider: VisionProvider = {
+  name: "offline",
+  defaultModel: "image-stats",
+
+  async describeImage(imagePath) {
+    const rgb = await decodeRawImage(imagePath, WIDTH, HEIGHT, "rgb24");
+    const stats = computeImageStats(rgb, WIDTH, HEIGHT);
+
+    return JSON.stringify({ ...describeImageStats(stats), stats });
+  },
+};
@@ -0,0 +1,13 @@
+import type { VisionProvider } from "../../types/index.js";
+import { createRegistry } from "../../utils/registry.js";
+import { createClaudeVisionProvider } from "./claude.js";
+import { createHttpVisionProvider } from "./http.js";
+import { imageStatsVisionProvider } from "./image-stats.js";
+
+export const DEFAULT_VISION_PROVIDER = process.env.VISION_PROVIDER || "claude";
+
+export const visionProviders = createRegistry<VisionProvider>({
+  kind: "vision provider",
+  defaultName: DEFAULT_VISION_PROVIDER,
+  entries: [createClaudeVisionProvider(), createHttpVisionProvider(), imageStatsVisionProvider],
+});
@@ -1,20 +1,34 @@
-import { nodewhisper } from "nodejs-whisper";
 import * as path from "path";
 import * as fs from "fs";
 import * as os from "os";
+import { createHash } from "crypto";
 import ffmpeg from "fluent-ffmpeg";
 import type {
   SpeechAnalysisResult,
   TranscriptSegment,
-  WordTimestamp,
+  TranscriptionBackend,
+  TranscriptionChunk,
 } from "../types/index.js";
 import { getVideoInfo } from "../utils/video-info.js";
 import {
   generateAnalysisId,
   getSpeechAnalysis,
   saveSpeechAnalysis,
+  getTranscriptionChunks,
+  saveTranscriptionChunk,
+  clearTranscriptionChunks,
   updateAnalysisStatus,
 } from "../cache/store.js";
+import { diarizeTranscript } from "./diarization.js";
+import {
+  loadProjectGlossary,
+  buildTranscriptionPrompt,
+  applyReplacements,
+} from "./glossary.js";
+import { transcriptionBackends } from "./transcription/index.js";
+import { planChunks, mergeChunks } from "./transcription/chunking.js";
+import { mapWithConcurrency } from "../utils/concurrency.js";
+import { detectTextLanguage, normalizeLanguageCode } from "../utils/language.js";
 import { logger } from "../utils/logger.js";
 
 export type WhisperModelSize =
@@ -34,10 +48,21 @@ export interface TranscribeOptions {
   modelSize?: WhisperModelSize;
   language?: string;
   forceReanalyze?: boolean;
+  diarize?: boolean;
+  numSpeakers?: number;
+  // Registered backend name, or a backend instance (handy for tests)
+  backend?: string | TranscriptionBackend;
+  chunkDuration?: number;
+  chunkOverlap?: number;
+  concurrency?: number;
+  // Added to the project glossary's vocabulary, prompt and replacements
+  vocabulary?: string[];
+  initialPrompt?: string;
+  replacements?: Record<string, string>;
 }
 
 // Extract audio from video to WAV format (required by Whisper)
-async function extractAudio(
+export async function extractAudio(
   videoPath: string,
   outputPath: string
 ): Promise<void> {
@@ -54,18 +79,132 @@ async function extractAudio(
   });
 }
 
+// Cut a time range out of an extracted WAV
+async function extractAudioRange(
+  audioPath: string,
+  outputPath: string,
+  start: number,
+  duration: number
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    ffmpeg(audioPath)
+      .setStartTime(start)
+      .setDuration(duration)
+      .output(outputPath)
+      .audioCodec("pcm_s16le")
+      .format("wav")
+      .on("end", () => resolve())
+      .on("error", (err) => reject(err))
+      .run();
+  });
+}
+
+// The dominant language is the one with the most speech time. Its probability
+// is the duration-weighted mean over the chunks that detected it.
+function summarizeLanguages(
+  chunks: TranscriptionChunk[],
+  segments: TranscriptSegment[]
+): { language?: string; probability?: number; languages?: string[] } {
+  const speechTime = new Map<string, number>();
+  for (const segment of segments) {
+    if (!segment.language) continue;
+    speechTime.set(
+      segment.language,
+      (speechTime.get(segment.language) ?? 0) + (segment.end - segment.start)
+    );
+  }
+
+  if (speechTime.size === 0) return {};
+
+  const languages = [...speechTime.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .map(([lang]) => lang);
+  const language = languages[0];
+
+  const scored = chunks.filter(
+    (c) => c.language === language && c.languageProbability !== undefined
+  );
+  const weight = scored.reduce((sum, c) => sum + (c.end - c.start), 0);
+  const probability =
+    weight > 0
+      ? scored.reduce(
+          (sum, c) => sum + c.languageProbability! * (c.end - c.start),
+          0
+        ) / weight
+      : undefined;
+
+  return { language, probability, languages };
+}
+
 export async function transcribeVideo(
   videoPath: string,
   options: TranscribeOptions = {}
 ): Promise<SpeechAnalysisResult> {
-  const { modelSize = "base", language, forceReanalyze = false } = options;
+  const {
+    modelSize = "base",
+    language,
+    forceReanalyze = false,
+    diarize = false,
+    numSpeakers,
+    chunkDuration = 600,
+    chunkOverlap = 5,
+    // nodejs-whisper changes the process working directory, so it is only
+    // safe to run several chunks at once against server backends
+    concurrency = 1,
+    vocabulary = [],
+    initialPrompt,
+    replacements = {},
+  } = options;
+
+  const backend =
+    typeof options.backend === "object"
+      ? options.backend
+      : transcriptionBackends.get(options.backend);
 
-  // Check cache first
+  // Project glossary (if any) plus per-call vocabulary
+  const glossary = loadProjectGlossary(videoPath);
+  const prompt = buildTranscriptionPrompt(
+    [...(glossary?.vocabulary ?? []), ...vocabulary],
+    initialPrompt ?? glossary?.initialPrompt
+  );
+  const promptKey = prompt
+    ? createHash("sha256").update(prompt).digest("hex").slice(0, 12)
+    : undefined;
+  const allReplacements = { ...glossary?.replacements, ...replacements };
+
+  // Check cache first. The backend, model, language and vocabulary/prompt
+  // steer recognition, so a change to any of them means transcribing again;
+  // a diarization request also needs a cached run labelled with the same
+  // speaker count. Replacements only fix the text and are applied to the
+  // cached transcript. Rows from before these settings were stored count as
+  // made with the defaults.
   if (!forceReanalyze) {
     const cached = getSpeechAnalysis(videoPath);
-    if (cached) {
+    if (
+      cached &&
+      (cached.backend ?? "nodejs-whisper") === backend.name &&
+      (cached.modelSize ?? "base") === modelSize &&
+      cached.requestedLanguage === language &&
+      cached.promptKey === promptKey &&
+      (!diarize || (cached.speakers !== undefined && cached.numSpeakers === numSpeakers))
+    ) {
+      const updated: SpeechAnalysisResult = {
+        ...cached,
+        ...applyReplacements(cached.segments, cached.words, allReplacements),
+        glossaryVersion: glossary?.version,
+      };
+
+      if (
+        updated.glossaryVersion !== cached.glossaryVersion ||
+        JSON.stringify([updated.segments, updated.words]) !==
+          JSON.stringify([cached.segments, cached.words])
+      ) {
+        logger.info("Applying current glossary replacements to cached speech analysis");
+        saveSpeechAnalysis(updated);
+      }
+
       logger.info("Using cached speech analysis", cached.analysisId);
-      return cached;
+      return updated;
     }
   }
 
@@ -117,22 +256,120 @@ export async function transcribeVideo(
       startedAt: startTime,
     });
 
-    // Run Whisper transcription
-    logger.info("Running Whisper transcription with model:", modelSize);
-
-    const whisperResult = await nodewhisper(audioPath, {
-      modelName: modelSize,
-      autoDownloadModelName: modelSize,
-      removeWavFileAfterTranscription: false,
-      withCuda: false,
-      whisperOptions: {
-        language: language || undefined,
-        wordTimestamps: true,
-        outputInVtt: false,
-        outputInSrt: false,
-        outputInCsv: false,
-      },
-    });
+    // Transcribe in overlapping chunks. Finished chunks are cached, so a
+    // re-run after a crash only transcribes what is missing.
+    const chunkKey = [
+      backend.name,
+      modelSize,
+      language || "auto",
+      chunkDuration,
+      chunkOverlap,
+      promptKey ?? "",
+    ].join(":");
+
+    if (forceReanalyze) {
+      clearTranscriptionChunks(videoPath, chunkKey);
+    }
+
+    const plan = planChunks(videoInfo.duration, chunkDuration, chunkOverlap);
+    const done = new Map<number, TranscriptionChunk>(
+      getTranscriptionChunks(videoPath, chunkKey).map((c) => [c.index, c])
+    );
+
+    if (done.size > 0) {
+      logger.info(
+        `Resuming transcription: ${done.size}/${plan.length} chunks already done`
+      );
+    }
+
+    const reportChunkProgress = () =>
+      updateAnalysisStatus({
+        analysisId,
+        videoPath,
+        type: "speech",
+        status: "processing",
+        progress: Math.round(30 + (60 * done.size) / plan.length),
+        startedAt: startTime,
+      });
+    reportChunkProgress();
+
+    logger.info(
+      `Running transcription with backend ${backend.name}, model ${modelSize}, ${plan.length} chunk(s)`
+    );
+
+    await mapWithConcurrency(
+      plan.filter((chunk) => !done.has(chunk.index)),
+      concurrency,
+      async (chunk) => {
+        const chunkAudioPath =
+          plan.length === 1
+            ? audioPath
+            : path.join(tempDir, `chunk-${chunk.index}.wav`);
+
+        if (plan.length > 1) {
+          await extractAudioRange(
+            audioPath,
+            chunkAudioPath,
+            chunk.start,
+            chunk.end - chunk.start
+          );
+        }
+
+        const transcript = await backend.transcribe(chunkAudioPath, {
+          modelSize,
+          language,
+          prompt,
+        });
+
+        // Shift chunk-relative timings to absolute video time and tag each
+        // segment with its language: the backend's, else the one its text
+        // reads as (when auto-detecting), else the one detected for its chunk
+        const chunkLanguage =
+          transcript.language ?? normalizeLanguageCode(language);
+        const segments = transcript.segments.map((s) => ({
+          ...s,
+          start: s.start + chunk.start,
+          end: s.end + chunk.start,
+          language:
+            s.language ?? (language ? undefined : detectTextLanguage(s.text)) ?? chunkLanguage,
+        }));
+        const segmentLanguageAt = (time: number) =>
+          segments.find((s) => time >= s.start && time <= s.end)?.language ?? chunkLanguage;
+
+        const completed: TranscriptionChunk = {
+          videoPath,
+          chunkKey,
+          index: chunk.index,
+          start: chunk.start,
+          end: chunk.end,
+          segments,
+          words: transcript.words.map((w) => {
+            const start = w.start + chunk.start;
+            const end = w.end + chunk.start;
+            return {
+              ...w,
+              start,
+              end,
+              language: w.language ?? segmentLanguageAt((start + end) / 2),
+            };
+          }),
+          language: chunkLanguage,
+          languageProbability: transcript.languageProbability,
+          createdAt: Date.now(),
+        };
+
+        saveTranscriptionChunk(completed);
+        done.set(chunk.index, completed);
+        logger.info(`Transcribed chunk ${done.size}/${plan.length}`);
+        reportChunkProgress();
+      }
+    );
+
+    let { segments, words } = mergeChunks([...done.values()]);
+    const detected = summarizeLanguages([...done.values()], segments);
+
+    // Fix known mis-transcriptions before anything is cached
+    ({ segments, words } = applyReplacements(segments, words, allReplacements));
 
     // Update progress
     updateAnalysisStatus({
@@ -144,21 +381,25 @@ export async function transcribeVideo(
       startedAt: startTime,
     });
 
-    // Parse results
-    const segments: TranscriptSegment[] = [];
-    const words: WordTimestamp[] = [];
-
-    // Handle the whisper result format
-    if (Array.isArray(whisperResult)) {
-      // Result is array of segments
-      whisperResult.forEach((seg: { start: number; end: number; speech: string }, index: number) => {
-        segments.push({
-          id: index,
-          start: seg.start,
-          end: seg.end,
-          text: seg.speech || "",
-        });
+    // Optional speaker diarization on the extracted audio
+    let speakers: string[] | undefined;
+    if (diarize) {
+      logger.info("Running speaker diarization...");
+      updateAnalysisStatus({
+        analysisId,
+        videoPath,
+        type: "speech",
+        status: "processing",
+        progress: 95,
+        startedAt: startTime,
       });
+
+      ({ segments, words, speakers } = await diarizeTranscript(
+        audioPath,
+        segments,
+        words,
+        { numSpeakers }
+      ));
     }
 
     // Build result
@@ -166,14 +407,24 @@ export async function transcribeVideo(
       analysisId,
       videoPath,
       duration: videoInfo.duration,
-      language: language || "auto",
+      language: language || detected.language || "unknown",
+      languageProbability: language ? undefined : detected.probability,
+      languages: detected.languages,
       segments,
       words,
+      speakers,
+      glossaryVersion: glossary?.version,
+      promptKey,
+      backend: backend.name,
+      modelSize,
+      requestedLanguage: language,
+      numSpeakers: diarize ? numSpeakers : undefined,
       createdAt: Date.now(),
     };
 
-    // Save to cache
+    // Save to cache; the partial chunks are no longer needed
     saveSpeechAnalysis(result);
+    clearTranscriptionChunks(videoPath, chunkKey);
 
     // Update status
     updateAnalysisStatus({
@@ -193,7 +444,13 @@ export async function transcribeVideo(
       logger.warn("Failed to cleanup temp directory", tempDir);
     }
 
-    logger.info("Transcription complete:", segments.length, "segments");
+    logger.info(
+      "Transcription complete:",
+      segments.length,
+      "segments,",
+      words.length,
+      "words"
+    );
     return result;
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
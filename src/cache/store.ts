@@ -6,11 +6,18 @@ import { v4 as uuidv4 } from "uuid";
 import type {
   SpeechAnalysisResult,
   VisualAnalysisResult,
+  SilenceAnalysisResult,
+  AudioAnalysisResult,
+  ShotDetectionResult,
+  QualityAnalysisResult,
+  TranscriptionChunk,
+  FrameAnalysis,
   AnalysisStatus,
+  EmbeddingSourceType,
 } from "../types/index.js";
 import { logger } from "../utils/logger.js";
 
-const CACHE_DIR = path.join(os.homedir(), ".premiere-mcp", "cache");
+export const CACHE_DIR = path.join(os.homedir(), ".premiere-mcp", "cache");
 const DB_PATH = path.join(CACHE_DIR, "analysis.db");
 
 let db: Database.Database | null = null;
@@ -37,6 +44,18 @@ export function initializeCache(): void {
       created_at INTEGER NOT NULL
     );
 
+    CREATE TABLE IF NOT EXISTS speech_chunks (
+      video_path TEXT NOT NULL,
+      chunk_key TEXT NOT NULL,
+      chunk_index INTEGER NOT NULL,
+      start REAL NOT NULL,
+      end REAL NOT NULL,
+      segments TEXT NOT NULL,
+      words TEXT NOT NULL,
+      created_at INTEGER NOT NULL,
+      PRIMARY KEY (video_path, chunk_key, chunk_index)
+    );
+
     CREATE TABLE IF NOT EXISTS visual_analysis (
       analysis_id TEXT PRIMARY KEY,
       video_path TEXT NOT NULL,
@@ -47,6 +66,63 @@ export function initializeCache(): void {
       created_at INTEGER NOT NULL
     );
 
+    CREATE TABLE IF NOT EXISTS frame_analyses (
+      video_path TEXT NOT NULL,
+      frame_key TEXT NOT NULL,
+      timestamp REAL NOT NULL,
+      analysis TEXT NOT NULL,
+      created_at INTEGER NOT NULL,
+      PRIMARY KEY (video_path, frame_key, timestamp)
+    );
+
+    CREATE TABLE IF NOT EXISTS silence_analysis (
+      analysis_id TEXT PRIMARY KEY,
+      video_path TEXT NOT NULL,
+      duration REAL NOT NULL,
+      threshold_db REAL NOT NULL,
+      min_duration REAL NOT NULL,
+      silences TEXT NOT NULL,
+      created_at INTEGER NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS shot_analysis (
+      analysis_id TEXT PRIMARY KEY,
+      video_path TEXT NOT NULL,
+      duration REAL NOT NULL,
+      threshold REAL NOT NULL,
+      min_shot_duration REAL NOT NULL,
+      shots TEXT NOT NULL,
+      created_at INTEGER NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS audio_analysis (
+      analysis_id TEXT PRIMARY KEY,
+      video_path TEXT NOT NULL,
+      speech_analysis_id TEXT NOT NULL,
+      segments TEXT NOT NULL,
+      created_at INTEGER NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS quality_analysis (
+      analysis_id TEXT PRIMARY KEY,
+      video_path TEXT NOT NULL,
+      duration REAL NOT NULL,
+      fps REAL NOT NULL,
+      samples TEXT NOT NULL,
+      created_at INTEGER NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS embeddings (
+      video_path TEXT NOT NULL,
+      provider_key TEXT NOT NULL,
+      source_type TEXT NOT NULL,
+      item_key TEXT NOT NULL,
+      text_hash TEXT NOT NULL,
+      vector BLOB NOT NULL,
+      created_at INTEGER NOT NULL,
+      PRIMARY KEY (video_path, provider_key, source_type, item_key)
+    );
+
     CREATE TABLE IF NOT EXISTS analysis_status (
       analysis_id TEXT PRIMARY KEY,
       video_path TEXT NOT NULL,
@@ -60,43 +136,149 @@ export function initializeCache(): void {
 
     CREATE INDEX IF NOT EXISTS idx_speech_video_path ON speech_analysis(video_path);
     CREATE INDEX IF NOT EXISTS idx_visual_video_path ON visual_analysis(video_path);
+    CREATE INDEX IF NOT EXISTS idx_silence_video_path ON silence_analysis(video_path);
+    CREATE INDEX IF NOT EXISTS idx_shot_video_path ON shot_analysis(video_path);
+    CREATE INDEX IF NOT EXISTS idx_audio_video_path ON audio_analysis(video_path);
+    CREATE INDEX IF NOT EXISTS idx_quality_video_path ON quality_analysis(video_path);
     CREATE INDEX IF NOT EXISTS idx_status_video_path ON analysis_status(video_path);
   `);
 
+  // Columns added after the initial schema; older databases are migrated here
+  ensureColumn("speech_analysis", "speakers", "TEXT");
+  ensureColumn("speech_analysis", "language_probability", "REAL");
+  ensureColumn("speech_analysis", "languages", "TEXT");
+  ensureColumn("speech_analysis", "glossary_version", "TEXT");
+  ensureColumn("speech_analysis", "prompt_key", "TEXT");
+  ensureColumn("speech_analysis", "backend", "TEXT");
+  ensureColumn("speech_analysis", "model_size", "TEXT");
+  ensureColumn("speech_analysis", "requested_language", "TEXT");
+  ensureColumn("speech_analysis", "num_speakers", "INTEGER");
+  ensureColumn("speech_analysis", "revision", "INTEGER");
+  ensureColumn("speech_analysis", "parent_analysis_id", "TEXT");
+  ensureColumn("speech_analysis", "translated_from", "TEXT");
+  ensureColumn("speech_analysis", "translation_provider", "TEXT");
+  ensureColumn("visual_analysis", "sampling", "TEXT");
+  ensureColumn("visual_analysis", "shots", "TEXT");
+  ensureColumn("visual_analysis", "api_calls_saved", "INTEGER");
+  ensureColumn("visual_analysis", "provider", "TEXT");
+  ensureColumn("visual_analysis", "model", "TEXT");
+  ensureColumn("visual_analysis", "attribute_schema_key", "TEXT");
+  ensureColumn("visual_analysis", "ocr_provider", "TEXT");
+  ensureColumn("visual_analysis", "person_detector", "TEXT");
+  ensureColumn("visual_analysis", "person_tracks", "TEXT");
+  ensureColumn("visual_analysis", "dedupe", "INTEGER");
+  ensureColumn("visual_analysis", "dedupe_threshold", "REAL");
+  ensureColumn("visual_analysis", "scene_threshold", "REAL");
+  ensureColumn("visual_analysis", "frames_per_shot", "INTEGER");
+  ensureColumn("visual_analysis", "frames_skipped", "INTEGER");
+  ensureColumn("analysis_status", "frames_done", "INTEGER");
+  ensureColumn("analysis_status", "frames_remaining", "INTEGER");
+  ensureColumn("speech_chunks", "language", "TEXT");
+  ensureColumn("speech_chunks", "language_probability", "REAL");
+
   logger.info("Cache initialized at", DB_PATH);
 }
 
+function ensureColumn(table: string, column: string, definition: string): void {
+  if (!db) throw new Error("Cache not initialized");
+
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as Array<{
+    name: string;
+  }>;
+
+  if (!columns.some((c) => c.name === column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+    logger.info(`Added column ${table}.${column}`);
+  }
+}
+
 export function generateAnalysisId(): string {
   return uuidv4();
 }
 
 // Speech Analysis Cache
+type SpeechAnalysisRow = {
+  analysis_id: string;
+  video_path: string;
+  duration: number;
+  language: string;
+  segments: string;
+  words: string;
+  speakers: string | null;
+  language_probability: number | null;
+  languages: string | null;
+  glossary_version: string | null;
+  prompt_key: string | null;
+  backend: string | null;
+  model_size: string | null;
+  requested_language: string | null;
+  num_speakers: number | null;
+  revision: number | null;
+  parent_analysis_id: string | null;
+  translated_from: string | null;
+  translation_provider: string | null;
+  created_at: number;
+};
+
+// Without a language, returns the newest original transcript. With one, the
+// newest transcript in that language: the original if it matches, otherwise
+// a translation made by translate_transcript.
 export function getSpeechAnalysis(
-  videoPath: string
+  videoPath: string,
+  language?: string
 ): SpeechAnalysisResult | null {
   if (!db) throw new Error("Cache not initialized");
 
+  const row = (
+    language
+      ? db
+          .prepare(
+            `SELECT * FROM speech_analysis WHERE video_path = ? AND language = ?
+             ORDER BY translated_from IS NOT NULL, created_at DESC LIMIT 1`
+          )
+          .get(videoPath, language)
+      : db
+          .prepare(
+            `SELECT * FROM speech_analysis WHERE video_path = ? AND translated_from IS NULL
+             ORDER BY created_at DESC LIMIT 1`
+          )
+          .get(videoPath)
+  ) as SpeechAnalysisRow | undefined;
+
+  return row ? rowToSpeechAnalysis(row) : null;
+}
+
+export function getSpeechAnalysisById(analysisId: string): SpeechAnalysisResult | null {
+  if (!db) throw new Error("Cache not initialized");
+
   const row = db
-    .prepare("SELECT * FROM speech_analysis WHERE video_path = ? ORDER BY created_at DESC LIMIT 1")
-    .get(videoPath) as {
-      analysis_id: string;
-      video_path: string;
-      duration: number;
-      language: string;
-      segments: string;
-      words: string;
-      created_at: number;
-    } | undefined;
+    .prepare("SELECT * FROM speech_analysis WHERE analysis_id = ?")
+    .get(analysisId) as SpeechAnalysisRow | undefined;
 
-  if (!row) return null;
+  return row ? rowToSpeechAnalysis(row) : null;
+}
 
+function rowToSpeechAnalysis(row: SpeechAnalysisRow): SpeechAnalysisResult {
   return {
     analysisId: row.analysis_id,
     videoPath: row.video_path,
     duration: row.duration,
     language: row.language,
+    languageProbability: row.language_probability ?? undefined,
+    languages: row.languages ? JSON.parse(row.languages) : undefined,
     segments: JSON.parse(row.segments),
     words: JSON.parse(row.words),
+    speakers: row.speakers ? JSON.parse(row.speakers) : undefined,
+    glossaryVersion: row.glossary_version ?? undefined,
+    promptKey: row.prompt_key ?? undefined,
+    backend: row.backend ?? undefined,
+    modelSize: row.model_size ?? undefined,
+    requestedLanguage: row.requested_language ?? undefined,
+    numSpeakers: row.num_speakers ?? undefined,
+    revision: row.revision ?? undefined,
+    parentAnalysisId: row.parent_analysis_id ?? undefined,
+    translatedFrom: row.translated_from ?? undefined,
+    translationProvider: row.translation_provider ?? undefined,
     createdAt: row.created_at,
   };
 }
@@ -106,21 +288,222 @@ export function saveSpeechAnalysis(result: SpeechAnalysisResult): void {
 
   db.prepare(
     `INSERT OR REPLACE INTO speech_analysis
-     (analysis_id, video_path, duration, language, segments, words, created_at)
-     VALUES (?, ?, ?, ?, ?, ?, ?)`
+     (analysis_id, video_path, duration, language, language_probability, languages,
+      segments, words, speakers, glossary_version, prompt_key, backend, model_size,
+      requested_language, num_speakers, revision, parent_analysis_id,
+      translated_from, translation_provider, created_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
   ).run(
     result.analysisId,
     result.videoPath,
     result.duration,
     result.language,
+    result.languageProbability ?? null,
+    result.languages ? JSON.stringify(result.languages) : null,
     JSON.stringify(result.segments),
     JSON.stringify(result.words),
+    result.speakers ? JSON.stringify(result.speakers) : null,
+    result.glossaryVersion ?? null,
+    result.promptKey ?? null,
+    result.backend ?? null,
+    result.modelSize ?? null,
+    result.requestedLanguage ?? null,
+    result.numSpeakers ?? null,
+    result.revision ?? null,
+    result.parentAnalysisId ?? null,
+    result.translatedFrom ?? null,
+    result.translationProvider ?? null,
     result.createdAt
   );
 
   logger.info("Saved speech analysis", result.analysisId);
 }
 
+// Transcription Chunk Cache (partial results of an in-progress transcription)
+export function getTranscriptionChunks(
+  videoPath: string,
+  chunkKey: string
+): TranscriptionChunk[] {
+  if (!db) throw new Error("Cache not initialized");
+
+  const rows = db
+    .prepare(
+      "SELECT * FROM speech_chunks WHERE video_path = ? AND chunk_key = ? ORDER BY chunk_index"
+    )
+    .all(videoPath, chunkKey) as Array<{
+      video_path: string;
+      chunk_key: string;
+      chunk_index: number;
+      start: number;
+      end: number;
+      segments: string;
+      words: string;
+      language: string | null;
+      language_probability: number | null;
+      created_at: number;
+    }>;
+
+  return rows.map((row) => ({
+    videoPath: row.video_path,
+    chunkKey: row.chunk_key,
+    index: row.chunk_index,
+    start: row.start,
+    end: row.end,
+    segments: JSON.parse(row.segments),
+    words: JSON.parse(row.words),
+    language: row.language ?? undefined,
+    languageProbability: row.language_probability ?? undefined,
+    createdAt: row.created_at,
+  }));
+}
+
+export function saveTranscriptionChunk(chunk: TranscriptionChunk): void {
+  if (!db) throw new Error("Cache not initialized");
+
+  db.prepare(
+    `INSERT OR REPLACE INTO speech_chunks
+     (video_path, chunk_key, chunk_index, start, end, segments, words,
+      language, language_probability, created_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+  ).run(
+    chunk.videoPath,
+    chunk.chunkKey,
+    chunk.index,
+    chunk.start,
+    chunk.end,
+    JSON.stringify(chunk.segments),
+    JSON.stringify(chunk.words),
+    chunk.language ?? null,
+    chunk.languageProbability ?? null,
+    chunk.createdAt
+  );
+}
+
+export function clearTranscriptionChunks(
+  videoPath: string,
+  chunkKey: string
+): void {
+  if (!db) throw new Error("Cache not initialized");
+
+  db.prepare(
+    "DELETE FROM speech_chunks WHERE video_path = ? AND chunk_key = ?"
+  ).run(videoPath, chunkKey);
+}
+
+// Frame Analysis Cache (frames of an in-progress visual analysis, keyed by
+// timestamp and by the provider/model/prompt that produced them)
+function frameTimestampKey(timestamp: number): number {
+  return Math.round(timestamp * 1000) / 1000;
+}
+
+export function getFrameAnalyses(
+  videoPath: string,
+  frameKey: string
+): FrameAnalysis[] {
+  if (!db) throw new Error("Cache not initialized");
+
+  const rows = db
+    .prepare(
+      "SELECT analysis FROM frame_analyses WHERE video_path = ? AND frame_key = ? ORDER BY timestamp"
+    )
+    .all(videoPath, frameKey) as Array<{ analysis: string }>;
+
+  return rows.map((row) => JSON.parse(row.analysis));
+}
+
+export function saveFrameAnalysis(
+  videoPath: string,
+  frameKey: string,
+  analysis: FrameAnalysis
+): void {
+  if (!db) throw new Error("Cache not initialized");
+
+  db.prepare(
+    `INSERT OR REPLACE INTO frame_analyses (video_path, frame_key, timestamp, analysis, created_at)
+     VALUES (?, ?, ?, ?, ?)`
+  ).run(
+    videoPath,
+    frameKey,
+    frameTimestampKey(analysis.timestamp),
+    JSON.stringify(analysis),
+    Date.now()
+  );
+}
+
+export function clearFrameAnalyses(videoPath: string, frameKey: string): void {
+  if (!db) throw new Error("Cache not initialized");
+
+  db.prepare(
+    "DELETE FROM frame_analyses WHERE video_path = ? AND frame_key = ?"
+  ).run(videoPath, frameKey);
+}
+
+// Embedding Cache (one vector per transcript segment or frame description,
+// keyed by the provider/model that produced it; textHash tells whether the
+// text has changed since it was embedded)
+export interface StoredEmbedding {
+  itemKey: string;
+  textHash: string;
+  vector: Float32Array;
+}
+
+export function getEmbeddings(
+  videoPath: string,
+  providerKey: string,
+  sourceType: EmbeddingSourceType
+): StoredEmbedding[] {
+  if (!db) throw new Error("Cache not initialized");
+
+  const rows = db
+    .prepare(
+      "SELECT item_key, text_hash, vector FROM embeddings WHERE video_path = ? AND provider_key = ? AND source_type = ?"
+    )
+    .all(videoPath, providerKey, sourceType) as Array<{
+    item_key: string;
+    text_hash: string;
+    vector: Buffer;
+  }>;
+
+  return rows.map((row) => {
+    // Copy out of the row buffer, whose byte offset may not be 4-aligned
+    const bytes = new Uint8Array(row.vector);
+    return {
+      itemKey: row.item_key,
+      textHash: row.text_hash,
+      vector: new Float32Array(bytes.buffer, 0, bytes.byteLength / 4),
+    };
+  });
+}
+
+export function saveEmbeddings(
+  videoPath: string,
+  providerKey: string,
+  sourceType: EmbeddingSourceType,
+  embeddings: Array<{ itemKey: string; textHash: string; vector: ArrayLike<number> }>
+): void {
+  if (!db) throw new Error("Cache not initialized");
+
+  const insert = db.prepare(
+    `INSERT OR REPLACE INTO embeddings (video_path, provider_key, source_type, item_key, text_hash, vector, created_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?)`
+  );
+  const now = Date.now();
+
+  db.transaction(() => {
+    for (const embedding of embeddings) {
+      insert.run(
+        videoPath,
+        providerKey,
+        sourceType,
+        embedding.itemKey,
+        embedding.textHash,
+        Buffer.from(Float32Array.from(embedding.vector).buffer),
+        now
+      );
+    }
+  })();
+}
+
 // Visual Analysis Cache
 export function getVisualAnalysis(
   videoPath: string
@@ -134,8 +517,22 @@ export function getVisualAnalysis(
       video_path: string;
       duration: number;
       fps: number;
+      sampling: string | null;
       frames_analyzed: number;
       frames: string;
+      shots: string | null;
+      api_calls_saved: number | null;
+      provider: string | null;
+      model: string | null;
+      attribute_schema_key: string | null;
+      ocr_provider: string | null;
+      person_detector: string | null;
+      person_tracks: string | null;
+      dedupe: number | null;
+      dedupe_threshold: number | null;
+      scene_threshold: number | null;
+      frames_per_shot: number | null;
+      frames_skipped: number | null;
       created_at: number;
     } | undefined;
 
@@ -146,8 +543,22 @@ export function getVisualAnalysis(
     videoPath: row.video_path,
     duration: row.duration,
     fps: row.fps,
+    sampling: (row.sampling as VisualAnalysisResult["sampling"]) ?? undefined,
+    provider: row.provider ?? undefined,
+    model: row.model ?? undefined,
+    attributeSchemaKey: row.attribute_schema_key ?? undefined,
+    ocrProvider: row.ocr_provider ?? undefined,
+    personDetector: row.person_detector ?? undefined,
     framesAnalyzed: row.frames_analyzed,
+    apiCallsSaved: row.api_calls_saved ?? undefined,
+    dedupe: row.dedupe === null ? undefined : row.dedupe === 1,
+    dedupeThreshold: row.dedupe_threshold ?? undefined,
+    sceneThreshold: row.scene_threshold ?? undefined,
+    framesPerShot: row.frames_per_shot ?? undefined,
+    framesSkipped: row.frames_skipped ?? undefined,
     frames: JSON.parse(row.frames),
+    shots: row.shots ? JSON.parse(row.shots) : undefined,
+    personTracks: row.person_tracks ? JSON.parse(row.person_tracks) : undefined,
     createdAt: row.created_at,
   };
 }
@@ -157,21 +568,252 @@ export function saveVisualAnalysis(result: VisualAnalysisResult): void {
 
   db.prepare(
     `INSERT OR REPLACE INTO visual_analysis
-     (analysis_id, video_path, duration, fps, frames_analyzed, frames, created_at)
-     VALUES (?, ?, ?, ?, ?, ?, ?)`
+     (analysis_id, video_path, duration, fps, sampling, provider, model, attribute_schema_key,
+      ocr_provider, person_detector, frames_analyzed, api_calls_saved, dedupe, dedupe_threshold,
+      scene_threshold, frames_per_shot, frames_skipped, frames, shots, person_tracks, created_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
   ).run(
     result.analysisId,
     result.videoPath,
     result.duration,
     result.fps,
+    result.sampling ?? null,
+    result.provider ?? null,
+    result.model ?? null,
+    result.attributeSchemaKey ?? null,
+    result.ocrProvider ?? null,
+    result.personDetector ?? null,
     result.framesAnalyzed,
+    result.apiCallsSaved ?? null,
+    result.dedupe === undefined ? null : result.dedupe ? 1 : 0,
+    result.dedupeThreshold ?? null,
+    result.sceneThreshold ?? null,
+    result.framesPerShot ?? null,
+    result.framesSkipped ?? null,
     JSON.stringify(result.frames),
+    result.shots ? JSON.stringify(result.shots) : null,
+    result.personTracks ? JSON.stringify(result.personTracks) : null,
     result.createdAt
   );
 
   logger.info("Saved visual analysis", result.analysisId);
 }
 
+// Silence Analysis Cache
+export function getSilenceAnalysis(
+  videoPath: string,
+  thresholdDb: number,
+  minDuration: number
+): SilenceAnalysisResult | null {
+  if (!db) throw new Error("Cache not initialized");
+
+  const row = db
+    .prepare(
+      `SELECT * FROM silence_analysis
+       WHERE video_path = ? AND threshold_db = ? AND min_duration = ?
+       ORDER BY created_at DESC LIMIT 1`
+    )
+    .get(videoPath, thresholdDb, minDuration) as {
+      analysis_id: string;
+      video_path: string;
+      duration: number;
+      threshold_db: number;
+      min_duration: number;
+      silences: string;
+      created_at: number;
+    } | undefined;
+
+  if (!row) return null;
+
+  return {
+    analysisId: row.analysis_id,
+    videoPath: row.video_path,
+    duration: row.duration,
+    thresholdDb: row.threshold_db,
+    minDuration: row.min_duration,
+    silences: JSON.parse(row.silences),
+    createdAt: row.created_at,
+  };
+}
+
+export function saveSilenceAnalysis(result: SilenceAnalysisResult): void {
+  if (!db) throw new Error("Cache not initialized");
+
+  db.prepare(
+    `INSERT OR REPLACE INTO silence_analysis
+     (analysis_id, video_path, duration, threshold_db, min_duration, silences, created_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?)`
+  ).run(
+    result.analysisId,
+    result.videoPath,
+    result.duration,
+    result.thresholdDb,
+    result.minDuration,
+    JSON.stringify(result.silences),
+    result.createdAt
+  );
+
+  logger.info("Saved silence analysis", result.analysisId);
+}
+
+// Shot Detection Cache
+export function getShotAnalysis(
+  videoPath: string,
+  threshold: number,
+  minShotDuration: number
+): ShotDetectionResult | null {
+  if (!db) throw new Error("Cache not initialized");
+
+  const row = db
+    .prepare(
+      `SELECT * FROM shot_analysis
+       WHERE video_path = ? AND threshold = ? AND min_shot_duration = ?
+       ORDER BY created_at DESC LIMIT 1`
+    )
+    .get(videoPath, threshold, minShotDuration) as {
+      analysis_id: string;
+      video_path: string;
+      duration: number;
+      threshold: number;
+      min_shot_duration: number;
+      shots: string;
+      created_at: number;
+    } | undefined;
+
+  if (!row) return null;
+
+  return {
+    analysisId: row.analysis_id,
+    videoPath: row.video_path,
+    duration: row.duration,
+    threshold: row.threshold,
+    minShotDuration: row.min_shot_duration,
+    shots: JSON.parse(row.shots),
+    createdAt: row.created_at,
+  };
+}
+
+export function saveShotAnalysis(result: ShotDetectionResult): void {
+  if (!db) throw new Error("Cache not initialized");
+
+  db.prepare(
+    `INSERT OR REPLACE INTO shot_analysis
+     (analysis_id, video_path, duration, threshold, min_shot_duration, shots, created_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?)`
+  ).run(
+    result.analysisId,
+    result.videoPath,
+    result.duration,
+    result.threshold,
+    result.minShotDuration,
+    JSON.stringify(result.shots),
+    result.createdAt
+  );
+
+  logger.info("Saved shot analysis", result.analysisId);
+}
+
+// Frame Quality Cache
+export function getQualityAnalysis(videoPath: string, fps: number): QualityAnalysisResult | null {
+  if (!db) throw new Error("Cache not initialized");
+
+  const row = db
+    .prepare(
+      `SELECT * FROM quality_analysis
+       WHERE video_path = ? AND fps = ?
+       ORDER BY created_at DESC LIMIT 1`
+    )
+    .get(videoPath, fps) as {
+      analysis_id: string;
+      video_path: string;
+      duration: number;
+      fps: number;
+      samples: string;
+      created_at: number;
+    } | undefined;
+
+  if (!row) return null;
+
+  return {
+    analysisId: row.analysis_id,
+    videoPath: row.video_path,
+    duration: row.duration,
+    fps: row.fps,
+    samples: JSON.parse(row.samples),
+    createdAt: row.created_at,
+  };
+}
+
+export function saveQualityAnalysis(result: QualityAnalysisResult): void {
+  if (!db) throw new Error("Cache not initialized");
+
+  db.prepare(
+    `INSERT OR REPLACE INTO quality_analysis
+     (analysis_id, video_path, duration, fps, samples, created_at)
+     VALUES (?, ?, ?, ?, ?, ?)`
+  ).run(
+    result.analysisId,
+    result.videoPath,
+    result.duration,
+    result.fps,
+    JSON.stringify(result.samples),
+    result.createdAt
+  );
+
+  logger.info("Saved quality analysis", result.analysisId);
+}
+
+// Audio Quality Cache
+// Metrics are tied to the speech analysis (revision) whose segments they measure
+export function getAudioAnalysis(
+  videoPath: string,
+  speechAnalysisId: string
+): AudioAnalysisResult | null {
+  if (!db) throw new Error("Cache not initialized");
+
+  const row = db
+    .prepare(
+      `SELECT * FROM audio_analysis
+       WHERE video_path = ? AND speech_analysis_id = ?
+       ORDER BY created_at DESC LIMIT 1`
+    )
+    .get(videoPath, speechAnalysisId) as {
+      analysis_id: string;
+      video_path: string;
+      speech_analysis_id: string;
+      segments: string;
+      created_at: number;
+    } | undefined;
+
+  if (!row) return null;
+
+  return {
+    analysisId: row.analysis_id,
+    videoPath: row.video_path,
+    speechAnalysisId: row.speech_analysis_id,
+    segments: JSON.parse(row.segments),
+    createdAt: row.created_at,
+  };
+}
+
+export function saveAudioAnalysis(result: AudioAnalysisResult): void {
+  if (!db) throw new Error("Cache not initialized");
+
+  db.prepare(
+    `INSERT OR REPLACE INTO audio_analysis
+     (analysis_id, video_path, speech_analysis_id, segments, created_at)
+     VALUES (?, ?, ?, ?, ?)`
+  ).run(
+    result.analysisId,
+    result.videoPath,
+    result.speechAnalysisId,
+    JSON.stringify(result.segments),
+    result.createdAt
+  );
+
+  logger.info("Saved audio analysis", result.analysisId);
+}
+
 // Analysis Status
 export function getAnalysisStatus(analysisId: string): AnalysisStatus | null {
   if (!db) throw new Error("Cache not initialized");
@@ -185,6 +827,8 @@ export function getAnalysisStatus(analysisId: string): AnalysisStatus | null {
       status: string;
       progress: number;
       error: string | null;
+      frames_done: number | null;
+      frames_remaining: number | null;
       started_at: number;
       completed_at: number | null;
     } | undefined;
@@ -194,10 +838,12 @@ export function getAnalysisStatus(analysisId: string): AnalysisStatus | null {
   return {
     analysisId: row.analysis_id,
     videoPath: row.video_path,
-    type: row.type as "speech" | "visual",
+    type: row.type as AnalysisStatus["type"],
     status: row.status as AnalysisStatus["status"],
     progress: row.progress,
     error: row.error || undefined,
+    framesDone: row.frames_done ?? undefined,
+    framesRemaining: row.frames_remaining ?? undefined,
     startedAt: row.started_at,
     completedAt: row.completed_at || undefined,
   };
@@ -215,6 +861,8 @@ export function getAnalysisStatusByVideo(videoPath: string): AnalysisStatus[] {
       status: string;
       progress: number;
       error: string | null;
+      frames_done: number | null;
+      frames_remaining: number | null;
       started_at: number;
       completed_at: number | null;
     }>;
@@ -222,10 +870,12 @@ export function getAnalysisStatusByVideo(videoPath: string): AnalysisStatus[] {
   return rows.map((row) => ({
     analysisId: row.analysis_id,
     videoPath: row.video_path,
-    type: row.type as "speech" | "visual",
+    type: row.type as AnalysisStatus["type"],
     status: row.status as AnalysisStatus["status"],
     progress: row.progress,
     error: row.error || undefined,
+    framesDone: row.frames_done ?? undefined,
+    framesRemaining: row.frames_remaining ?? undefined,
     startedAt: row.started_at,
     completedAt: row.completed_at || undefined,
   }));
@@ -236,8 +886,9 @@ export function updateAnalysisStatus(status: AnalysisStatus): void {
 
   db.prepare(
     `INSERT OR REPLACE INTO analysis_status
-     (analysis_id, video_path, type, status, progress, error, started_at, completed_at)
-     VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+     (analysis_id, video_path, type, status, progress, error, frames_done,
+      frames_remaining, started_at, completed_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
   ).run(
     status.analysisId,
     status.videoPath,
@@ -245,6 +896,8 @@ export function updateAnalysisStatus(status: AnalysisStatus): void {
     status.status,
     status.progress,
     status.error || null,
+    status.framesDone ?? null,
+    status.framesRemaining ?? null,
     status.startedAt,
     status.completedAt || null
   );
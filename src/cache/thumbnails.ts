@@ -0,0 +1,52 @@
+import ffmpeg from "fluent-ffmpeg";
+import { createHash } from "crypto";
+import * as path from "path";
+import * as fs from "fs";
+import { CACHE_DIR } from "./store.js";
+
+// Extracted frames live in a temp directory that is removed after analysis,
+// so a small JPEG of each analyzed frame is kept in the cache instead:
+// ~/.premiere-mcp/cache/thumbnails/<video hash>/<timestamp ms>.jpg
+
+const THUMBNAIL_DIR = path.join(CACHE_DIR, "thumbnails");
+const THUMBNAIL_WIDTH = 320;
+
+export function getThumbnailPath(videoPath: string, timestamp: number): string {
+  const videoKey = createHash("sha256").update(videoPath).digest("hex").slice(0, 16);
+  return path.join(THUMBNAIL_DIR, videoKey, `${Math.round(timestamp * 1000)}.jpg`);
+}
+
+// Downscale an extracted frame into the thumbnail cache and return its path
+export async function saveThumbnail(
+  videoPath: string,
+  timestamp: number,
+  framePath: string
+): Promise<string> {
+  const thumbnailPath = getThumbnailPath(videoPath, timestamp);
+  await fs.promises.mkdir(path.dirname(thumbnailPath), { recursive: true });
+
+  await new Promise<void>((resolve, reject) => {
+    ffmpeg(framePath)
+      .videoFilters([`scale='min(${THUMBNAIL_WIDTH},iw)':-2`])
+      .frames(1)
+      .outputOptions(["-q:v", "5"])
+      .output(thumbnailPath)
+      .on("end", () => resolve())
+      .on("error", (err) => reject(err))
+      .run();
+  });
+
+  return thumbnailPath;
+}
+
+// Read a cached thumbnail as an MCP image content block
+export async function readThumbnail(
+  thumbnailPath: string
+): Promise<{ type: "image"; data: string; mimeType: string } | null> {
+  try {
+    const data = await fs.promises.readFile(thumbnailPath);
+    return { type: "image", data: data.toString("base64"), mimeType: "image/jpeg" };
+  } catch {
+    return null;
+  }
+}
@@ -9,8 +9,19 @@ import { logger } from "./utils/logger.js";
 // Import tool handlers and schemas
 import { analyzeSpeechSchema, handleAnalyzeSpeech } from "./tools/analyze-speech.js";
 import { analyzeVisualSchema, handleAnalyzeVisual } from "./tools/analyze-visual.js";
+import { analyzeAudioSchema, handleAnalyzeAudio } from "./tools/analyze-audio.js";
+import { detectSilenceSchema, handleDetectSilence } from "./tools/detect-silence.js";
+import { detectShotsSchema, handleDetectShots } from "./tools/detect-shots.js";
+import { detectFillersSchema, handleDetectFillers } from "./tools/detect-fillers.js";
 import { findSegmentsSchema, handleFindSegments } from "./tools/find-segments.js";
+import { getFrameThumbnailSchema, handleGetFrameThumbnail } from "./tools/get-frame-thumbnail.js";
+import { findUnusableRangesSchema, handleFindUnusableRanges } from "./tools/find-unusable-ranges.js";
+import { exportTranscriptSchema, handleExportTranscript } from "./tools/export-transcript.js";
+import { editTranscriptSchema, handleEditTranscript } from "./tools/edit-transcript.js";
+import { translateTranscriptSchema, handleTranslateTranscript } from "./tools/translate-transcript.js";
 import { addToTimelineSchema, handleAddToTimeline } from "./tools/add-to-timeline.js";
+import { importCaptionsSchema, handleImportCaptions } from "./tools/import-captions.js";
+import { paperEditSchema, handlePaperEdit } from "./tools/paper-edit.js";
 import { getProjectInfoSchema, handleGetProjectInfo } from "./tools/get-project-info.js";
 import { getAnalysisStatusSchema, handleGetAnalysisStatus } from "./tools/get-analysis-status.js";
 import {
@@ -53,18 +64,81 @@ async function main() {
 
   server.tool(
     "analyze_video_visual",
-    "Extract frames and analyze visual content using Claude Vision. Returns scene descriptions, objects, and classifications.",
+    "Extract frames and analyze visual content with a vision provider (Claude Vision by default, a local OpenAI-compatible server, or an offline image-statistics provider). Returns scene descriptions, objects, and classifications.",
     analyzeVisualSchema,
     async (params) => handleAnalyzeVisual(params)
   );
 
+  server.tool(
+    "analyze_audio_quality",
+    "Measure each transcript segment's audio locally with ffmpeg: words per minute, integrated loudness (LUFS), peak level, clipping and background noise. Results are cached and let find_video_segments filter for clean takes or rank by quality. Requires analyze_video_speech first.",
+    analyzeAudioSchema,
+    async (params) => handleAnalyzeAudio(params)
+  );
+
+  server.tool(
+    "detect_shots",
+    "Detect shot boundaries locally with ffmpeg scene-change scores and return each shot's start and end time. Results are cached and used by analyze_video_visual's shot sampling.",
+    detectShotsSchema,
+    async (params) => handleDetectShots(params)
+  );
+
+  server.tool(
+    "detect_silence",
+    "Detect silent and dead-air ranges in video audio below a dB threshold. Can also return the 'keep' ranges between silences for assembling onto the timeline.",
+    detectSilenceSchema,
+    async (params) => handleDetectSilence(params)
+  );
+
+  server.tool(
+    "detect_filler_words",
+    "Flag filler words ('um', 'you know'), repeated words and false starts using word timings from analyze_video_speech. Returns padded cut ranges for removal.",
+    detectFillersSchema,
+    async (params) => handleDetectFillers(params)
+  );
+
   server.tool(
     "find_video_segments",
-    "Search analyzed video data to find specific segments by speech content or visual description. Requires running analyze_video_speech or analyze_video_visual first.",
+    "Search analyzed video data to find specific segments by speech content or visual description, by keyword or by meaning (semantic mode). Requires running analyze_video_speech or analyze_video_visual first.",
     findSegmentsSchema,
     async (params) => handleFindSegments(params)
   );
 
+  server.tool(
+    "find_unusable_ranges",
+    "Find soft-focus, blown-out, too-dark and shaky ranges from local frame quality metrics (those measured by analyze_video_visual, or a quality-only pass that needs no vision provider), or the usable ranges between them, so bad moments can be left out of edits.",
+    findUnusableRangesSchema,
+    async (params) => handleFindUnusableRanges(params)
+  );
+
+  server.tool(
+    "get_frame_thumbnail",
+    "Show the cached thumbnail of the analyzed frame nearest to a timestamp, e.g. to look at the frame a visual search hit came from. Requires analyze_video_visual first.",
+    getFrameThumbnailSchema,
+    async (params) => handleGetFrameThumbnail(params)
+  );
+
+  server.tool(
+    "export_transcript",
+    "Export the cached transcript as an SRT, WebVTT, plain text or JSON caption file, re-flowed by line length, line count and cue duration.",
+    exportTranscriptSchema,
+    async (params) => handleExportTranscript(params)
+  );
+
+  server.tool(
+    "edit_transcript",
+    "Correct the cached transcript: replace segment text, split or merge segments and nudge word timings. Saves a new revision (the previous one is kept) that find_video_segments and caption export use, and can learn corrections into the project glossary.",
+    editTranscriptSchema,
+    async (params) => handleEditTranscript(params)
+  );
+
+  server.tool(
+    "translate_transcript",
+    "Translate the cached transcript into one or more languages, keeping the original segment timings. Each translation is cached as a language variant that export_transcript, import_captions_to_timeline and find_video_segments can use via their language parameter.",
+    translateTranscriptSchema,
+    async (params) => handleTranslateTranscript(params)
+  );
+
   server.tool(
     "add_segment_to_timeline",
     "Add a video segment to the Premiere Pro timeline. Requires the MCP Bridge panel to be open in Premiere Pro.",
@@ -72,6 +146,20 @@ async function main() {
     async (params) => handleAddToTimeline(params)
   );
 
+  server.tool(
+    "import_captions_to_timeline",
+    "Generate an SRT from the cached transcript, import it into the Premiere project and place it as a caption track on the active sequence. Requires the MCP Bridge panel to be open in Premiere Pro.",
+    importCaptionsSchema,
+    async (params) => handleImportCaptions(params)
+  );
+
+  server.tool(
+    "assemble_paper_edit",
+    "Build a timeline from an edited transcript (lines deleted or reordered): matches the text against the cached word timings, assembles the kept ranges with handles onto the active sequence and returns the edit decision list. Requires the MCP Bridge panel unless dryRun is set.",
+    paperEditSchema,
+    async (params) => handlePaperEdit(params)
+  );
+
   server.tool(
     "get_premiere_project_info",
     "Get information about the current Premiere Pro project, including sequences and project items.",
@@ -5,6 +5,7 @@ import type {
   PremiereResponse,
   ProjectInfo,
   TimelineInsertResult,
+  CaptionImportResult,
   ColorCorrections,
   ColorCorrectionResult,
   ColorCorrectionRangeResult,
@@ -239,6 +240,29 @@ class PremiereBridge {
     return response.success && response.data !== null;
   }
 
+  async importCaptions(
+    captionPath: string,
+    startTime: number = 0
+  ): Promise<CaptionImportResult> {
+    const response = await this.sendCommand({
+      id: uuidv4(),
+      type: "importCaptions",
+      params: {
+        captionPath,
+        startTime,
+      },
+    });
+
+    if (!response.success) {
+      return {
+        success: false,
+        error: response.error || "Failed to import captions",
+      };
+    }
+
+    return response.data as CaptionImportResult;
+  }
+
   async applyColorCorrection(
     targetType: "timeline_clip" | "project_item",
     corrections: ColorCorrections,
@@ -0,0 +1,74 @@
+import { z } from "zod";
+import { analyzeAudioQuality } from "../analyzer/audio-metrics.js";
+import { logger } from "../utils/logger.js";
+
+export const analyzeAudioSchema = {
+  videoPath: z.string().describe("Absolute path to the video file. Requires a speech analysis"),
+  forceReanalyze: z
+    .boolean()
+    .default(false)
+    .describe("Force re-analysis even if cached results exist"),
+};
+
+export async function handleAnalyzeAudio(params: {
+  videoPath: string;
+  forceReanalyze?: boolean;
+}): Promise<{ content: Array<{ type: "text"; text: string }> }> {
+  const { videoPath, forceReanalyze = false } = params;
+
+  logger.info("Analyzing audio quality for video:", videoPath);
+
+  try {
+    const result = await analyzeAudioQuality(videoPath, {
+      forceReanalyze,
+    });
+
+    const segments = result.segments;
+    const average = (values: number[]) =>
+      values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+
+    const summary = {
+      analysisId: result.analysisId,
+      videoPath: result.videoPath,
+      speechAnalysisId: result.speechAnalysisId,
+      segmentCount: segments.length,
+      cleanSegments: segments.filter((s) => s.clean).length,
+      clippedSegments: segments.filter((s) => s.clippedSamples > 0).length,
+      averageWordsPerMinute: Math.round(average(segments.map((s) => s.wordsPerMinute))),
+      averageLoudnessLufs: Number(average(segments.map((s) => s.integratedLufs)).toFixed(1)),
+      maxPeakDb: segments.length > 0 ? Math.max(...segments.map((s) => s.peakDb)) : null,
+      averageNoiseFloorDb: Number(average(segments.map((s) => s.noiseFloorDb)).toFixed(1)),
+      segments: segments.map((s) => ({
+        segmentId: s.segmentId,
+        start: s.start.toFixed(2),
+        end: s.end.toFixed(2),
+        wordsPerMinute: s.wordsPerMinute,
+        loudnessLufs: s.integratedLufs,
+        peakDb: s.peakDb,
+        noiseFloorDb: s.noiseFloorDb,
+        clippedSamples: s.clippedSamples,
+        qualityScore: s.qualityScore,
+        clean: s.clean,
+      })),
+    };
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(summary, null, 2),
+        },
+      ],
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify({ error: errorMessage }, null, 2),
+        },
+      ],
+    };
+  }
+}
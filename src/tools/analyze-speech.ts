@@ -7,7 +7,7 @@ export const analyzeSpeechSchema = {
   language: z
     .string()
     .optional()
-    .describe("Language code (e.g., 'en', 'es'). Auto-detect if not specified"),
+    .describe("Language code (e.g., 'en', 'es'). Auto-detect if not specified: Whisper detects each chunk's language, and each segment is then tagged by its own text where that is clearly English, Spanish, French, German, Italian, Portuguese or Dutch, so mixed-language media gets per-segment language tags. The language probability is only reported by the whisper-cpp-server and faster-whisper backends"),
   modelSize: z
     .enum(["tiny", "tiny.en", "base", "base.en", "small", "small.en", "medium", "medium.en", "large"])
     .default("base")
@@ -16,6 +16,45 @@ export const analyzeSpeechSchema = {
     .boolean()
     .default(false)
     .describe("Force re-analysis even if cached results exist"),
+  backend: z
+    .string()
+    .optional()
+    .describe("Transcription backend: 'nodejs-whisper', 'whisper-cpp-server', 'faster-whisper' or 'http'. Defaults to TRANSCRIPTION_BACKEND or 'nodejs-whisper'"),
+  chunkDuration: z
+    .number()
+    .min(30)
+    .default(600)
+    .describe("Length in seconds of the chunks long recordings are transcribed in. Finished chunks are cached so an interrupted run resumes. Whisper transcribes each chunk in the language it detected for it, so use shorter chunks (e.g., 60) for media that switches language often"),
+  concurrency: z
+    .number()
+    .int()
+    .min(1)
+    .max(8)
+    .default(1)
+    .describe("Chunks transcribed in parallel. Keep at 1 for the nodejs-whisper backend"),
+  vocabulary: z
+    .array(z.string())
+    .optional()
+    .describe("Names, brands or product codes to bias transcription towards, on top of the project glossary (.premiere-mcp-glossary.json next to the footage). Passed to Whisper as its initial prompt, which the default nodejs-whisper backend cannot do: use whisper-cpp-server, faster-whisper or http for it to take effect. Changing it re-transcribes"),
+  initialPrompt: z
+    .string()
+    .optional()
+    .describe("Initial prompt giving Whisper context about the recording. Ignored by the nodejs-whisper backend, like vocabulary. Changing it re-transcribes"),
+  replacements: z
+    .record(z.string())
+    .optional()
+    .describe("Post-processing replacements applied to segments and words, e.g. { \"premier\": \"Premiere\" }. Applied to a cached transcript too, along with the project glossary's, without re-transcribing; works with every backend"),
+  diarize: z
+    .boolean()
+    .default(false)
+    .describe("Label each segment and word with a speaker ID (runs locally, offline)"),
+  numSpeakers: z
+    .number()
+    .int()
+    .min(1)
+    .max(10)
+    .optional()
+    .describe("Number of speakers to detect when diarizing. Estimated if not specified"),
 };
 
 export async function handleAnalyzeSpeech(params: {
@@ -23,8 +62,29 @@ export async function handleAnalyzeSpeech(params: {
   language?: string;
   modelSize?: WhisperModelSize;
   forceReanalyze?: boolean;
+  backend?: string;
+  chunkDuration?: number;
+  concurrency?: number;
+  vocabulary?: string[];
+  initialPrompt?: string;
+  replacements?: Record<string, string>;
+  diarize?: boolean;
+  numSpeakers?: number;
 }): Promise<{ content: Array<{ type: "text"; text: string }> }> {
-  const { videoPath, language, modelSize = "base", forceReanalyze = false } = params;
+  const {
+    videoPath,
+    language,
+    modelSize = "base",
+    forceReanalyze = false,
+    backend,
+    chunkDuration = 600,
+    concurrency = 1,
+    vocabulary,
+    initialPrompt,
+    replacements,
+    diarize = false,
+    numSpeakers,
+  } = params;
 
   logger.info("Analyzing speech in video:", videoPath);
 
@@ -33,16 +93,53 @@ export async function handleAnalyzeSpeech(params: {
       modelSize,
       language,
       forceReanalyze,
+      backend,
+      chunkDuration,
+      concurrency,
+      vocabulary,
+      initialPrompt,
+      replacements,
+      diarize,
+      numSpeakers,
     });
 
+    const averageWordConfidence =
+      result.words.length > 0
+        ? result.words.reduce((sum, w) => sum + w.confidence, 0) /
+          result.words.length
+        : null;
+
     const summary = {
       analysisId: result.analysisId,
       videoPath: result.videoPath,
       duration: result.duration,
       language: result.language,
+      languageProbability: result.languageProbability,
+      languages: result.languages?.map((lang) => ({
+        language: lang,
+        segmentCount: result.segments.filter((s) => s.language === lang).length,
+      })),
+      glossaryVersion: result.glossaryVersion,
       segmentCount: result.segments.length,
       wordCount: result.words.length,
-      transcript: result.segments.map((s) => s.text).join(" "),
+      averageWordConfidence:
+        averageWordConfidence !== null
+          ? Number(averageWordConfidence.toFixed(3))
+          : null,
+      lowConfidenceWords: result.words.filter((w) => w.confidence < 0.5).length,
+      speakers: result.speakers?.map((speaker) => {
+        const turns = result.segments.filter((s) => s.speaker === speaker);
+        return {
+          speaker,
+          segmentCount: turns.length,
+          speakingTime: Number(
+            turns.reduce((sum, s) => sum + (s.end - s.start), 0).toFixed(2)
+          ),
+        };
+      }),
+      transcript: result.speakers
+        ? result.segments.map((s) => `[${s.speaker}] ${s.text}`).join("\n")
+        : result.segments.map((s) => s.text).join(" "),
     };
 
     return {
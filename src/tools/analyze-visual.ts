@@ -1,5 +1,6 @@
 import { z } from "zod";
 import { analyzeVideoVisual } from "../analyzer/vision-analyzer.js";
+import { attributeSchemaSchema, type AttributeSchema } from "../analyzer/frame-schemas.js";
 import { logger } from "../utils/logger.js";
 
 export const analyzeVisualSchema = {
@@ -7,13 +8,98 @@ export const analyzeVisualSchema = {
   fps: z
     .number()
     .default(1)
-    .describe("Frames per second to extract (0.5-5 recommended)"),
+    .describe("Frames per second to extract (0.5-5 recommended). Ignored with shot sampling"),
+  sampling: z
+    .enum(["fps", "shots"])
+    .default("fps")
+    .describe("'fps' samples at a fixed rate; 'shots' detects shot boundaries and analyzes representative frames of each shot, so short shots aren't missed and static ones aren't paid for repeatedly"),
+  sceneThreshold: z
+    .number()
+    .min(0.05)
+    .max(1)
+    .default(0.3)
+    .describe("Scene-change score (0-1) that counts as a cut in shot sampling"),
+  framesPerShot: z
+    .number()
+    .int()
+    .min(1)
+    .max(5)
+    .default(1)
+    .describe("Frames analyzed per shot in shot sampling"),
+  maxFrames: z
+    .number()
+    .int()
+    .min(1)
+    .default(500)
+    .describe("Most frames extracted per analysis. Frames (and shots) past the limit are skipped and reported as framesSkipped/shotsSkipped; narrow startTime/endTime or raise the limit to cover them"),
+  dedupe: z
+    .boolean()
+    .default(true)
+    .describe("Skip vision calls for frames that look the same as the last analyzed frame (perceptual hash) and reuse its analysis"),
+  dedupeThreshold: z
+    .number()
+    .int()
+    .min(0)
+    .max(32)
+    .default(6)
+    .describe("Maximum differing hash bits (of 64) for a frame to count as a duplicate"),
   startTime: z.number().optional().describe("Start time in seconds"),
   endTime: z.number().optional().describe("End time in seconds"),
   prompt: z
     .string()
     .optional()
     .describe("Custom analysis prompt for each frame"),
+  preset: z
+    .enum(["product-shots", "sports", "interview-framing"])
+    .optional()
+    .describe("Built-in attribute schema to extract per frame (e.g., framing and people count for 'interview-framing')"),
+  attributeSchema: attributeSchemaSchema
+    .optional()
+    .describe("JSON schema of extra per-frame attributes, e.g. {\"properties\": {\"framing\": {\"type\": \"string\", \"enum\": [\"close-up\", \"wide\"]}}}. Takes precedence over preset. Values that don't match the schema are dropped"),
+  provider: z
+    .string()
+    .optional()
+    .describe("Vision provider: 'claude', 'http' (OpenAI-compatible local server) or 'offline' (deterministic image statistics, no API calls). Defaults to VISION_PROVIDER or 'claude'"),
+  model: z
+    .string()
+    .optional()
+    .describe("Model override for this call (e.g., 'claude-3-5-haiku-20241022')"),
+  maxTokens: z
+    .number()
+    .int()
+    .min(50)
+    .optional()
+    .describe("Maximum tokens per frame response"),
+  ocr: z
+    .boolean()
+    .default(false)
+    .describe("Also read on-screen text (slides, lower thirds, signage) with bounding boxes, searchable with find_video_segments"),
+  ocrProvider: z
+    .string()
+    .optional()
+    .describe("OCR engine: 'tesseract' (local Tesseract CLI) or 'vision' (the vision provider, one extra call per frame). Defaults to OCR_PROVIDER or 'tesseract'"),
+  detectPeople: z
+    .boolean()
+    .default(false)
+    .describe("Detect people in each frame and follow them with track IDs, bounding boxes and shot size (wide, medium, close-up), searchable with find_video_segments"),
+  personDetector: z
+    .string()
+    .optional()
+    .describe("Person detector: 'vision' (the vision provider, one extra call per frame) or 'http' (a local detection model at PERSON_DETECTOR_URL; people are followed across cuts by clothing colour, as it gives no descriptions). Defaults to PERSON_DETECTOR or 'vision'"),
+  concurrency: z
+    .number()
+    .int()
+    .min(1)
+    .max(20)
+    .default(5)
+    .describe("Vision calls in flight at once. Lower it if the provider keeps rate limiting"),
+  maxRetries: z
+    .number()
+    .int()
+    .min(0)
+    .max(10)
+    .default(3)
+    .describe("Retries per frame (exponential backoff, honoring rate-limit headers) before the frame is recorded as failed"),
   forceReanalyze: z
     .boolean()
     .default(false)
@@ -23,17 +109,51 @@ export const analyzeVisualSchema = {
 export async function handleAnalyzeVisual(params: {
   videoPath: string;
   fps?: number;
+  sampling?: "fps" | "shots";
+  sceneThreshold?: number;
+  framesPerShot?: number;
+  maxFrames?: number;
+  dedupe?: boolean;
+  dedupeThreshold?: number;
+  provider?: string;
+  model?: string;
+  maxTokens?: number;
   startTime?: number;
   endTime?: number;
   prompt?: string;
+  preset?: string;
+  attributeSchema?: AttributeSchema;
+  ocr?: boolean;
+  ocrProvider?: string;
+  detectPeople?: boolean;
+  personDetector?: string;
+  concurrency?: number;
+  maxRetries?: number;
   forceReanalyze?: boolean;
 }): Promise<{ content: Array<{ type: "text"; text: string }> }> {
   const {
     videoPath,
     fps = 1,
+    sampling = "fps",
+    sceneThreshold = 0.3,
+    framesPerShot = 1,
+    maxFrames = 500,
+    dedupe = true,
+    dedupeThreshold = 6,
+    provider,
+    model,
+    maxTokens,
     startTime,
     endTime,
     prompt,
+    preset,
+    attributeSchema,
+    ocr = false,
+    ocrProvider,
+    detectPeople = false,
+    personDetector,
+    concurrency = 5,
+    maxRetries = 3,
     forceReanalyze = false,
   } = params;
 
@@ -42,23 +162,73 @@ export async function handleAnalyzeVisual(params: {
   try {
     const result = await analyzeVideoVisual(videoPath, {
       fps,
+      sampling,
+      sceneThreshold,
+      framesPerShot,
+      maxFrames,
+      dedupe,
+      dedupeThreshold,
+      provider,
+      model,
+      maxTokens,
       startTime,
       endTime,
       prompt,
+      preset,
+      attributeSchema,
+      ocr,
+      ocrProvider,
+      detectPeople,
+      personDetector,
+      concurrency,
+      maxRetries,
       forceReanalyze,
     });
 
+    const framesSkipped = result.framesSkipped ?? 0;
+    const analyzedShots = new Set(result.frames.map((f) => f.shotIndex));
+    const shotsSkipped = result.shots?.filter((s) => !analyzedShots.has(s.index)).length;
+
     const summary = {
       analysisId: result.analysisId,
       videoPath: result.videoPath,
       duration: result.duration,
       fps: result.fps,
+      sampling: result.sampling ?? "fps",
+      provider: result.provider ?? "claude",
+      model: result.model,
+      ocrProvider: result.ocrProvider,
+      personDetector: result.personDetector,
+      personTracks: result.personTracks,
+      shotCount: result.shots?.length,
       framesAnalyzed: result.framesAnalyzed,
+      framesSkipped,
+      shotsSkipped,
+      warning:
+        framesSkipped > 0
+          ? `Frame limit reached: ${framesSkipped} frames${
+              shotsSkipped ? ` (${shotsSkipped} shots)` : ""
+            } after ${result.frames[result.frames.length - 1].timestamp.toFixed(1)}s were not analyzed`
+          : undefined,
+      apiCallsSaved: result.apiCallsSaved ?? 0,
+      framesFailed: result.frames.filter((f) => f.error).length,
+      ocrFailed: result.ocrProvider
+        ? result.frames.filter((f) => !f.error && f.text === undefined).length
+        : undefined,
+      personDetectionFailed: result.personDetector
+        ? result.frames.filter((f) => !f.error && f.people === undefined).length
+        : undefined,
       scenes: result.frames.map((f) => ({
         timestamp: f.timestamp,
+        shotIndex: f.shotIndex,
+        duplicateOf: f.duplicateOf,
         scene: f.scene,
         description: f.description,
         objects: f.objects,
+        attributes: f.attributes,
+        text: f.text?.map((t) => t.text),
+        people: f.people?.map((p) => ({ trackId: p.trackId, shotSize: p.shotSize })),
+        error: f.error,
       })),
     };
 
@@ -0,0 +1,153 @@
+import { z } from "zod";
+import { getSpeechAnalysis } from "../cache/store.js";
+import { detectFillers, mergeCutRanges } from "../analyzer/filler-detector.js";
+import { logger } from "../utils/logger.js";
+
+export const detectFillersSchema = {
+  videoPath: z.string().describe("Path to the analyzed video"),
+  language: z
+    .string()
+    .optional()
+    .describe("Language of the filler dictionary (e.g., 'en', 'es'). Uses the transcript language if not specified"),
+  fillerWords: z
+    .array(z.string())
+    .optional()
+    .describe("Custom filler words or phrases, replacing the language dictionary (e.g., ['um', 'you know'])"),
+  discourseMarkers: z
+    .boolean()
+    .default(false)
+    .describe("Also flag discourse markers ('you know', 'I mean', 'bueno'), but only when spoken on their own between pauses"),
+  padding: z
+    .number()
+    .min(0)
+    .default(0.05)
+    .describe("Seconds added around each cut, never overlapping neighbouring words"),
+  detectRepeats: z
+    .boolean()
+    .default(true)
+    .describe("Flag repeated words and short phrases ('I I', 'we went we went')"),
+  detectFalseStarts: z
+    .boolean()
+    .default(true)
+    .describe("Flag cut-off word fragments ('pro- product')"),
+};
+
+export async function handleDetectFillers(params: {
+  videoPath: string;
+  language?: string;
+  fillerWords?: string[];
+  discourseMarkers?: boolean;
+  padding?: number;
+  detectRepeats?: boolean;
+  detectFalseStarts?: boolean;
+}): Promise<{ content: Array<{ type: "text"; text: string }> }> {
+  const {
+    videoPath,
+    language,
+    fillerWords,
+    discourseMarkers = false,
+    padding = 0.05,
+    detectRepeats = true,
+    detectFalseStarts = true,
+  } = params;
+
+  logger.info("Detecting filler words in:", videoPath);
+
+  try {
+    const speechAnalysis = getSpeechAnalysis(videoPath);
+
+    if (!speechAnalysis) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              {
+                error:
+                  "No speech analysis found for this video. Please run analyze_video_speech first.",
+                videoPath,
+              },
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    }
+
+    if (speechAnalysis.words.length === 0) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              {
+                error:
+                  "Speech analysis has no word timings. Re-run analyze_video_speech with forceReanalyze.",
+                videoPath,
+              },
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    }
+
+    const disfluencies = detectFillers(speechAnalysis, {
+      language,
+      fillerWords,
+      discourseMarkers,
+      padding,
+      detectRepeats,
+      detectFalseStarts,
+    });
+
+    const cutRanges = mergeCutRanges(disfluencies);
+    const totalCut = cutRanges.reduce((sum, r) => sum + (r.end - r.start), 0);
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(
+            {
+              videoPath,
+              counts: {
+                filler: disfluencies.filter((d) => d.type === "filler").length,
+                repeat: disfluencies.filter((d) => d.type === "repeat").length,
+                false_start: disfluencies.filter((d) => d.type === "false_start").length,
+              },
+              totalCutDuration: totalCut.toFixed(2),
+              disfluencies: disfluencies.map((d) => ({
+                type: d.type,
+                text: d.text,
+                start: d.start.toFixed(2),
+                end: d.end.toFixed(2),
+                cutStart: d.cutStart.toFixed(2),
+                cutEnd: d.cutEnd.toFixed(2),
+                speaker: d.speaker,
+              })),
+              cutRanges: cutRanges.map((r) => ({
+                start: r.start.toFixed(2),
+                end: r.end.toFixed(2),
+              })),
+            },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify({ error: errorMessage }, null, 2),
+        },
+      ],
+    };
+  }
+}
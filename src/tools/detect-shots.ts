@@ -0,0 +1,87 @@
+import { z } from "zod";
+import { detectShots } from "../analyzer/shot-detector.js";
+import { logger } from "../utils/logger.js";
+
+export const detectShotsSchema = {
+  videoPath: z.string().describe("Absolute path to the video file"),
+  threshold: z
+    .number()
+    .min(0.05)
+    .max(1)
+    .default(0.3)
+    .describe("Scene-change score (0-1) a frame needs to count as a cut. Lower finds more, softer cuts"),
+  minShotDuration: z
+    .number()
+    .min(0)
+    .default(0.5)
+    .describe("Shortest shot in seconds; closer cuts (flashes, whip pans) are ignored"),
+  forceReanalyze: z
+    .boolean()
+    .default(false)
+    .describe("Force re-analysis even if cached results exist"),
+};
+
+export async function handleDetectShots(params: {
+  videoPath: string;
+  threshold?: number;
+  minShotDuration?: number;
+  forceReanalyze?: boolean;
+}): Promise<{ content: Array<{ type: "text"; text: string }> }> {
+  const {
+    videoPath,
+    threshold = 0.3,
+    minShotDuration = 0.5,
+    forceReanalyze = false,
+  } = params;
+
+  logger.info("Detecting shots in video:", videoPath);
+
+  try {
+    const result = await detectShots(videoPath, {
+      threshold,
+      minShotDuration,
+      forceReanalyze,
+    });
+
+    const durations = result.shots.map((s) => s.duration);
+
+    const summary = {
+      analysisId: result.analysisId,
+      videoPath: result.videoPath,
+      duration: result.duration,
+      threshold: result.threshold,
+      minShotDuration: result.minShotDuration,
+      shotCount: result.shots.length,
+      averageShotDuration:
+        durations.length > 0
+          ? (durations.reduce((sum, d) => sum + d, 0) / durations.length).toFixed(2)
+          : null,
+      shots: result.shots.map((s) => ({
+        index: s.index,
+        start: s.start.toFixed(2),
+        end: s.end.toFixed(2),
+        duration: s.duration.toFixed(2),
+        cutScore: s.cutScore,
+      })),
+    };
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(summary, null, 2),
+        },
+      ],
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify({ error: errorMessage }, null, 2),
+        },
+      ],
+    };
+  }
+}
@@ -0,0 +1,113 @@
+import { z } from "zod";
+import {
+  detectSilence,
+  computeKeepRanges,
+} from "../analyzer/silence-detector.js";
+import { logger } from "../utils/logger.js";
+
+export const detectSilenceSchema = {
+  videoPath: z.string().describe("Absolute path to the video file"),
+  thresholdDb: z
+    .number()
+    .max(0)
+    .default(-35)
+    .describe("Audio level (dB) below which audio counts as silence"),
+  minDuration: z
+    .number()
+    .min(0.05)
+    .default(0.5)
+    .describe("Minimum silence length in seconds"),
+  mode: z
+    .enum(["silence", "keep"])
+    .default("silence")
+    .describe("'silence' returns the silent ranges, 'keep' returns the ranges between them for assembling onto the timeline"),
+  padding: z
+    .number()
+    .min(0)
+    .default(0.1)
+    .describe("Seconds of silence to keep around speech in 'keep' mode"),
+  minKeepDuration: z
+    .number()
+    .min(0)
+    .default(0.5)
+    .describe("Drop keep ranges shorter than this (seconds) in 'keep' mode"),
+  forceReanalyze: z
+    .boolean()
+    .default(false)
+    .describe("Force re-analysis even if cached results exist"),
+};
+
+export async function handleDetectSilence(params: {
+  videoPath: string;
+  thresholdDb?: number;
+  minDuration?: number;
+  mode?: "silence" | "keep";
+  padding?: number;
+  minKeepDuration?: number;
+  forceReanalyze?: boolean;
+}): Promise<{ content: Array<{ type: "text"; text: string }> }> {
+  const {
+    videoPath,
+    thresholdDb = -35,
+    minDuration = 0.5,
+    mode = "silence",
+    padding = 0.1,
+    minKeepDuration = 0.5,
+    forceReanalyze = false,
+  } = params;
+
+  logger.info("Detecting silence in video:", videoPath);
+
+  try {
+    const result = await detectSilence(videoPath, {
+      thresholdDb,
+      minDuration,
+      forceReanalyze,
+    });
+
+    const ranges =
+      mode === "keep"
+        ? computeKeepRanges(result.silences, result.duration, {
+            padding,
+            minKeepDuration,
+          })
+        : result.silences;
+
+    const totalSilence = result.silences.reduce((sum, s) => sum + s.duration, 0);
+
+    const summary = {
+      analysisId: result.analysisId,
+      videoPath: result.videoPath,
+      duration: result.duration,
+      thresholdDb: result.thresholdDb,
+      minDuration: result.minDuration,
+      mode,
+      totalSilence: Number(totalSilence.toFixed(2)),
+      rangeCount: ranges.length,
+      ranges: ranges.map((r) => ({
+        start: r.start.toFixed(2),
+        end: r.end.toFixed(2),
+        duration: r.duration.toFixed(2),
+      })),
+    };
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(summary, null, 2),
+        },
+      ],
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify({ error: errorMessage }, null, 2),
+        },
+      ],
+    };
+  }
+}
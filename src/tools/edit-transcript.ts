@@ -0,0 +1,132 @@
+import { z } from "zod";
+import {
+  generateAnalysisId,
+  getSpeechAnalysis,
+  saveSpeechAnalysis,
+} from "../cache/store.js";
+import { applyTranscriptEdits } from "../analyzer/transcript-editor.js";
+import { learnGlossaryReplacements } from "../analyzer/glossary.js";
+import type { SpeechAnalysisResult, TranscriptEdit } from "../types/index.js";
+import { logger } from "../utils/logger.js";
+
+export const editTranscriptSchema = {
+  videoPath: z.string().describe("Path to the analyzed video"),
+  edits: z
+    .array(
+      z.discriminatedUnion("type", [
+        z.object({
+          type: z.literal("replace_text"),
+          segmentId: z.number().int().describe("Segment to correct"),
+          text: z.string().describe("Corrected segment text"),
+        }),
+        z.object({
+          type: z.literal("split"),
+          segmentId: z.number().int().describe("Segment to split"),
+          at: z.number().describe("Split time in seconds"),
+        }),
+        z.object({
+          type: z.literal("merge"),
+          segmentId: z.number().int().describe("Segment to merge with the one after it"),
+        }),
+        z.object({
+          type: z.literal("nudge_word"),
+          at: z.number().describe("Time in seconds of the word to adjust (nearest word is used)"),
+          startDelta: z.number().optional().describe("Seconds to move the word start (negative = earlier)"),
+          endDelta: z.number().optional().describe("Seconds to move the word end (negative = earlier)"),
+        }),
+      ])
+    )
+    .min(1)
+    .describe("Edits applied in order. Segment ids are renumbered after each split or merge"),
+  learnGlossary: z
+    .boolean()
+    .default(false)
+    .describe("Add word corrections from replace_text edits to the project glossary so future transcriptions fix them automatically"),
+};
+
+export async function handleEditTranscript(params: {
+  videoPath: string;
+  edits: TranscriptEdit[];
+  learnGlossary?: boolean;
+}): Promise<{ content: Array<{ type: "text"; text: string }> }> {
+  const { videoPath, edits, learnGlossary = false } = params;
+
+  logger.info(`Applying ${edits.length} transcript edit(s) to:`, videoPath);
+
+  try {
+    const current = getSpeechAnalysis(videoPath);
+
+    if (!current) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              {
+                error:
+                  "No speech analysis found for this video. Please run analyze_video_speech first.",
+                videoPath,
+              },
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    }
+
+    const { segments, words, corrections } = applyTranscriptEdits(current, edits);
+
+    // Save as a new revision; the previous one stays in the cache
+    const revision: SpeechAnalysisResult = {
+      ...current,
+      analysisId: generateAnalysisId(),
+      segments,
+      words,
+      revision: (current.revision ?? 1) + 1,
+      parentAnalysisId: current.analysisId,
+      createdAt: Date.now(),
+    };
+    saveSpeechAnalysis(revision);
+
+    const learned =
+      learnGlossary && corrections.length > 0
+        ? learnGlossaryReplacements(videoPath, corrections)
+        : null;
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(
+            {
+              success: true,
+              analysisId: revision.analysisId,
+              revision: revision.revision,
+              previousAnalysisId: current.analysisId,
+              editsApplied: edits.length,
+              segmentCount: segments.length,
+              wordCount: words.length,
+              corrections,
+              glossary: learned
+                ? { path: learned.glossaryPath, replacementsAdded: learned.added }
+                : undefined,
+            },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify({ error: errorMessage }, null, 2),
+        },
+      ],
+    };
+  }
+}
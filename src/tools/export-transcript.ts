@@ -0,0 +1,165 @@
+import { z } from "zod";
+import * as path from "path";
+import * as fs from "fs";
+import { getSpeechAnalysis } from "../cache/store.js";
+import { formatCaptions } from "../analyzer/captions.js";
+import { parseTimecode } from "../utils/timecode.js";
+import type { CaptionFormat } from "../types/index.js";
+import { logger } from "../utils/logger.js";
+
+export const exportTranscriptSchema = {
+  videoPath: z.string().describe("Path to the analyzed video"),
+  format: z
+    .enum(["srt", "vtt", "txt", "json"])
+    .default("srt")
+    .describe("Output format: SubRip, WebVTT, plain text or structured JSON"),
+  outputPath: z
+    .string()
+    .optional()
+    .describe("Where to write the file. Defaults to the video path with the format's extension"),
+  maxCharsPerLine: z
+    .number()
+    .int()
+    .min(10)
+    .default(42)
+    .describe("Maximum characters per caption line"),
+  maxLines: z
+    .number()
+    .int()
+    .min(1)
+    .default(2)
+    .describe("Maximum lines per caption cue"),
+  maxCueDuration: z
+    .number()
+    .min(1)
+    .default(7)
+    .describe("Maximum seconds a caption cue stays on screen"),
+  offset: z
+    .union([z.number().min(0), z.string()])
+    .optional()
+    .describe("Offset added to every timestamp: seconds, or a source timecode such as '01:00:00:00'. Must not be negative"),
+  fps: z
+    .number()
+    .default(30)
+    .describe("Frame rate used to read a frame-based offset timecode"),
+  language: z
+    .string()
+    .optional()
+    .describe("Use the transcript in this language (e.g., 'es'); a translation made by translate_transcript if it differs from the original"),
+};
+
+export async function handleExportTranscript(params: {
+  videoPath: string;
+  format?: CaptionFormat;
+  outputPath?: string;
+  maxCharsPerLine?: number;
+  maxLines?: number;
+  maxCueDuration?: number;
+  offset?: number | string;
+  fps?: number;
+  language?: string;
+}): Promise<{ content: Array<{ type: "text"; text: string }> }> {
+  const {
+    videoPath,
+    format = "srt",
+    outputPath,
+    maxCharsPerLine = 42,
+    maxLines = 2,
+    maxCueDuration = 7,
+    offset,
+    fps = 30,
+    language,
+  } = params;
+
+  logger.info(`Exporting ${format} transcript for:`, videoPath);
+
+  try {
+    const speechAnalysis = getSpeechAnalysis(videoPath, language);
+
+    if (!speechAnalysis) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              {
+                error: language
+                  ? `No ${language} transcript found for this video. Please run analyze_video_speech, then translate_transcript for other languages.`
+                  : "No speech analysis found for this video. Please run analyze_video_speech first.",
+                videoPath,
+              },
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    }
+
+    const offsetSeconds =
+      typeof offset === "string" ? parseTimecode(offset, fps) : offset ?? 0;
+
+    // Caption timestamps can't go below zero
+    if (offsetSeconds === null || Number.isNaN(offsetSeconds) || offsetSeconds < 0) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              { error: `Invalid offset: ${offset}. Use a non-negative number of seconds or a timecode` },
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    }
+
+    const { content, cues } = formatCaptions(speechAnalysis, format, {
+      maxCharsPerLine,
+      maxLines,
+      maxCueDuration,
+      offset: offsetSeconds,
+    });
+
+    const parsed = path.parse(videoPath);
+    // Language variants get their own file ("interview.es.srt")
+    const suffix = language ? `.${speechAnalysis.language}` : "";
+    const target =
+      outputPath || path.join(parsed.dir, `${parsed.name}${suffix}.${format}`);
+
+    await fs.promises.writeFile(target, content, "utf-8");
+    logger.info("Transcript written to", target);
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(
+            {
+              success: true,
+              outputPath: target,
+              format,
+              language: speechAnalysis.language,
+              offset: offsetSeconds,
+              cueCount: cues.length,
+              preview: content.slice(0, 500),
+            },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify({ error: errorMessage }, null, 2),
+        },
+      ],
+    };
+  }
+}
@@ -1,17 +1,49 @@
 import { z } from "zod";
-import { getSpeechAnalysis, getVisualAnalysis } from "../cache/store.js";
+import {
+  getAudioAnalysis,
+  getSpeechAnalysis,
+  getSpeechAnalysisById,
+  getVisualAnalysis,
+} from "../cache/store.js";
 import { findSegments } from "../analyzer/segment-finder.js";
+import { parseAttributeFilter } from "../analyzer/frame-schemas.js";
+import { computeSemanticScores } from "../analyzer/semantic-index.js";
+import {
+  DEFAULT_EMBEDDING_PROVIDER,
+  embeddingProviders,
+} from "../analyzer/embeddings/index.js";
+import { readThumbnail } from "../cache/thumbnails.js";
 import { logger } from "../utils/logger.js";
 
 export const findSegmentsSchema = {
   videoPath: z.string().describe("Path to the analyzed video"),
   query: z
     .string()
-    .describe("What to search for (speech content or visual description)"),
+    .describe("What to search for (speech content or visual description). May be empty when attributeFilters are given"),
   searchType: z
-    .enum(["speech", "visual", "both"])
+    .enum(["speech", "visual", "text", "both"])
     .default("both")
-    .describe("Type of content to search"),
+    .describe("Type of content to search. 'visual' and 'both' include on-screen text; 'text' searches only on-screen text (requires analyze_video_visual with ocr). Attribute and person filters apply to frames only, so with them 'both' returns visual matches alone"),
+  mode: z
+    .enum(["keyword", "semantic"])
+    .default("keyword")
+    .describe("'keyword' finds the query verbatim. 'semantic' ranks transcript segments and frame descriptions by embedding similarity, blended with the keyword score; the embedding index is built on first use and cached. With the default 'local' embedding provider this only matches related word forms ('price', 'pricing'), not synonyms or paraphrases; use an 'http' embedding model for matching by meaning"),
+  embeddingProvider: z
+    .string()
+    .default(DEFAULT_EMBEDDING_PROVIDER)
+    .describe("Embedding provider for semantic mode: 'local' (offline, matches related word forms only) or 'http' (an OpenAI-compatible embeddings server, see EMBEDDING_URL)"),
+  semanticWeight: z
+    .number()
+    .min(0)
+    .max(1)
+    .default(0.7)
+    .describe("Semantic mode: share of the score that comes from similarity; the rest is the keyword score"),
+  minScore: z
+    .number()
+    .min(0)
+    .max(1)
+    .default(0.3)
+    .describe("Semantic mode: minimum blended score for a result"),
   maxResults: z
     .number()
     .default(10)
@@ -24,34 +56,173 @@ export const findSegmentsSchema = {
     .number()
     .default(0.5)
     .describe("Seconds to expand segment boundaries"),
+  speaker: z
+    .string()
+    .optional()
+    .describe("Only return speech matches from this speaker (e.g., 'SPEAKER_2'). Requires a diarized speech analysis"),
+  language: z
+    .string()
+    .optional()
+    .describe("Only return speech matches spoken in this language (e.g., 'en', 'es'), by the language tags of the transcript segments"),
+  transcriptLanguage: z
+    .string()
+    .optional()
+    .describe("Search the transcript in this language: the original if it is in that language, otherwise its translate_transcript translation. Results keep the language they were spoken in"),
+  cleanOnly: z
+    .boolean()
+    .default(false)
+    .describe("Only return clean takes: no clipping and speech well above the background noise. Requires analyze_audio_quality"),
+  minWordsPerMinute: z
+    .number()
+    .optional()
+    .describe("Only return matches spoken at least this fast. Requires analyze_audio_quality"),
+  maxWordsPerMinute: z
+    .number()
+    .optional()
+    .describe("Only return matches spoken at most this fast. Requires analyze_audio_quality"),
+  maxNoiseFloorDb: z
+    .number()
+    .optional()
+    .describe("Only return matches whose background noise is at or below this level (dB, e.g. -50). Requires analyze_audio_quality"),
+  rankBy: z
+    .enum(["confidence", "quality", "loudness"])
+    .default("confidence")
+    .describe("How to order results. 'quality' ranks by audio quality score to pick the best take of a repeated line. Requires analyze_audio_quality for 'quality' and 'loudness'"),
+  attributeFilters: z
+    .array(z.string())
+    .optional()
+    .describe("Only return visual matches whose frame attributes pass every filter, e.g. ['framing == \"close-up\"', 'people_count >= 2']. Operators: ==, !=, >, >=, <, <=, contains. Requires analyze_video_visual with a preset or attributeSchema"),
+  personId: z
+    .number()
+    .int()
+    .min(1)
+    .optional()
+    .describe("Only return visual matches showing this person track (the trackId from analyze_video_visual's personTracks, e.g. 2 for person #2)."),
+  shotSize: z
+    .enum(["wide", "medium", "close-up"])
+    .optional()
+    .describe("Only return visual matches with a person at this shot size (of personId, if given)"),
+  minPeople: z
+    .number()
+    .int()
+    .min(0)
+    .optional()
+    .describe("Only return visual matches with at least this many people on screen"),
+  maxPeople: z
+    .number()
+    .int()
+    .min(0)
+    .optional()
+    .describe("Only return visual matches with at most this many people on screen (0 for shots with nobody). Person filters require analyze_video_visual with detectPeople; with an empty query every matching frame is returned"),
+  includeThumbnails: z
+    .boolean()
+    .default(false)
+    .describe("Attach the cached thumbnail of the frame each visual match came from as an image"),
 };
 
 export async function handleFindSegments(params: {
   videoPath: string;
   query: string;
-  searchType?: "speech" | "visual" | "both";
+  searchType?: "speech" | "visual" | "text" | "both";
+  mode?: "keyword" | "semantic";
+  embeddingProvider?: string;
+  semanticWeight?: number;
+  minScore?: number;
   maxResults?: number;
   minDuration?: number;
   expandBy?: number;
-}): Promise<{ content: Array<{ type: "text"; text: string }> }> {
+  speaker?: string;
+  language?: string;
+  transcriptLanguage?: string;
+  cleanOnly?: boolean;
+  minWordsPerMinute?: number;
+  maxWordsPerMinute?: number;
+  maxNoiseFloorDb?: number;
+  rankBy?: "confidence" | "quality" | "loudness";
+  attributeFilters?: string[];
+  personId?: number;
+  shotSize?: "wide" | "medium" | "close-up";
+  minPeople?: number;
+  maxPeople?: number;
+  includeThumbnails?: boolean;
+}): Promise<{
+  content: Array<
+    { type: "text"; text: string } | { type: "image"; data: string; mimeType: string }
+  >;
+}> {
   const {
     videoPath,
     query,
     searchType = "both",
+    mode = "keyword",
+    embeddingProvider = DEFAULT_EMBEDDING_PROVIDER,
+    semanticWeight = 0.7,
+    minScore = 0.3,
     maxResults = 10,
     minDuration = 1,
     expandBy = 0.5,
+    speaker,
+    language,
+    transcriptLanguage,
+    cleanOnly = false,
+    minWordsPerMinute,
+    maxWordsPerMinute,
+    maxNoiseFloorDb,
+    rankBy = "confidence",
+    attributeFilters = [],
+    personId,
+    shotSize,
+    minPeople,
+    maxPeople,
+    includeThumbnails = false,
   } = params;
 
   logger.info(`Searching for "${query}" in ${searchType} data for:`, videoPath);
 
   try {
     // Get cached analysis data
-    const speechAnalysis =
-      searchType === "visual" ? null : getSpeechAnalysis(videoPath);
+    const searchSpeech = searchType !== "visual" && searchType !== "text";
+    let speechAnalysis = searchSpeech
+      ? getSpeechAnalysis(videoPath, transcriptLanguage)
+      : null;
     const visualAnalysis =
       searchType === "speech" ? null : getVisualAnalysis(videoPath);
 
+    if (searchSpeech && transcriptLanguage && !speechAnalysis) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              {
+                error: `No transcript in "${transcriptLanguage}". Run translate_transcript with targetLanguages ["${transcriptLanguage}"] first.`,
+                videoPath,
+              },
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    }
+
+    // A translation's segments are tagged with the target language; give
+    // them back the language they were spoken in, so `language` means the
+    // same thing whichever transcript is searched
+    if (speechAnalysis?.translatedFrom) {
+      const source = getSpeechAnalysisById(speechAnalysis.translatedFrom);
+      const spoken = new Map(
+        source?.segments.map((s) => [s.id, s.language ?? source.language]) ?? []
+      );
+      speechAnalysis = {
+        ...speechAnalysis,
+        segments: speechAnalysis.segments.map((s) => ({
+          ...s,
+          language: spoken.get(s.id) ?? source?.language ?? s.language,
+        })),
+      };
+    }
+
     if (!speechAnalysis && !visualAnalysis) {
       return {
         content: [
@@ -71,14 +242,175 @@ export async function handleFindSegments(params: {
       };
     }
 
+    if (speaker && speechAnalysis && !speechAnalysis.speakers) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              {
+                error:
+                  "Speech analysis has no speaker labels. Re-run analyze_video_speech with diarize enabled.",
+                videoPath,
+              },
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    }
+
+    const needsAudio =
+      cleanOnly ||
+      minWordsPerMinute !== undefined ||
+      maxWordsPerMinute !== undefined ||
+      maxNoiseFloorDb !== undefined ||
+      rankBy !== "confidence";
+
+    // Audio metrics belong to a speech revision (translations share their
+    // source's timings), so look them up through it
+    const speechAnalysisId =
+      speechAnalysis?.translatedFrom ??
+      speechAnalysis?.analysisId ??
+      getSpeechAnalysis(videoPath)?.analysisId;
+    const audioAnalysis = speechAnalysisId
+      ? getAudioAnalysis(videoPath, speechAnalysisId)
+      : null;
+
+    if (needsAudio && !audioAnalysis) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              {
+                error:
+                  "No audio analysis found for the current transcript. Please run analyze_audio_quality first.",
+                videoPath,
+              },
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    }
+
+    if (searchType === "text" && !visualAnalysis?.frames.some((f) => f.text)) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              {
+                error:
+                  "The visual analysis has no on-screen text. Re-run analyze_video_visual with ocr enabled.",
+                videoPath,
+              },
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    }
+
+    const filterByPeople =
+      personId !== undefined ||
+      shotSize !== undefined ||
+      minPeople !== undefined ||
+      maxPeople !== undefined;
+
+    if (filterByPeople && !visualAnalysis?.frames.some((f) => f.people)) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              {
+                error:
+                  "The visual analysis has no person detections. Re-run analyze_video_visual with detectPeople enabled.",
+                videoPath,
+              },
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    }
+
+    const filters = attributeFilters.map(parseAttributeFilter);
+    if (filters.length > 0 && !visualAnalysis?.frames.some((f) => f.attributes)) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              {
+                error:
+                  "The visual analysis has no frame attributes. Re-run analyze_video_visual with a preset or attributeSchema.",
+                videoPath,
+              },
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    }
+
+    const semanticScores =
+      mode === "semantic" && query.trim()
+        ? await computeSemanticScores(
+            videoPath,
+            speechAnalysis,
+            visualAnalysis,
+            query,
+            embeddingProviders.get(embeddingProvider)
+          )
+        : undefined;
+
     const segments = findSegments(speechAnalysis, visualAnalysis, {
       query,
       searchType,
       maxResults,
       minDuration,
       expandBy,
+      speaker,
+      language,
+      audioAnalysis,
+      cleanOnly,
+      minWordsPerMinute,
+      maxWordsPerMinute,
+      maxNoiseFloorDb,
+      rankBy,
+      attributeFilters: filters,
+      personId,
+      shotSize,
+      minPeople,
+      maxPeople,
+      semanticScores,
+      semanticWeight,
+      minScore,
     });
 
+    // One labelled image per visual match that has a thumbnail
+    const thumbnails: Array<
+      { type: "text"; text: string } | { type: "image"; data: string; mimeType: string }
+    > = [];
+    if (includeThumbnails) {
+      for (const [i, s] of segments.entries()) {
+        const image = s.thumbnailPath ? await readThumbnail(s.thumbnailPath) : null;
+        if (!image) continue;
+        thumbnails.push(
+          { type: "text", text: `Result ${i + 1} (${s.start.toFixed(2)}s-${s.end.toFixed(2)}s):` },
+          image
+        );
+      }
+    }
+
     return {
       content: [
         {
@@ -87,6 +419,9 @@ export async function handleFindSegments(params: {
             {
               query,
               searchType,
+              transcriptLanguage: speechAnalysis?.translatedFrom ? speechAnalysis.language : undefined,
+              mode,
+              embeddingProvider: semanticScores ? embeddingProvider : undefined,
               resultsCount: segments.length,
               segments: segments.map((s) => ({
                 start: s.start.toFixed(2),
@@ -95,13 +430,38 @@ export async function handleFindSegments(params: {
                 matchType: s.matchType,
                 matchedContent: s.matchedContent,
                 confidence: s.confidence,
+                similarity:
+                  s.similarity !== undefined ? Math.round(s.similarity * 1000) / 1000 : undefined,
                 context: s.context,
+                speaker: s.speaker,
+                language: s.language,
+                attributes: s.attributes,
+                thumbnailPath: s.thumbnailPath,
+                text: s.text,
+                people: s.people?.map((p) => ({
+                  trackId: p.trackId,
+                  shotSize: p.shotSize,
+                  box: p.box,
+                  description: p.description,
+                })),
+                audio: s.audio
+                  ? {
+                      wordsPerMinute: s.audio.wordsPerMinute,
+                      loudnessLufs: s.audio.integratedLufs,
+                      peakDb: s.audio.peakDb,
+                      noiseFloorDb: s.audio.noiseFloorDb,
+                      clippedSamples: s.audio.clippedSamples,
+                      qualityScore: s.audio.qualityScore,
+                      clean: s.audio.clean,
+                    }
+                  : undefined,
               })),
             },
             null,
             2
           ),
         },
+        ...thumbnails,
       ],
     };
   } catch (error) {
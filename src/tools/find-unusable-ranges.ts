@@ -0,0 +1,187 @@
+import { z } from "zod";
+import { getVisualAnalysis } from "../cache/store.js";
+import {
+  DEFAULT_QUALITY_THRESHOLDS,
+  findUnusableRanges,
+} from "../analyzer/frame-quality.js";
+import { analyzeVideoQuality } from "../analyzer/quality-analyzer.js";
+import { computeKeepRanges } from "../analyzer/silence-detector.js";
+import { logger } from "../utils/logger.js";
+
+export const findUnusableRangesSchema = {
+  videoPath: z.string().describe("Path to the analyzed video"),
+  mode: z
+    .enum(["unusable", "keep"])
+    .default("unusable")
+    .describe("'unusable' returns soft-focus, blown-out, too-dark and shaky ranges; 'keep' returns the ranges between them"),
+  source: z
+    .enum(["auto", "visual", "quality"])
+    .default("auto")
+    .describe("Where the frame metrics come from. 'visual' uses those measured by analyze_video_visual; 'quality' measures the video directly (no vision calls, cached separately, never replaces the visual analysis); 'auto' uses the visual analysis if it has shake metrics, otherwise measures"),
+  fps: z
+    .number()
+    .min(0.1)
+    .max(5)
+    .default(1)
+    .describe("Samples per second when measuring the video directly"),
+  minSharpness: z
+    .number()
+    .min(0)
+    .default(DEFAULT_QUALITY_THRESHOLDS.minSharpness)
+    .describe("Frames below this sharpness (Laplacian variance) count as soft focus"),
+  maxHighlightClipping: z
+    .number()
+    .min(0)
+    .max(1)
+    .default(DEFAULT_QUALITY_THRESHOLDS.maxHighlightClipping)
+    .describe("Fraction of pure-white pixels above which a frame counts as blown out"),
+  maxShadowClipping: z
+    .number()
+    .min(0)
+    .max(1)
+    .default(DEFAULT_QUALITY_THRESHOLDS.maxShadowClipping)
+    .describe("Fraction of pure-black pixels above which a frame counts as too dark"),
+  maxShake: z
+    .number()
+    .min(0)
+    .default(DEFAULT_QUALITY_THRESHOLDS.maxShake)
+    .describe("Camera jitter over a few frames 1/15 s apart, around its smooth movement (fraction of frame width), above which a frame counts as shaky. Steady pans and dollies don't count"),
+  minDuration: z
+    .number()
+    .min(0)
+    .default(0.5)
+    .describe("Drop unusable ranges shorter than this (seconds)"),
+  minKeepDuration: z
+    .number()
+    .min(0)
+    .default(0.5)
+    .describe("Drop keep ranges shorter than this (seconds) in 'keep' mode"),
+  forceReanalyze: z
+    .boolean()
+    .default(false)
+    .describe("Measure the video again even if cached quality metrics exist"),
+};
+
+export async function handleFindUnusableRanges(params: {
+  videoPath: string;
+  mode?: "unusable" | "keep";
+  source?: "auto" | "visual" | "quality";
+  fps?: number;
+  minSharpness?: number;
+  maxHighlightClipping?: number;
+  maxShadowClipping?: number;
+  maxShake?: number;
+  minDuration?: number;
+  minKeepDuration?: number;
+  forceReanalyze?: boolean;
+}): Promise<{ content: Array<{ type: "text"; text: string }> }> {
+  const {
+    videoPath,
+    mode = "unusable",
+    source = "auto",
+    fps = 1,
+    minSharpness = DEFAULT_QUALITY_THRESHOLDS.minSharpness,
+    maxHighlightClipping = DEFAULT_QUALITY_THRESHOLDS.maxHighlightClipping,
+    maxShadowClipping = DEFAULT_QUALITY_THRESHOLDS.maxShadowClipping,
+    maxShake = DEFAULT_QUALITY_THRESHOLDS.maxShake,
+    minDuration = 0.5,
+    minKeepDuration = 0.5,
+    forceReanalyze = false,
+  } = params;
+
+  logger.info("Finding unusable ranges in:", videoPath);
+
+  try {
+    const visualAnalysis = source === "quality" ? null : getVisualAnalysis(videoPath);
+
+    if (source === "visual" && !visualAnalysis?.frames.some((f) => f.quality)) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              {
+                error: visualAnalysis
+                  ? "The visual analysis has no frame quality metrics. Re-run analyze_video_visual with forceReanalyze, or use source 'quality'."
+                  : "No visual analysis found for this video. Run analyze_video_visual first, or use source 'quality' to measure without one.",
+                videoPath,
+              },
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    }
+
+    // Analyses from before shake was measured would never report it
+    const useVisual =
+      visualAnalysis !== null &&
+      (source === "visual" || visualAnalysis.frames.some((f) => f.quality?.shake !== undefined));
+
+    const measured = useVisual
+      ? {
+          samples: visualAnalysis.frames,
+          fps: visualAnalysis.fps,
+          duration: visualAnalysis.duration,
+        }
+      : await analyzeVideoQuality(videoPath, { fps, forceReanalyze });
+
+    const unusable = findUnusableRanges(
+      measured.samples,
+      measured.fps,
+      { minSharpness, maxHighlightClipping, maxShadowClipping, maxShake },
+      minDuration
+    );
+
+    const totalUnusable = unusable.reduce((sum, r) => sum + r.duration, 0);
+
+    const ranges =
+      mode === "keep"
+        ? computeKeepRanges(unusable, measured.duration, {
+            padding: 0,
+            minKeepDuration,
+          }).map((r) => ({
+            start: r.start.toFixed(2),
+            end: r.end.toFixed(2),
+            duration: r.duration.toFixed(2),
+          }))
+        : unusable.map((r) => ({
+            start: r.start.toFixed(2),
+            end: r.end.toFixed(2),
+            duration: r.duration.toFixed(2),
+            reasons: r.reasons,
+            frames: r.frames,
+          }));
+
+    const summary = {
+      videoPath,
+      duration: measured.duration,
+      source: useVisual ? "visual" : "quality",
+      framesMeasured: measured.samples.filter((f) => f.quality).length,
+      mode,
+      totalUnusable: Number(totalUnusable.toFixed(2)),
+      rangeCount: ranges.length,
+      ranges,
+    };
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(summary, null, 2),
+        },
+      ],
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify({ error: errorMessage }, null, 2),
+        },
+      ],
+    };
+  }
+}
@@ -1,6 +1,7 @@
 import { z } from "zod";
 import {
   getAnalysisStatus,
+  getAudioAnalysis,
   getAnalysisStatusByVideo,
   getSpeechAnalysis,
   getVisualAnalysis,
@@ -65,6 +66,9 @@ export async function handleGetAnalysisStatus(params: {
       // Also check for completed analyses in cache
       const speechResult = getSpeechAnalysis(videoPath);
       const visualResult = getVisualAnalysis(videoPath);
+      const audioResult = speechResult
+        ? getAudioAnalysis(videoPath, speechResult.analysisId)
+        : null;
 
       return {
         content: [
@@ -86,9 +90,19 @@ export async function handleGetAnalysisStatus(params: {
                     ? {
                         analysisId: visualResult.analysisId,
                         framesAnalyzed: visualResult.framesAnalyzed,
+                        framesFailed: visualResult.frames.filter((f) => f.error).length,
+                        sampling: visualResult.sampling ?? "fps",
+                        shotCount: visualResult.shots?.length,
                         createdAt: new Date(visualResult.createdAt).toISOString(),
                       }
                     : null,
+                  audio: audioResult
+                    ? {
+                        analysisId: audioResult.analysisId,
+                        segmentCount: audioResult.segments.length,
+                        createdAt: new Date(audioResult.createdAt).toISOString(),
+                      }
+                    : null,
                 },
               },
               null,
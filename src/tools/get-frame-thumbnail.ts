@@ -0,0 +1,80 @@
+import { z } from "zod";
+import { getVisualAnalysis } from "../cache/store.js";
+import { readThumbnail } from "../cache/thumbnails.js";
+import { logger } from "../utils/logger.js";
+
+export const getFrameThumbnailSchema = {
+  videoPath: z.string().describe("Path to the analyzed video"),
+  timestamp: z
+    .number()
+    .min(0)
+    .describe("Time in seconds; the nearest analyzed frame is returned"),
+};
+
+export async function handleGetFrameThumbnail(params: {
+  videoPath: string;
+  timestamp: number;
+}): Promise<{
+  content: Array<
+    { type: "text"; text: string } | { type: "image"; data: string; mimeType: string }
+  >;
+}> {
+  const { videoPath, timestamp } = params;
+
+  logger.info(`Getting frame thumbnail at ${timestamp}s for:`, videoPath);
+
+  const fail = (error: string) => ({
+    content: [
+      {
+        type: "text" as const,
+        text: JSON.stringify({ error, videoPath, timestamp }, null, 2),
+      },
+    ],
+  });
+
+  try {
+    const visualAnalysis = getVisualAnalysis(videoPath);
+    if (!visualAnalysis) {
+      return fail("No visual analysis found for this video. Please run analyze_video_visual first.");
+    }
+
+    const withThumbnails = visualAnalysis.frames.filter((f) => f.thumbnailPath);
+    if (withThumbnails.length === 0) {
+      return fail(
+        "This visual analysis has no thumbnails. Re-run analyze_video_visual with forceReanalyze to create them."
+      );
+    }
+
+    const frame = withThumbnails.reduce((best, f) =>
+      Math.abs(f.timestamp - timestamp) < Math.abs(best.timestamp - timestamp) ? f : best
+    );
+
+    const image = await readThumbnail(frame.thumbnailPath!);
+    if (!image) {
+      return fail(`Thumbnail file is missing: ${frame.thumbnailPath}`);
+    }
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(
+            {
+              timestamp: frame.timestamp,
+              shotIndex: frame.shotIndex,
+              scene: frame.scene,
+              description: frame.description,
+              thumbnailPath: frame.thumbnailPath,
+            },
+            null,
+            2
+          ),
+        },
+        image,
+      ],
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return fail(errorMessage);
+  }
+}
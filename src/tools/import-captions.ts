@@ -0,0 +1,179 @@
+import { z } from "zod";
+import * as path from "path";
+import * as fs from "fs";
+import { getSpeechAnalysis } from "../cache/store.js";
+import { formatCaptions } from "../analyzer/captions.js";
+import { premiereBridge } from "../premiere/bridge.js";
+import { logger } from "../utils/logger.js";
+
+export const importCaptionsSchema = {
+  videoPath: z.string().describe("Path to the analyzed video"),
+  timelineOffset: z
+    .number()
+    .min(0)
+    .default(0)
+    .describe("Sequence time (seconds) where the first caption should line up with the start of the source video"),
+  outputPath: z
+    .string()
+    .optional()
+    .describe("Where to write the generated SRT. Defaults to the video path with a .srt extension"),
+  maxCharsPerLine: z
+    .number()
+    .int()
+    .min(10)
+    .default(42)
+    .describe("Maximum characters per caption line"),
+  maxLines: z
+    .number()
+    .int()
+    .min(1)
+    .default(2)
+    .describe("Maximum lines per caption"),
+  maxCueDuration: z
+    .number()
+    .min(1)
+    .default(7)
+    .describe("Maximum seconds a caption stays on screen"),
+  language: z
+    .string()
+    .optional()
+    .describe("Use the transcript in this language (e.g., 'es'); a translation made by translate_transcript if it differs from the original"),
+};
+
+export async function handleImportCaptions(params: {
+  videoPath: string;
+  timelineOffset?: number;
+  outputPath?: string;
+  maxCharsPerLine?: number;
+  maxLines?: number;
+  maxCueDuration?: number;
+  language?: string;
+}): Promise<{ content: Array<{ type: "text"; text: string }> }> {
+  const {
+    videoPath,
+    timelineOffset = 0,
+    outputPath,
+    maxCharsPerLine = 42,
+    maxLines = 2,
+    maxCueDuration = 7,
+    language,
+  } = params;
+
+  logger.info("Importing captions into Premiere for:", videoPath);
+
+  try {
+    // Check if connected to Premiere
+    const connected = await premiereBridge.isConnected();
+    if (!connected) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              {
+                error:
+                  "Not connected to Premiere Pro. Make sure the MCP Bridge panel is open in Premiere Pro.",
+                hint: "Open Premiere Pro, then go to Window > Extensions > MCP Bridge",
+              },
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    }
+
+    const speechAnalysis = getSpeechAnalysis(videoPath, language);
+
+    if (!speechAnalysis) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              {
+                error: language
+                  ? `No ${language} transcript found for this video. Please run analyze_video_speech, then translate_transcript for other languages.`
+                  : "No speech analysis found for this video. Please run analyze_video_speech first.",
+                videoPath,
+              },
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    }
+
+    // The caption track itself is placed at timelineOffset, so the SRT keeps
+    // source-relative times
+    const { content, cues } = formatCaptions(speechAnalysis, "srt", {
+      maxCharsPerLine,
+      maxLines,
+      maxCueDuration,
+    });
+
+    const parsed = path.parse(videoPath);
+    const suffix = language ? `.${speechAnalysis.language}` : "";
+    const captionPath =
+      outputPath || path.join(parsed.dir, `${parsed.name}${suffix}.srt`);
+    await fs.promises.writeFile(captionPath, content, "utf-8");
+
+    const result = await premiereBridge.importCaptions(
+      captionPath,
+      timelineOffset
+    );
+
+    if (!result.success) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              {
+                success: false,
+                captionPath,
+                error: result.error || "Failed to import captions",
+              },
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    }
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(
+            {
+              success: true,
+              captionPath,
+              captionItem: result.captionItem,
+              language: speechAnalysis.language,
+              timelineOffset,
+              captionTrackCreated: result.captionTrackCreated,
+              // Cues in the imported SRT; Premiere doesn't report how many
+              // caption clips it made from them
+              srtCuesWritten: cues.length,
+            },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify({ error: errorMessage }, null, 2),
+        },
+      ],
+    };
+  }
+}
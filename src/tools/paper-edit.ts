@@ -0,0 +1,215 @@
+import { z } from "zod";
+import * as path from "path";
+import { getSpeechAnalysis } from "../cache/store.js";
+import { buildPaperEdit } from "../analyzer/paper-edit.js";
+import { premiereBridge } from "../premiere/bridge.js";
+import { logger } from "../utils/logger.js";
+
+export const paperEditSchema = {
+  videoPath: z.string().describe("Path to the analyzed video"),
+  editedTranscript: z
+    .string()
+    .describe("The transcript text with lines deleted or reordered. Output follows the order of this text"),
+  projectItemPath: z
+    .string()
+    .optional()
+    .describe("Path or name of the project item in Premiere. Defaults to the video's file name"),
+  handles: z
+    .number()
+    .min(0)
+    .default(0.1)
+    .describe("Seconds of extra source kept before and after each range (never extends into a cut word)"),
+  timelinePosition: z
+    .number()
+    .min(0)
+    .default(0)
+    .describe("Sequence time (seconds) where the assembled edit starts"),
+  videoTrack: z.number().default(0).describe("Video track index (0-based)"),
+  audioTrack: z.number().default(0).describe("Audio track index (0-based)"),
+  insertMode: z
+    .enum(["insert", "overwrite"])
+    .default("insert")
+    .describe("Insert mode: 'insert' shifts existing clips, 'overwrite' replaces them"),
+  dryRun: z
+    .boolean()
+    .default(false)
+    .describe("Only compute the edit decision list without touching the timeline"),
+};
+
+export async function handlePaperEdit(params: {
+  videoPath: string;
+  editedTranscript: string;
+  projectItemPath?: string;
+  handles?: number;
+  timelinePosition?: number;
+  videoTrack?: number;
+  audioTrack?: number;
+  insertMode?: "insert" | "overwrite";
+  dryRun?: boolean;
+}): Promise<{ content: Array<{ type: "text"; text: string }> }> {
+  const {
+    videoPath,
+    editedTranscript,
+    projectItemPath = path.basename(videoPath),
+    handles = 0.1,
+    timelinePosition = 0,
+    videoTrack = 0,
+    audioTrack = 0,
+    insertMode = "insert",
+    dryRun = false,
+  } = params;
+
+  logger.info("Building paper edit for:", videoPath);
+
+  try {
+    const speechAnalysis = getSpeechAnalysis(videoPath);
+
+    if (!speechAnalysis) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              {
+                error:
+                  "No speech analysis found for this video. Please run analyze_video_speech first.",
+                videoPath,
+              },
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    }
+
+    const { decisions, unmatched } = buildPaperEdit(speechAnalysis, editedTranscript, {
+      handles,
+    });
+
+    const edl = decisions.map((d) => ({
+      ...d,
+      recordIn: timelinePosition + d.recordIn,
+      recordOut: timelinePosition + d.recordOut,
+    }));
+    const totalDuration = decisions.reduce((sum, d) => sum + d.duration, 0);
+
+    if (dryRun || edl.length === 0) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              {
+                success: true,
+                dryRun,
+                applied: false,
+                reason: dryRun
+                  ? "Dry run: the timeline was not changed"
+                  : "No words of the edited transcript were found in the source transcript, so there is nothing to place",
+                projectItemPath,
+                decisionCount: edl.length,
+                totalDuration,
+                sourceDuration: speechAnalysis.duration,
+                unmatchedWords: unmatched,
+                edl,
+              },
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    }
+
+    // Check if connected to Premiere
+    const connected = await premiereBridge.isConnected();
+    if (!connected) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              {
+                error:
+                  "Not connected to Premiere Pro. Make sure the MCP Bridge panel is open in Premiere Pro.",
+                hint: "Open Premiere Pro, then go to Window > Extensions > MCP Bridge, or use dryRun to only compute the edit decision list",
+              },
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    }
+
+    // Place the ranges back to back, stopping at the first failure
+    let placed = 0;
+    let failure: string | undefined;
+
+    for (const decision of edl) {
+      let result;
+      if (insertMode === "overwrite") {
+        result = await premiereBridge.overwriteClip(
+          projectItemPath,
+          decision.sourceIn,
+          decision.sourceOut,
+          decision.recordIn,
+          videoTrack,
+          audioTrack
+        );
+      } else {
+        result = await premiereBridge.insertClip(
+          projectItemPath,
+          decision.sourceIn,
+          decision.sourceOut,
+          decision.recordIn,
+          videoTrack,
+          audioTrack
+        );
+      }
+
+      if (!result.success) {
+        failure = result.error || `Failed to place decision ${decision.index}`;
+        break;
+      }
+      placed++;
+    }
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(
+            {
+              success: failure === undefined,
+              error: failure,
+              dryRun,
+              applied: placed > 0,
+              projectItemPath,
+              mode: insertMode,
+              decisionCount: edl.length,
+              decisionsPlaced: placed,
+              totalDuration,
+              sourceDuration: speechAnalysis.duration,
+              unmatchedWords: unmatched,
+              edl,
+            },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify({ error: errorMessage }, null, 2),
+        },
+      ],
+    };
+  }
+}
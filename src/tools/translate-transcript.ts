@@ -0,0 +1,74 @@
+import { z } from "zod";
+import { translateTranscript } from "../analyzer/translator.js";
+import { logger } from "../utils/logger.js";
+
+export const translateTranscriptSchema = {
+  videoPath: z.string().describe("Path to the analyzed video"),
+  targetLanguages: z
+    .array(z.string())
+    .min(1)
+    .describe("Language codes to translate into (e.g., ['es', 'fr', 'de']). Each is cached as a separate language variant"),
+  provider: z
+    .string()
+    .optional()
+    .describe("Translation provider: 'claude', 'libretranslate' or 'local' (deterministic stand-in that only tags the text). Defaults to TRANSLATION_PROVIDER or 'claude'"),
+  forceRetranslate: z
+    .boolean()
+    .default(false)
+    .describe("Translate again even if a cached translation of the current transcript exists"),
+};
+
+export async function handleTranslateTranscript(params: {
+  videoPath: string;
+  targetLanguages: string[];
+  provider?: string;
+  forceRetranslate?: boolean;
+}): Promise<{ content: Array<{ type: "text"; text: string }> }> {
+  const { videoPath, targetLanguages, provider, forceRetranslate = false } = params;
+
+  logger.info(`Translating transcript into ${targetLanguages.join(", ")} for:`, videoPath);
+
+  // Languages are independent; one failing doesn't discard the others
+  const translations = [];
+  for (const language of targetLanguages) {
+    try {
+      const result = await translateTranscript(videoPath, language, {
+        provider,
+        forceRetranslate,
+      });
+
+      translations.push({
+        language: result.language,
+        analysisId: result.analysisId,
+        translatedFrom: result.translatedFrom,
+        provider: result.translationProvider,
+        segmentCount: result.segments.length,
+        preview: result.segments.slice(0, 3).map((s) => ({
+          start: s.start.toFixed(2),
+          end: s.end.toFixed(2),
+          text: s.text,
+        })),
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      translations.push({ language, error: errorMessage });
+    }
+  }
+
+  return {
+    content: [
+      {
+        type: "text",
+        text: JSON.stringify(
+          {
+            videoPath,
+            translations,
+            hint: "Pass language to export_transcript, import_captions_to_timeline or find_video_segments to use a translation",
+          },
+          null,
+          2
+        ),
+      },
+    ],
+  };
+}
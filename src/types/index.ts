@@ -4,6 +4,8 @@ export interface TranscriptSegment {
   start: number;
   end: number;
   text: string;
+  speaker?: string;
+  language?: string;
 }
 
 export interface WordTimestamp {
@@ -11,6 +13,8 @@ export interface WordTimestamp {
   start: number;
   end: number;
   confidence: number;
+  speaker?: string;
+  language?: string;
 }
 
 export interface SpeechAnalysisResult {
@@ -18,18 +22,152 @@ export interface SpeechAnalysisResult {
   videoPath: string;
   duration: number;
   language: string;
+  languageProbability?: number;
+  languages?: string[];
   segments: TranscriptSegment[];
   words: WordTimestamp[];
+  speakers?: string[];
+  glossaryVersion?: string;
+  // Hash of the vocabulary/initial prompt the recognizer was given, if any
+  promptKey?: string;
+  // Settings the transcript was made with, compared on cache hits
+  backend?: string;
+  modelSize?: string;
+  requestedLanguage?: string;
+  numSpeakers?: number;
+  revision?: number;
+  parentAnalysisId?: string;
+  // Set on translations: the analysis they were translated from
+  translatedFrom?: string;
+  translationProvider?: string;
   createdAt: number;
 }
 
+// Transcript Editing Types
+export type TranscriptEdit =
+  | { type: "replace_text"; segmentId: number; text: string }
+  | { type: "split"; segmentId: number; at: number }
+  | { type: "merge"; segmentId: number }
+  | { type: "nudge_word"; at: number; startDelta?: number; endDelta?: number };
+
+export interface TranscriptionChunk {
+  videoPath: string;
+  chunkKey: string;
+  index: number;
+  start: number;
+  end: number;
+  segments: TranscriptSegment[];
+  words: WordTimestamp[];
+  language?: string;
+  languageProbability?: number;
+  createdAt: number;
+}
+
+// Glossary Types
+export interface Glossary {
+  version: string;
+  vocabulary: string[];
+  initialPrompt?: string;
+  replacements: Record<string, string>;
+}
+
+// Transcription Backend Types
+export interface BackendTranscribeOptions {
+  modelSize: string;
+  language?: string;
+  // Initial prompt biasing the decoder towards expected vocabulary
+  prompt?: string;
+}
+
+export interface BackendTranscript {
+  segments: TranscriptSegment[];
+  words: WordTimestamp[];
+  language?: string;
+  languageProbability?: number;
+}
+
+export interface TranscriptionBackend {
+  name: string;
+  transcribe(
+    audioPath: string,
+    options: BackendTranscribeOptions
+  ): Promise<BackendTranscript>;
+}
+
+// Translation Provider Types
+export interface TranslateOptions {
+  sourceLanguage: string;
+  targetLanguage: string;
+}
+
+export interface TranslationProvider {
+  name: string;
+  // Returns one translation per input text, in the same order
+  translate(texts: string[], options: TranslateOptions): Promise<string[]>;
+}
+
 // Visual Analysis Types
 export interface FrameAnalysis {
   timestamp: number;
+  // Extracted frame in a temp directory; only valid during the analysis
   framePath: string;
+  // Downscaled copy kept in the cache directory
+  thumbnailPath?: string;
   description: string;
   objects: string[];
   scene: string;
+  shotIndex?: number;
+  phash?: string;
+  // Timestamp of the frame whose analysis was reused for this near-duplicate
+  duplicateOf?: number;
+  // Structured fields requested through an attribute schema or preset
+  attributes?: Record<string, unknown>;
+  // On-screen text found by the OCR pass
+  text?: OnScreenText[];
+  // Local image metrics measured before any vision call
+  quality?: FrameQuality;
+  // People found by person detection, with track IDs across frames
+  people?: PersonDetection[];
+  // Set when the frame could not be analyzed after all retries
+  error?: string;
+}
+
+export type FrameSampling = "fps" | "shots";
+
+export interface FrameQuality {
+  sharpness: number; // Laplacian variance; low means soft focus
+  averageLuma: number; // 0-1
+  highlightClipping: number; // Fraction of pixels at full white
+  shadowClipping: number; // Fraction of pixels at full black
+  // Global shift from the previous sampled frame, as a fraction of the
+  // frame width; undefined for the first frame and across cuts
+  motion?: number;
+  // Jitter of the camera over the next few frames (1/15 s apart) around its
+  // smooth movement, as a fraction of the frame width
+  shake?: number;
+}
+
+export interface UnusableRange {
+  start: number;
+  end: number;
+  duration: number;
+  reasons: string[];
+  frames: number;
+}
+
+// Frame quality measured on its own, without a vision analysis
+export interface QualitySample {
+  timestamp: number;
+  quality: FrameQuality;
+}
+
+export interface QualityAnalysisResult {
+  analysisId: string;
+  videoPath: string;
+  duration: number;
+  fps: number;
+  samples: QualitySample[];
+  createdAt: number;
 }
 
 export interface VisualAnalysisResult {
@@ -37,20 +175,226 @@ export interface VisualAnalysisResult {
   videoPath: string;
   duration: number;
   fps: number;
+  sampling?: FrameSampling;
+  provider?: string;
+  model?: string;
+  attributeSchemaKey?: string;
+  ocrProvider?: string;
+  personDetector?: string;
   framesAnalyzed: number;
+  apiCallsSaved?: number;
+  dedupe?: boolean;
+  dedupeThreshold?: number;
+  // Shot detection settings, in shot sampling
+  sceneThreshold?: number;
+  framesPerShot?: number;
+  // Frames dropped by the maxFrames limit; the analysis stops short of them
+  framesSkipped?: number;
   frames: FrameAnalysis[];
+  shots?: Shot[];
+  personTracks?: PersonTrack[];
+  createdAt: number;
+}
+
+// Vision Provider Types
+export interface VisionRequestOptions {
+  model?: string;
+  maxTokens?: number;
+}
+
+export interface VisionProvider {
+  name: string;
+  // Model used when a request doesn't override it
+  defaultModel?: string;
+  // Returns the provider's text reply to the prompt about the image
+  describeImage(
+    imagePath: string,
+    prompt: string,
+    options: VisionRequestOptions
+  ): Promise<string>;
+}
+
+// OCR Types
+// Box of a piece of text as fractions (0-1) of the frame size, measured
+// from the top-left corner
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface OnScreenText {
+  text: string;
+  confidence?: number; // 0-1
+  box: BoundingBox;
+}
+
+export interface OcrProvider {
+  name: string;
+  recognize(imagePath: string): Promise<OnScreenText[]>;
+  // Throws if the engine can't run (not installed, missing language data),
+  // so an analysis fails before any frame is sent to the vision provider
+  checkAvailable?(): Promise<void>;
+}
+
+// Person Tracking Types
+export type ShotSize = "wide" | "medium" | "close-up";
+
+export interface PersonDetection {
+  box: BoundingBox; // Visible body
+  faceBox?: BoundingBox;
+  confidence?: number; // 0-1
+  // Short appearance description, used to follow a person across cuts
+  description?: string;
+  // Torso colour histogram, the fallback for following a person across cuts
+  // when the detector gives no description
+  appearance?: number[];
+  // Set by the tracker
+  trackId?: number;
+  shotSize?: ShotSize;
+}
+
+export interface PersonTrack {
+  id: number;
+  start: number;
+  end: number;
+  frames: number;
+  description?: string;
+  shotSizes: ShotSize[];
+}
+
+export interface PersonDetector {
+  name: string;
+  detect(imagePath: string): Promise<PersonDetection[]>;
+}
+
+// Shot Detection Types
+export interface Shot {
+  index: number;
+  start: number;
+  end: number;
+  duration: number;
+  // Scene-change score (0-1) of the cut that starts the shot; 1 for the first shot
+  cutScore: number;
+}
+
+export interface ShotDetectionResult {
+  analysisId: string;
+  videoPath: string;
+  duration: number;
+  threshold: number;
+  minShotDuration: number;
+  shots: Shot[];
+  createdAt: number;
+}
+
+// Silence Detection Types
+export interface SilenceRange {
+  start: number;
+  end: number;
+  duration: number;
+}
+
+export interface SilenceAnalysisResult {
+  analysisId: string;
+  videoPath: string;
+  duration: number;
+  thresholdDb: number;
+  minDuration: number;
+  silences: SilenceRange[];
+  createdAt: number;
+}
+
+// Audio Quality Types
+export interface AudioSegmentMetrics {
+  segmentId: number;
+  start: number;
+  end: number;
+  wordsPerMinute: number;
+  integratedLufs: number;
+  peakDb: number;
+  rmsDb: number;
+  noiseFloorDb: number;
+  clippedSamples: number;
+  qualityScore: number; // 0-1, higher is cleaner
+  clean: boolean;
+}
+
+export interface AudioAnalysisResult {
+  analysisId: string;
+  videoPath: string;
+  speechAnalysisId: string;
+  segments: AudioSegmentMetrics[];
   createdAt: number;
 }
 
+// Filler / Disfluency Detection Types
+export type DisfluencyType = "filler" | "repeat" | "false_start";
+
+export interface Disfluency {
+  type: DisfluencyType;
+  text: string;
+  start: number;
+  end: number;
+  cutStart: number;
+  cutEnd: number;
+  speaker?: string;
+}
+
+// Caption Types
+export type CaptionFormat = "srt" | "vtt" | "txt" | "json";
+
+export interface CaptionCue {
+  index: number;
+  start: number;
+  end: number;
+  lines: string[];
+  speaker?: string;
+}
+
+// Paper Edit Types
+export interface EditDecision {
+  index: number;
+  sourceIn: number;
+  sourceOut: number;
+  recordIn: number;
+  recordOut: number;
+  duration: number;
+  text: string;
+}
+
+// Embedding Provider Types
+export type EmbeddingSourceType = "speech" | "visual";
+
+export interface EmbeddingProvider {
+  name: string;
+  // Vectors from different models aren't comparable, so cached embeddings
+  // are keyed by provider name and model
+  model?: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
 // Segment Finding Types
 export interface FoundSegment {
   start: number;
   end: number;
   duration: number;
-  matchType: "speech" | "visual";
+  matchType: "speech" | "visual" | "text";
   matchedContent: string;
   confidence: number;
+  // Semantic mode: similarity of the query to the matched text (-1 to 1)
+  similarity?: number;
   context: string;
+  speaker?: string;
+  language?: string;
+  audio?: AudioSegmentMetrics;
+  attributes?: Record<string, unknown>;
+  thumbnailPath?: string;
+  // On-screen text that matched, with its position in the frame
+  text?: OnScreenText[];
+  // People on screen in the matched frame
+  people?: PersonDetection[];
 }
 
 // Premiere Pro Types
@@ -88,14 +432,26 @@ export interface TimelineInsertResult {
   error?: string;
 }
 
+export interface CaptionImportResult {
+  success: boolean;
+  captionItem?: string;
+  startTime?: number;
+  captionTrackCreated?: boolean;
+  error?: string;
+}
+
 // Analysis Status Types
 export interface AnalysisStatus {
   analysisId: string;
   videoPath: string;
-  type: "speech" | "visual";
+  type: "speech" | "visual" | "silence" | "audio" | "shots" | "quality";
   status: "pending" | "processing" | "completed" | "failed";
   progress: number;
   error?: string;
+  // Frame counts of a visual analysis, so an interrupted run shows what a
+  // re-run still has to do
+  framesDone?: number;
+  framesRemaining?: number;
   startedAt: number;
   completedAt?: number;
 }
@@ -185,6 +541,7 @@ export interface PremiereCommand {
     | "getProjectInfo"
     | "getSequenceInfo"
     | "findProjectItem"
+    | "importCaptions"
     | "applyColorCorrection"
     | "applyColorCorrectionToRange"
     | "matchColor"
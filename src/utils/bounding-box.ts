@@ -0,0 +1,21 @@
+import type { BoundingBox } from "../types/index.js";
+
+const clamp = (v: number) => Math.round(Math.min(1, Math.max(0, v)) * 1000) / 1000;
+
+// Read an [x, y, width, height] array of frame fractions, as returned by
+// models asked for a box, clamped to the frame
+export function parseBoundingBox(value: unknown): BoundingBox | undefined {
+  if (!Array.isArray(value) || value.length !== 4 || !value.every((v) => typeof v === "number")) {
+    return undefined;
+  }
+  const [x, y, width, height] = value as number[];
+  return { x: clamp(x), y: clamp(y), width: clamp(width), height: clamp(height) };
+}
+
+export function intersectionOverUnion(a: BoundingBox, b: BoundingBox): number {
+  const overlapWidth = Math.max(0, Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x));
+  const overlapHeight = Math.max(0, Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y));
+  const intersection = overlapWidth * overlapHeight;
+  const union = a.width * a.height + b.width * b.height - intersection;
+  return union > 0 ? intersection / union : 0;
+}
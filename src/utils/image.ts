@@ -0,0 +1,79 @@
+import ffmpeg from "fluent-ffmpeg";
+
+export type RawPixelFormat = "gray" | "rgb24";
+
+// Decode an image into raw pixels of the given size with ffmpeg, so frames
+// can be inspected without an image library
+export function decodeRawImage(
+  imagePath: string,
+  width: number,
+  height: number,
+  pixelFormat: RawPixelFormat = "gray"
+): Promise<Buffer> {
+  const expected = width * height * (pixelFormat === "rgb24" ? 3 : 1);
+
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+
+    const stream = ffmpeg(imagePath)
+      .videoFilters([`scale=${width}:${height}`, `format=${pixelFormat}`])
+      .frames(1)
+      .format("rawvideo")
+      .on("error", (err) => reject(err))
+      .pipe();
+
+    stream.on("data", (chunk: Buffer) => chunks.push(chunk));
+    stream.on("end", () => {
+      const pixels = Buffer.concat(chunks);
+      if (pixels.length < expected) {
+        reject(new Error(`Could not decode ${imagePath}`));
+        return;
+      }
+      resolve(pixels.subarray(0, expected));
+    });
+    stream.on("error", (err: Error) => reject(err));
+  });
+}
+
+// Decode `count` consecutive frames of a video, `rate` per second, starting at
+// `time`, as raw pixels of the given size. Fewer frames come back near the end
+// of the video.
+export function decodeVideoFrames(
+  videoPath: string,
+  time: number,
+  count: number,
+  rate: number,
+  width: number,
+  height: number,
+  pixelFormat: RawPixelFormat = "gray"
+): Promise<Buffer[]> {
+  const frameSize = width * height * (pixelFormat === "rgb24" ? 3 : 1);
+
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+
+    const stream = ffmpeg(videoPath)
+      .seekInput(time)
+      .noAudio()
+      .videoFilters([`fps=${rate}`, `scale=${width}:${height}`, `format=${pixelFormat}`])
+      .frames(count)
+      .format("rawvideo")
+      .on("error", (err) => reject(err))
+      .pipe();
+
+    stream.on("data", (chunk: Buffer) => chunks.push(chunk));
+    stream.on("end", () => {
+      const pixels = Buffer.concat(chunks);
+      const frames: Buffer[] = [];
+      for (let offset = 0; offset + frameSize <= pixels.length; offset += frameSize) {
+        frames.push(pixels.subarray(offset, offset + frameSize));
+      }
+      if (frames.length === 0) {
+        reject(new Error(`Could not decode ${videoPath} at ${time.toFixed(2)}s`));
+        return;
+      }
+      resolve(frames);
+    });
+    stream.on("error", (err: Error) => reject(err));
+  });
+}
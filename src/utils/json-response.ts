@@ -0,0 +1,6 @@
+// Parse the JSON in a model reply, which may be wrapped in a markdown code
+// block. Throws if there is no valid JSON; callers check its shape.
+export function parseJsonResponse(text: string): unknown {
+  const jsonMatch = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  return JSON.parse(jsonMatch ? jsonMatch[1].trim() : text.trim());
+}
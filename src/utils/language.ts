@@ -0,0 +1,74 @@
+// Whisper reports languages either as ISO 639-1 codes ("en") or, in some
+// server responses, as lower-case English names ("english")
+const LANGUAGE_NAMES: Record<string, string> = {
+  english: "en",
+  spanish: "es",
+  french: "fr",
+  german: "de",
+  italian: "it",
+  portuguese: "pt",
+  dutch: "nl",
+  russian: "ru",
+  ukrainian: "uk",
+  polish: "pl",
+  turkish: "tr",
+  arabic: "ar",
+  hebrew: "he",
+  hindi: "hi",
+  chinese: "zh",
+  japanese: "ja",
+  korean: "ko",
+  swedish: "sv",
+  norwegian: "no",
+  danish: "da",
+  finnish: "fi",
+  greek: "el",
+  czech: "cs",
+  vietnamese: "vi",
+  indonesian: "id",
+  thai: "th",
+};
+
+export function normalizeLanguageCode(language: string | undefined): string | undefined {
+  if (!language) return undefined;
+
+  const lower = language.trim().toLowerCase();
+  if (!lower || lower === "auto") return undefined;
+
+  return LANGUAGE_NAMES[lower] ?? lower;
+}
+
+// Frequent function words per language. Whisper detects the language once per
+// chunk, so a speaker switching language within a chunk is caught by checking
+// each segment's text against these.
+const FUNCTION_WORDS: Record<string, string[]> = {
+  en: ["the", "and", "is", "are", "was", "you", "that", "this", "with", "for", "have", "it", "of", "to", "what", "we", "they", "not"],
+  es: ["el", "la", "los", "las", "que", "es", "y", "en", "por", "para", "con", "una", "pero", "muy", "está", "yo", "lo", "no"],
+  fr: ["le", "la", "les", "est", "et", "je", "nous", "vous", "que", "pas", "une", "des", "avec", "pour", "c'est", "dans", "sur", "ce"],
+  de: ["der", "die", "das", "und", "ist", "ich", "nicht", "wir", "sie", "mit", "ein", "eine", "auch", "auf", "es", "zu", "den", "sehr"],
+  it: ["il", "che", "di", "è", "e", "non", "per", "una", "sono", "con", "gli", "della", "anche", "questo", "ma", "mi", "lo", "io"],
+  pt: ["o", "que", "não", "é", "e", "uma", "com", "para", "os", "eu", "você", "mas", "está", "isso", "muito", "do", "da", "em"],
+  nl: ["de", "het", "een", "en", "is", "dat", "niet", "ik", "je", "wij", "met", "voor", "ook", "maar", "zijn", "van", "op", "dit"],
+};
+
+// Language of a short text from its function words, when the evidence is
+// clear: at least two hits and twice as many as the runner-up. Only covers the
+// languages above; anything else returns undefined.
+export function detectTextLanguage(text: string): string | undefined {
+  const tokens = text
+    .toLowerCase()
+    .split(/[^\p{L}']+/u)
+    .filter(Boolean);
+  if (tokens.length < 3) return undefined;
+
+  const scores = Object.entries(FUNCTION_WORDS)
+    .map(([language, words]) => ({
+      language,
+      hits: tokens.filter((t) => words.includes(t)).length,
+    }))
+    .sort((a, b) => b.hits - a.hits);
+
+  const [best, runnerUp] = scores;
+  if (best.hits < 2 || best.hits < runnerUp.hits * 2) return undefined;
+  return best.language;
+}
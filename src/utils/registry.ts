@@ -0,0 +1,43 @@
+// Named implementations of a pluggable component (transcription backends,
+// vision providers, ...). Registering under an existing name replaces the
+// entry, so tests and embedders can swap in their own implementation.
+export interface Registry<T extends { name: string }> {
+  register(entry: T): void;
+  names(): string[];
+  // The named entry, or the default one
+  get(name?: string): T;
+}
+
+export function createRegistry<T extends { name: string }>(options: {
+  // Used in error messages, e.g. "vision provider"
+  kind: string;
+  defaultName: string;
+  entries?: T[];
+  // Names the caller resolves itself rather than through the registry,
+  // listed so error messages and docs show every choice
+  externalNames?: string[];
+}): Registry<T> {
+  const { kind, defaultName, entries = [], externalNames = [] } = options;
+  const registered = new Map<string, T>();
+
+  const registry: Registry<T> = {
+    register(entry) {
+      registered.set(entry.name, entry);
+    },
+
+    names() {
+      return [...registered.keys(), ...externalNames];
+    },
+
+    get(name = defaultName) {
+      const entry = registered.get(name);
+      if (!entry) {
+        throw new Error(`Unknown ${kind} "${name}". Available: ${registry.names().join(", ")}`);
+      }
+      return entry;
+    },
+  };
+
+  entries.forEach((entry) => registry.register(entry));
+  return registry;
+}
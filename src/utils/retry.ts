@@ -0,0 +1,147 @@
+import Anthropic from "@anthropic-ai/sdk";
+
+// Error for a failed HTTP call, keeping the status and response headers so
+// callers can decide whether (and when) to retry
+export class HttpStatusError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly headers: Record<string, string> = {}
+  ) {
+    super(message);
+    this.name = "HttpStatusError";
+  }
+}
+
+export interface RetryOptions {
+  retries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  // Called before each retry with the delay that will be waited
+  onRetry?: (error: unknown, attempt: number, delayMs: number) => void;
+}
+
+function errorStatus(error: unknown): number | undefined {
+  const status = (error as { status?: unknown } | null)?.status;
+  return typeof status === "number" ? status : undefined;
+}
+
+function errorHeader(error: unknown, name: string): string | undefined {
+  const headers = (error as { headers?: unknown } | null)?.headers;
+  if (!headers || typeof headers !== "object") return undefined;
+  if (typeof (headers as Headers).get === "function") {
+    return (headers as Headers).get(name) ?? undefined;
+  }
+  const value = (headers as Record<string, unknown>)[name];
+  return typeof value === "string" ? value : undefined;
+}
+
+// "1s", "6m0s", "250ms" as sent in x-ratelimit-reset-* headers
+function parseDuration(value: string): number | undefined {
+  const parts = [...value.matchAll(/([\d.]+)(ms|h|m|s)/g)];
+  if (parts.length === 0) return undefined;
+  const unitMs: Record<string, number> = { ms: 1, s: 1000, m: 60_000, h: 3_600_000 };
+  return parts.reduce((sum, [, amount, unit]) => sum + parseFloat(amount) * unitMs[unit], 0);
+}
+
+// How long the server asked us to wait, from the standard Retry-After header
+// or the Anthropic/OpenAI rate-limit reset headers
+export function retryAfterMs(error: unknown): number | undefined {
+  const retryAfterMsHeader = errorHeader(error, "retry-after-ms");
+  if (retryAfterMsHeader && !isNaN(Number(retryAfterMsHeader))) {
+    return Number(retryAfterMsHeader);
+  }
+
+  const retryAfter = errorHeader(error, "retry-after");
+  if (retryAfter) {
+    if (!isNaN(Number(retryAfter))) return Number(retryAfter) * 1000;
+    const date = Date.parse(retryAfter);
+    if (!isNaN(date)) return Math.max(0, date - Date.now());
+  }
+
+  for (const kind of ["requests", "tokens", "input-tokens", "output-tokens"]) {
+    const reset = errorHeader(error, `anthropic-ratelimit-${kind}-reset`);
+    const remaining = errorHeader(error, `anthropic-ratelimit-${kind}-remaining`);
+    if (reset && remaining === "0") {
+      const date = Date.parse(reset);
+      if (!isNaN(date)) return Math.max(0, date - Date.now());
+    }
+  }
+
+  for (const kind of ["requests", "tokens"]) {
+    const reset = errorHeader(error, `x-ratelimit-reset-${kind}`);
+    const remaining = errorHeader(error, `x-ratelimit-remaining-${kind}`);
+    if (reset && remaining === "0") {
+      const duration = parseDuration(reset);
+      if (duration !== undefined) return duration;
+    }
+  }
+
+  return undefined;
+}
+
+export function isRateLimitError(error: unknown): boolean {
+  return errorStatus(error) === 429;
+}
+
+// Socket and DNS failures that a later attempt may not hit
+const NETWORK_ERROR_CODES = new Set([
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ECONNABORTED",
+  "ETIMEDOUT",
+  "EPIPE",
+  "EAI_AGAIN",
+  "ENETUNREACH",
+  "EHOSTUNREACH",
+  "UND_ERR_SOCKET",
+  "UND_ERR_CONNECT_TIMEOUT",
+  "UND_ERR_HEADERS_TIMEOUT",
+  "UND_ERR_BODY_TIMEOUT",
+]);
+
+// A network failure: a known socket error code anywhere in the cause chain,
+// fetch's "fetch failed" TypeError, or the SDK's connection error (which
+// wraps one of those)
+function isNetworkError(error: unknown): boolean {
+  if (error instanceof Anthropic.APIConnectionError) return true;
+  for (let e = error, depth = 0; e && depth < 5; depth++) {
+    const code = (e as { code?: unknown }).code;
+    if (typeof code === "string" && NETWORK_ERROR_CODES.has(code)) return true;
+    if (e instanceof TypeError && e.message === "fetch failed") return true;
+    e = (e as { cause?: unknown }).cause;
+  }
+  return false;
+}
+
+// Timeouts, conflicts, rate limits, server errors and network failures are
+// worth retrying. Anything else (other client errors, a missing executable, a
+// malformed response, a bug) would fail the same way again.
+export function isRetryableError(error: unknown): boolean {
+  const status = errorStatus(error);
+  if (status === undefined) return isNetworkError(error);
+  return status === 408 || status === 409 || status === 429 || status >= 500;
+}
+
+// Run fn, retrying retryable errors with exponential backoff and jitter. A
+// delay requested by the server takes precedence over the backoff.
+export async function withRetry<T>(
+  fn: (attempt: number) => Promise<T>,
+  options: RetryOptions = {}
+): Promise<T> {
+  const { retries = 3, baseDelayMs = 1000, maxDelayMs = 60_000, onRetry } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn(attempt);
+    } catch (error) {
+      if (attempt >= retries || !isRetryableError(error)) throw error;
+
+      const backoff = baseDelayMs * 2 ** attempt * (0.75 + Math.random() * 0.5);
+      const delayMs = Math.min(maxDelayMs, retryAfterMs(error) ?? backoff);
+
+      onRetry?.(error, attempt + 1, delayMs);
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+    }
+  }
+}
@@ -64,10 +64,12 @@ export function formatTimecode(
 }
 
 export function secondsToSRT(seconds: number): string {
-  const hours = Math.floor(seconds / 3600);
-  const minutes = Math.floor((seconds % 3600) / 60);
-  const secs = Math.floor(seconds % 60);
-  const ms = Math.floor((seconds % 1) * 1000);
+  // Round to whole milliseconds first so 6.7 doesn't render as 06,699
+  const totalMs = Math.round(seconds * 1000);
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const secs = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
 
   return [
     hours.toString().padStart(2, "0"),
@@ -75,3 +77,7 @@ export function secondsToSRT(seconds: number): string {
     secs.toString().padStart(2, "0"),
   ].join(":") + "," + ms.toString().padStart(3, "0");
 }
+
+export function secondsToVTT(seconds: number): string {
+  return secondsToSRT(seconds).replace(",", ".");
+}
@@ -0,0 +1,231 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import type { LevelBlock } from "../../src/analyzer/audio-metrics.js";
+
+interface BlockReading {
+  peak: number | string;
+  rms: number | string;
+  momentary: number | string;
+  peakCount?: number;
+}
+
+// What `-af ...,ametadata=mode=print` logs for consecutive 100 ms frames,
+// with the per-channel astats keys and ebur128's own log lines mixed in
+function ffmpegLog(readings: BlockReading[]): string[] {
+  const prefix = "[Parsed_ametadata_4 @ 0x55d0c8e0a2c0]";
+  return readings.flatMap((r, i) => [
+    `${prefix} frame:${i}    pts:${i * 4800}    pts_time:${(i * 0.1).toFixed(1)}`,
+    `${prefix} lavfi.astats.1.Peak_level=0.000000`,
+    `${prefix} lavfi.astats.Overall.Peak_level=${r.peak}`,
+    `${prefix} lavfi.astats.Overall.RMS_level=${r.rms}`,
+    `${prefix} lavfi.astats.Overall.Peak_count=${r.peakCount ?? 2}`,
+    `${prefix} lavfi.r128.M=${r.momentary}`,
+    `${prefix} lavfi.r128.S=${r.momentary}`,
+    `[Parsed_ebur128_3 @ 0x55d0c8e0b100] t: ${(i * 0.1 + 0.1).toFixed(1)}  TARGET:-23 LUFS    M: ${r.momentary} S: -20.0`,
+  ]);
+}
+
+// No ffmpeg in tests: the stub replays the log set here and records the
+// filters it was asked to run
+const ffmpegRun = vi.hoisted(() => ({ log: [] as string[], filters: [] as string[][], runs: 0 }));
+
+interface FfmpegCommandStub {
+  audioFilters(filters: string[]): FfmpegCommandStub;
+  on(event: string, handler: (arg?: string) => void): FfmpegCommandStub;
+  run(): void;
+}
+
+vi.mock("fluent-ffmpeg", () => ({
+  default: (): FfmpegCommandStub => {
+    const handlers: Record<string, (arg?: string) => void> = {};
+    const chain: FfmpegCommandStub = new Proxy<FfmpegCommandStub>({} as FfmpegCommandStub, {
+      get: (_, prop) => {
+        if (prop === "audioFilters") {
+          return (filters: string[]) => {
+            ffmpegRun.filters.push(filters);
+            return chain;
+          };
+        }
+        if (prop === "on") {
+          return (event: string, handler: (arg?: string) => void) => {
+            handlers[event] = handler;
+            return chain;
+          };
+        }
+        if (prop === "run") {
+          return () => {
+            ffmpegRun.runs++;
+            setImmediate(() => {
+              for (const line of ffmpegRun.log) handlers.stderr?.(line);
+              handlers.end?.();
+            });
+          };
+        }
+        return () => chain;
+      },
+    });
+    return chain;
+  },
+}));
+
+const home = fs.mkdtempSync(path.join(os.tmpdir(), "premiere-mcp-test-"));
+const originalHome = process.env.HOME;
+const videoPath = "/videos/interview.mp4";
+
+let store: typeof import("../../src/cache/store.js");
+let audio: typeof import("../../src/analyzer/audio-metrics.js");
+
+beforeAll(async () => {
+  process.env.HOME = home;
+  store = await import("../../src/cache/store.js");
+  audio = await import("../../src/analyzer/audio-metrics.js");
+  store.initializeCache();
+});
+
+afterAll(() => {
+  store.closeCache();
+  process.env.HOME = originalHome;
+  fs.rmSync(home, { recursive: true, force: true });
+});
+
+function parse(readings: BlockReading[]): LevelBlock[] {
+  const parser = audio.createLevelParser();
+  ffmpegLog(readings).forEach((line) => parser.push(line));
+  return parser.finish();
+}
+
+const steady = (count: number, reading: BlockReading) =>
+  Array.from({ length: count }, () => reading);
+
+describe("createLevelParser", () => {
+  it("reads the overall astats and ebur128 values of each frame", () => {
+    const blocks = parse([
+      { peak: -6.02, rms: -9.03, momentary: -9.05, peakCount: 4 },
+      { peak: "-inf", rms: "-inf", momentary: "-120.7" },
+    ]);
+
+    expect(blocks).toEqual([
+      { time: 0, peakDb: -6.02, rmsDb: -9.03, momentaryLufs: -9.05, peakCount: 4 },
+      { time: 0.1, peakDb: -120, rmsDb: -120, momentaryLufs: -120, peakCount: 2 },
+    ]);
+  });
+
+  it("ignores everything before the first frame", () => {
+    const parser = audio.createLevelParser();
+    parser.push("Input #0, mov,mp4,m4a,3gp,3g2,mj2, from '/videos/interview.mp4':");
+    parser.push("[Parsed_ametadata_4 @ 0x1] lavfi.astats.Overall.RMS_level=-9");
+
+    expect(parser.finish()).toEqual([]);
+  });
+});
+
+describe("measureBlocks", () => {
+  it("averages RMS as power and keeps the highest peak", () => {
+    const blocks = parse([
+      ...steady(5, { peak: -10, rms: -20, momentary: -20 }),
+      ...steady(5, { peak: -3, rms: -30, momentary: -25 }),
+    ]);
+
+    const readings = audio.measureBlocks(blocks, 0, 1);
+
+    expect(readings.peakDb).toBe(-3);
+    // Mean of 10^-2 and 10^-3
+    expect(readings.rmsDb).toBeCloseTo(-22.6, 1);
+    expect(readings.noiseFloorDb).toBe(-30);
+    expect(readings.clippedSamples).toBe(0);
+  });
+
+  it("gates loudness like BS.1770", () => {
+    const blocks = parse([
+      ...steady(10, { peak: -10, rms: -20, momentary: -20 }),
+      // Below the relative gate (10 LU under the mean)
+      ...steady(10, { peak: -20, rms: -40, momentary: -40 }),
+      // Below the absolute gate
+      ...steady(10, { peak: -60, rms: -90, momentary: -90 }),
+    ]);
+
+    expect(audio.measureBlocks(blocks, 0, 3).integratedLufs).toBeCloseTo(-20, 5);
+  });
+
+  it("measures loudness from the momentary windows inside the range", () => {
+    const blocks = parse([
+      ...steady(10, { peak: -10, rms: -20, momentary: -14 }),
+      // Windows reaching back into the loud part
+      ...steady(3, { peak: -10, rms: -30, momentary: -16 }),
+      ...steady(7, { peak: -10, rms: -30, momentary: -30 }),
+    ]);
+
+    expect(audio.measureBlocks(blocks, 1, 2).integratedLufs).toBeCloseTo(-30, 5);
+  });
+
+  it("counts peaks as clipping only at full scale", () => {
+    const blocks = parse([
+      { peak: -0.05, rms: -6, momentary: -6, peakCount: 3 },
+      { peak: -1, rms: -6, momentary: -6, peakCount: 5 },
+      { peak: 0, rms: -6, momentary: -6, peakCount: 1 },
+    ]);
+
+    expect(audio.measureBlocks(blocks, 0, 0.3).clippedSamples).toBe(4);
+  });
+
+  it("still measures ranges shorter than a block", () => {
+    const blocks = parse([
+      { peak: -10, rms: -20, momentary: -20 },
+      { peak: -5, rms: -12, momentary: -15 },
+    ]);
+
+    expect(audio.measureBlocks(blocks, 0.12, 0.14)).toMatchObject({
+      peakDb: -5,
+      rmsDb: -12,
+      integratedLufs: -15,
+    });
+  });
+});
+
+describe("analyzeAudioQuality", () => {
+  it("measures every segment from a single ffmpeg pass", async () => {
+    store.saveSpeechAnalysis({
+      analysisId: "speech",
+      videoPath,
+      duration: 4,
+      language: "en",
+      segments: [
+        { id: 0, start: 0, end: 2, text: "a clean take of the line" },
+        { id: 1, start: 2, end: 4, text: "a noisy take" },
+      ],
+      words: [],
+      createdAt: 1,
+    });
+    ffmpegRun.log = ffmpegLog([
+      ...steady(8, { peak: -8, rms: -18, momentary: -18 }),
+      ...steady(2, { peak: -50, rms: -60, momentary: -30 }),
+      ...steady(10, { peak: -8, rms: -18, momentary: -18 }),
+      ...steady(20, { peak: -0.01, rms: -12, momentary: -12, peakCount: 6 }),
+    ]);
+
+    const result = await audio.analyzeAudioQuality(videoPath);
+
+    expect(ffmpegRun.runs).toBe(1);
+    expect(ffmpegRun.filters[0]).toEqual(
+      expect.arrayContaining(["astats=metadata=1:reset=1", "ebur128=metadata=1"])
+    );
+
+    const [clean, noisy] = result.segments;
+    expect(clean).toMatchObject({
+      wordsPerMinute: 180,
+      peakDb: -8,
+      noiseFloorDb: -60,
+      integratedLufs: expect.closeTo(-18, 5),
+      clippedSamples: 0,
+      clean: true,
+    });
+    expect(noisy).toMatchObject({ noiseFloorDb: -12, clippedSamples: 120, clean: false });
+    expect(clean.qualityScore).toBeGreaterThan(noisy.qualityScore);
+
+    // Cached for the same transcript
+    await audio.analyzeAudioQuality(videoPath);
+    expect(ffmpegRun.runs).toBe(1);
+  });
+});
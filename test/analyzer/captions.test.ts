@@ -0,0 +1,116 @@
+import { describe, expect, it } from "vitest";
+import { buildCaptionCues, formatCaptions } from "../../src/analyzer/captions.js";
+import type { SpeechAnalysisResult, WordTimestamp } from "../../src/types/index.js";
+
+// One word every 0.5 s, each 0.4 s long
+function timedWords(text: string, from = 0, speaker?: string): WordTimestamp[] {
+  return text.split(" ").map((word, i) => ({
+    word,
+    start: from + i * 0.5,
+    end: from + i * 0.5 + 0.4,
+    confidence: 0.9,
+    speaker,
+  }));
+}
+
+function speech(words: WordTimestamp[], segments: SpeechAnalysisResult["segments"] = []) {
+  return {
+    analysisId: "test",
+    videoPath: "/videos/interview.mp4",
+    duration: 60,
+    language: "en",
+    segments,
+    words,
+    createdAt: 0,
+  } satisfies SpeechAnalysisResult;
+}
+
+describe("buildCaptionCues", () => {
+  it("wraps words into lines no longer than the limit", () => {
+    const cues = buildCaptionCues(speech(timedWords("the quick brown fox jumps over it")), {
+      maxCharsPerLine: 15,
+    });
+
+    expect(cues).toHaveLength(2);
+    expect(cues[0].lines).toEqual(["the quick brown", "fox jumps over"]);
+    expect(cues[1].lines).toEqual(["it"]);
+    expect(cues.flatMap((c) => c.lines).every((line) => line.length <= 15)).toBe(true);
+  });
+
+  it("starts a new cue when the lines are full", () => {
+    const cues = buildCaptionCues(speech(timedWords("one two three four")), {
+      maxCharsPerLine: 10,
+      maxLines: 1,
+    });
+
+    expect(cues.map((c) => c.lines)).toEqual([["one two"], ["three four"]]);
+    expect(cues.map((c) => [c.index, c.start, c.end])).toEqual([
+      [1, 0, 0.9],
+      [2, 1, 1.9],
+    ]);
+  });
+
+  it("starts a new cue after a long pause or a change of speaker", () => {
+    const words = [
+      ...timedWords("hello there", 0, "SPEAKER_1"),
+      ...timedWords("after the break", 5, "SPEAKER_1"),
+      ...timedWords("my turn", 6.5, "SPEAKER_2"),
+    ];
+
+    const cues = buildCaptionCues(speech(words));
+
+    expect(cues.map((c) => [c.lines.join(" "), c.speaker])).toEqual([
+      ["hello there", "SPEAKER_1"],
+      ["after the break", "SPEAKER_1"],
+      ["my turn", "SPEAKER_2"],
+    ]);
+  });
+
+  it("keeps cues within the maximum duration", () => {
+    const cues = buildCaptionCues(speech(timedWords("a b c d e f g h i j")), {
+      maxCueDuration: 2,
+    });
+
+    expect(cues.length).toBeGreaterThan(1);
+    expect(cues.every((c) => c.end - c.start <= 2)).toBe(true);
+  });
+
+  it("spreads segment time over its words when there are no word timings", () => {
+    const cues = buildCaptionCues(
+      speech([], [{ id: 0, start: 10, end: 12, text: "ab abcd ab" }]),
+      { maxCharsPerLine: 10, maxLines: 1 }
+    );
+
+    expect(cues.map((c) => c.lines)).toEqual([["ab abcd ab"]]);
+    expect(cues[0].start).toBe(10);
+    expect(cues[0].end).toBeCloseTo(12);
+  });
+
+  it("shifts every cue by the offset", () => {
+    const [cue] = buildCaptionCues(speech(timedWords("hello")), { offset: 3600 });
+
+    expect([cue.start, cue.end]).toEqual([3600, 3600.4]);
+  });
+});
+
+describe("formatCaptions", () => {
+  const input = speech([
+    ...timedWords("hello there", 0, "SPEAKER_1"),
+    ...timedWords("hi", 1.2, "SPEAKER_2"),
+  ]);
+
+  it("writes SubRip cues", () => {
+    const { content } = formatCaptions(input, "srt");
+
+    expect(content).toBe(
+      "1\n00:00:00,000 --> 00:00:00,900\nhello there\n\n2\n00:00:01,200 --> 00:00:01,600\nhi\n"
+    );
+  });
+
+  it("writes WebVTT cues with speaker voice tags", () => {
+    const { content } = formatCaptions(input, "vtt");
+
+    expect(content.startsWith("WEBVTT\n\n")).toBe(true);
+    expect(content).toContain("00:00:01.200 --> 00:00:01.600\n<v SPEAKER_2>hi");
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import { mergeChunks, planChunks } from "../../src/analyzer/transcription/chunking.js";
+import type { TranscriptionChunk } from "../../src/types/index.js";
+
+function chunk(
+  index: number,
+  start: number,
+  end: number,
+  segments: Array<[number, number, string]>
+): TranscriptionChunk {
+  return {
+    videoPath: "/video.mp4",
+    chunkKey: "test",
+    index,
+    start,
+    end,
+    segments: segments.map(([s, e, text], id) => ({ id, start: s, end: e, text })),
+    words: segments.map(([s, e, text]) => ({ word: text, start: s, end: e, confidence: 1 })),
+    createdAt: 0,
+  };
+}
+
+describe("planChunks", () => {
+  it("uses a single chunk for short media", () => {
+    expect(planChunks(300, 600, 5)).toEqual([{ index: 0, start: 0, end: 300 }]);
+  });
+
+  it("overlaps consecutive chunks and ends at the duration", () => {
+    expect(planChunks(1300, 600, 5)).toEqual([
+      { index: 0, start: 0, end: 600 },
+      { index: 1, start: 595, end: 1195 },
+      { index: 2, start: 1190, end: 1300 },
+    ]);
+  });
+});
+
+describe("mergeChunks", () => {
+  it("keeps an utterance in the overlap once, in the chunk owning its midpoint", () => {
+    const merged = mergeChunks([
+      chunk(1, 595, 1000, [
+        [596, 598, "overlap"],
+        [700, 702, "second"],
+      ]),
+      chunk(0, 0, 600, [
+        [10, 12, "first"],
+        [596, 598, "overlap"],
+      ]),
+    ]);
+
+    expect(merged.segments.map((s) => s.text)).toEqual(["first", "overlap", "second"]);
+    expect(merged.words.map((w) => w.word)).toEqual(["first", "overlap", "second"]);
+  });
+
+  it("hands utterances past the overlap midpoint to the later chunk", () => {
+    const merged = mergeChunks([
+      chunk(0, 0, 600, [[598, 599.5, "late"]]),
+      chunk(1, 590, 1000, [[598, 599.5, "late"]]),
+    ]);
+
+    expect(merged.segments).toHaveLength(1);
+  });
+
+  it("renumbers segment ids in order", () => {
+    const merged = mergeChunks([
+      chunk(0, 0, 600, [
+        [1, 2, "a"],
+        [3, 4, "b"],
+      ]),
+      chunk(1, 595, 1000, [[700, 701, "c"]]),
+    ]);
+
+    expect(merged.segments.map((s) => s.id)).toEqual([0, 1, 2]);
+  });
+});
@@ -0,0 +1,153 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { diarizeTranscript, readWavSamples } from "../../src/analyzer/diarization.js";
+import type { TranscriptSegment } from "../../src/types/index.js";
+
+const SAMPLE_RATE = 16000;
+
+// Two synthetic "voices" with clearly different spectra: a low voice with
+// harmonics of ~150 Hz and a high one with partials around 2-4 kHz
+const lowVoice = (t: number, i: number) =>
+  0.3 * Math.sin(2 * Math.PI * (150 + i) * t) + 0.15 * Math.sin(2 * Math.PI * (300 + 2 * i) * t);
+const highVoice = (t: number, i: number) =>
+  0.2 * Math.sin(2 * Math.PI * (2000 + 5 * i) * t) + 0.2 * Math.sin(2 * Math.PI * (3500 + 5 * i) * t);
+
+function writeWav(filePath: string, parts: { seconds: number; voice: typeof lowVoice }[]): void {
+  const total = parts.reduce((sum, p) => sum + Math.round(p.seconds * SAMPLE_RATE), 0);
+  const buffer = Buffer.alloc(44 + total * 2);
+
+  buffer.write("RIFF", 0, "ascii");
+  buffer.writeUInt32LE(36 + total * 2, 4);
+  buffer.write("WAVE", 8, "ascii");
+  buffer.write("fmt ", 12, "ascii");
+  buffer.writeUInt32LE(16, 16);
+  buffer.writeUInt16LE(1, 20);
+  buffer.writeUInt16LE(1, 22);
+  buffer.writeUInt32LE(SAMPLE_RATE, 24);
+  buffer.writeUInt32LE(SAMPLE_RATE * 2, 28);
+  buffer.writeUInt16LE(2, 32);
+  buffer.writeUInt16LE(16, 34);
+  buffer.write("data", 36, "ascii");
+  buffer.writeUInt32LE(total * 2, 40);
+
+  let n = 0;
+  parts.forEach((part, i) => {
+    const count = Math.round(part.seconds * SAMPLE_RATE);
+    for (let s = 0; s < count; s++, n++) {
+      const value = part.voice(s / SAMPLE_RATE, i);
+      buffer.writeInt16LE(Math.round(Math.max(-1, Math.min(1, value)) * 32767), 44 + n * 2);
+    }
+  });
+
+  fs.writeFileSync(filePath, buffer);
+}
+
+function segmentsFor(durations: number[]): TranscriptSegment[] {
+  let start = 0;
+  return durations.map((seconds, id) => {
+    const segment = { id, start, end: start + seconds, text: `segment ${id}` };
+    start += seconds;
+    return segment;
+  });
+}
+
+let dir: string;
+let interviewPath: string;
+let monologuePath: string;
+
+// Low, high, a 0.2 s interjection, then low, high, low
+const interviewParts = [
+  { seconds: 1, voice: lowVoice },
+  { seconds: 1, voice: highVoice },
+  { seconds: 0.2, voice: lowVoice },
+  { seconds: 1, voice: lowVoice },
+  { seconds: 1, voice: highVoice },
+  { seconds: 1, voice: lowVoice },
+];
+const interviewSegments = segmentsFor(interviewParts.map((p) => p.seconds));
+
+beforeAll(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), "diarization-"));
+  interviewPath = path.join(dir, "interview.wav");
+  monologuePath = path.join(dir, "monologue.wav");
+  writeWav(interviewPath, interviewParts);
+  writeWav(
+    monologuePath,
+    [1, 1, 1, 1].map((seconds) => ({ seconds, voice: (t: number) => lowVoice(t, 0) }))
+  );
+});
+
+afterAll(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe("readWavSamples", () => {
+  it("reads 16-bit PCM into float samples", async () => {
+    const { samples, sampleRate } = await readWavSamples(monologuePath);
+
+    expect(sampleRate).toBe(SAMPLE_RATE);
+    expect(samples).toHaveLength(4 * SAMPLE_RATE);
+    expect(Math.max(...samples.subarray(0, 1000))).toBeLessThanOrEqual(1);
+  });
+
+  it("rejects files that are not WAV", async () => {
+    const notWav = path.join(dir, "notes.txt");
+    fs.writeFileSync(notWav, "not audio at all");
+
+    await expect(readWavSamples(notWav)).rejects.toThrow("Not a WAV file");
+  });
+});
+
+describe("diarizeTranscript", () => {
+  it("picks the speaker count and labels speakers in order of appearance", async () => {
+    const result = await diarizeTranscript(interviewPath, interviewSegments, []);
+
+    expect(result.speakers).toEqual(["SPEAKER_1", "SPEAKER_2"]);
+    expect(result.segments.map((s) => s.speaker)).toEqual([
+      "SPEAKER_1",
+      "SPEAKER_2",
+      // Too short for a voice print: keeps the previous speaker
+      "SPEAKER_2",
+      "SPEAKER_1",
+      "SPEAKER_2",
+      "SPEAKER_1",
+    ]);
+  });
+
+  it("gives words the speaker of the segment they fall in", async () => {
+    const words = [
+      { word: "hello", start: 0.1, end: 0.5, confidence: 0.9 },
+      { word: "there", start: 1.2, end: 1.6, confidence: 0.9 },
+      // Straddles two segments: takes the first one it overlaps
+      { word: "again", start: 3.0, end: 3.4, confidence: 0.9 },
+    ];
+
+    const result = await diarizeTranscript(interviewPath, interviewSegments, words);
+
+    expect(result.words.map((w) => w.speaker)).toEqual(["SPEAKER_1", "SPEAKER_2", "SPEAKER_1"]);
+  });
+
+  it("uses the requested speaker count", async () => {
+    const result = await diarizeTranscript(interviewPath, interviewSegments, [], {
+      numSpeakers: 1,
+    });
+
+    expect(result.speakers).toEqual(["SPEAKER_1"]);
+    expect(new Set(result.segments.map((s) => s.speaker))).toEqual(new Set(["SPEAKER_1"]));
+  });
+
+  it("keeps a single speaker when no split is well separated", async () => {
+    const result = await diarizeTranscript(monologuePath, segmentsFor([1, 1, 1, 1]), []);
+
+    expect(result.speakers).toEqual(["SPEAKER_1"]);
+    expect(result.segments.every((s) => s.speaker === "SPEAKER_1")).toBe(true);
+  });
+
+  it("returns no speakers for an empty transcript", async () => {
+    const result = await diarizeTranscript(interviewPath, [], []);
+
+    expect(result).toEqual({ segments: [], words: [], speakers: [] });
+  });
+});
@@ -0,0 +1,198 @@
+import * as fs from "fs";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  detectFillers,
+  loadFillerDictionary,
+  mergeCutRanges,
+} from "../../src/analyzer/filler-detector.js";
+import type { SpeechAnalysisResult } from "../../src/types/index.js";
+
+// The dictionary path is read when the module loads, so point it at a
+// scratch file before the import runs
+const configPath = await vi.hoisted(async () => {
+  const os = await import("os");
+  const path = await import("path");
+  const file = path.join(os.tmpdir(), `fillers-test-${process.pid}.json`);
+  process.env.PREMIERE_MCP_FILLERS_PATH = file;
+  return file;
+});
+
+afterEach(() => {
+  fs.rmSync(configPath, { force: true });
+});
+
+// One word every 0.5 s, each 0.4 s long
+function speech(text: string): SpeechAnalysisResult {
+  const words = text.split(" ").map((word, i) => ({
+    word,
+    start: i * 0.5,
+    end: i * 0.5 + 0.4,
+    confidence: 0.95,
+  }));
+  return {
+    analysisId: "test",
+    videoPath: "/video.mp4",
+    duration: words.length * 0.5,
+    language: "en",
+    segments: [],
+    words,
+    createdAt: 0,
+  };
+}
+
+const options = { fillerWords: ["um", "uh", "you know"] };
+
+describe("detectFillers", () => {
+  it("finds single and multi-word fillers", () => {
+    const found = detectFillers(speech("um so you know it works"), options);
+
+    expect(found.map((d) => [d.type, d.text])).toEqual([
+      ["filler", "um"],
+      ["filler", "you know"],
+    ]);
+  });
+
+  it("cuts the earlier take of a repeated phrase", () => {
+    const found = detectFillers(speech("I think I think it works"), options);
+
+    expect(found).toHaveLength(1);
+    expect(found[0]).toMatchObject({ type: "repeat", text: "I think", start: 0, end: 0.9 });
+  });
+
+  it("treats a cut-off word as a false start", () => {
+    const found = detectFillers(speech("we shou- we should go"), options);
+
+    expect(found.map((d) => [d.type, d.text])).toEqual([["false_start", "shou-"]]);
+  });
+
+  it("leaves ordinary words that prefix the next one alone", () => {
+    const found = detectFillers(
+      speech("we were so some of the theory to today in information"),
+      options
+    );
+
+    expect(found).toEqual([]);
+  });
+
+  it("treats a prefix fragment followed by a pause as a false start", () => {
+    const input = speech("the pro problem is");
+    input.words.slice(2).forEach((w) => {
+      w.start += 0.4;
+      w.end += 0.4;
+    });
+
+    expect(detectFillers(input, options).map((d) => [d.type, d.text])).toEqual([
+      ["false_start", "pro"],
+    ]);
+  });
+
+  it("treats a low-confidence prefix fragment as a false start", () => {
+    const input = speech("the pro problem is");
+    input.words[1].confidence = 0.3;
+
+    expect(detectFillers(input, options).map((d) => d.text)).toEqual(["pro"]);
+  });
+
+  it("pads cuts without reaching into neighbouring words", () => {
+    const [um] = detectFillers(speech("so um yes"), { ...options, padding: 0.2 });
+
+    expect(um.cutStart).toBeCloseTo(0.4);
+    expect(um.cutEnd).toBeCloseTo(1.0);
+  });
+
+  it("can leave repeats and false starts alone", () => {
+    const found = detectFillers(speech("go go shou- should"), {
+      ...options,
+      detectRepeats: false,
+      detectFalseStarts: false,
+    });
+
+    expect(found).toEqual([]);
+  });
+});
+
+describe("built-in dictionary", () => {
+  it("flags hesitation sounds but not words with a meaning of their own", () => {
+    const found = detectFillers(speech("um it was kind of like blue you know"));
+
+    expect(found.map((d) => d.text)).toEqual(["um"]);
+  });
+
+  it("leaves discourse markers inside a sentence alone when asked for them", () => {
+    const found = detectFillers(speech("it was kind of blue you know"), {
+      discourseMarkers: true,
+    });
+
+    expect(found).toEqual([]);
+  });
+
+  it("flags discourse markers spoken on their own between pauses", () => {
+    const input = speech("so you know it works");
+    // Pauses around "you know"
+    input.words.slice(1).forEach((w) => {
+      w.start += 0.3;
+      w.end += 0.3;
+    });
+    input.words.slice(3).forEach((w) => {
+      w.start += 0.3;
+      w.end += 0.3;
+    });
+
+    expect(detectFillers(input).map((d) => d.text)).toEqual([]);
+    expect(detectFillers(input, { discourseMarkers: true }).map((d) => d.text)).toEqual([
+      "you know",
+    ]);
+  });
+
+  it("uses the dictionary of the transcript language", () => {
+    const input = { ...speech("äh das ist also gut"), language: "de-DE" };
+
+    expect(detectFillers(input).map((d) => d.text)).toEqual(["äh"]);
+  });
+});
+
+describe("loadFillerDictionary", () => {
+  it("adds words from a list in the config", () => {
+    fs.writeFileSync(configPath, JSON.stringify({ en: ["Okay so"] }));
+
+    const { fillers } = loadFillerDictionary("en");
+
+    expect(fillers).toEqual(expect.arrayContaining(["um", "okay so"]));
+  });
+
+  it("removes built-in entries", () => {
+    fs.writeFileSync(
+      configPath,
+      JSON.stringify({ pt: { remove: ["hum", "tipo"], discourseMarkers: ["tipo assim"] } })
+    );
+
+    const { fillers, discourseMarkers } = loadFillerDictionary("pt");
+
+    expect(fillers).not.toContain("hum");
+    expect(discourseMarkers).not.toContain("tipo");
+    expect(discourseMarkers).toContain("tipo assim");
+  });
+
+  it("replaces the built-in entries", () => {
+    fs.writeFileSync(configPath, JSON.stringify({ en: { replace: true, fillers: ["uhm"] } }));
+
+    expect(loadFillerDictionary("en")).toEqual({ fillers: ["uhm"], discourseMarkers: [] });
+  });
+
+  it("falls back to the built-in entries when the config is unreadable", () => {
+    fs.writeFileSync(configPath, "{ not json");
+
+    expect(loadFillerDictionary("fr").fillers).toContain("euh");
+  });
+});
+
+describe("mergeCutRanges", () => {
+  it("joins overlapping and touching cuts", () => {
+    const found = detectFillers(speech("um uh so um"), options);
+
+    expect(mergeCutRanges(found)).toEqual([
+      { start: expect.closeTo(0), end: expect.closeTo(0.95) },
+      { start: expect.closeTo(1.45), end: expect.closeTo(1.95) },
+    ]);
+  });
+});
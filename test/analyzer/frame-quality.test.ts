@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { globalShift, measureShake, qualityIssues } from "../../src/analyzer/frame-quality.js";
+
+const WIDTH = 160;
+const HEIGHT = 90;
+
+// A smooth, non-repeating texture seen through a window offset by (ox, oy)
+function texture(ox: number, oy: number): Buffer {
+  const pixels = Buffer.alloc(WIDTH * HEIGHT);
+  for (let y = 0; y < HEIGHT; y++) {
+    for (let x = 0; x < WIDTH; x++) {
+      const u = x + ox;
+      const v = y + oy;
+      const value =
+        128 +
+        50 * Math.sin(u * 0.21 + v * 0.07) +
+        40 * Math.cos(v * 0.17 - u * 0.05) +
+        30 * Math.sin((u + v) * 0.113);
+      pixels[y * WIDTH + x] = Math.max(0, Math.min(255, Math.round(value)));
+    }
+  }
+  return pixels;
+}
+
+const quality = {
+  sharpness: 200,
+  averageLuma: 0.5,
+  highlightClipping: 0,
+  shadowClipping: 0,
+};
+
+describe("globalShift", () => {
+  it("finds the camera movement between two frames to a fraction of a pixel", () => {
+    const shift = globalShift(texture(0, 0), texture(3.5, -2), WIDTH, HEIGHT)!;
+
+    expect(Math.abs(Math.abs(shift.dx) - 3.5)).toBeLessThan(0.3);
+    expect(Math.abs(Math.abs(shift.dy) - 2)).toBeLessThan(0.3);
+  });
+});
+
+describe("measureShake", () => {
+  it("scores a steady pan near zero", () => {
+    const burst = [0, 1, 2, 3, 4].map((i) => texture(i * 4, i));
+
+    expect(measureShake(burst, WIDTH, HEIGHT)).toBeLessThan(0.002);
+  });
+
+  it("scores a handheld wobble as shake", () => {
+    const burst = [0, 3, -1, 4, 0].map((x, i) => texture(x, i % 2 === 0 ? 0 : 2));
+
+    expect(measureShake(burst, WIDTH, HEIGHT)).toBeGreaterThan(0.01);
+  });
+});
+
+describe("qualityIssues", () => {
+  it("flags shake but not fast motion", () => {
+    expect(qualityIssues({ ...quality, motion: 0.05, shake: 0.002 })).toEqual([]);
+    expect(qualityIssues({ ...quality, motion: 0.01, shake: 0.02 })).toEqual(["camera shake"]);
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import { alignTokens, buildPaperEdit } from "../../src/analyzer/paper-edit.js";
+import type { SpeechAnalysisResult } from "../../src/types/index.js";
+
+const lines = [
+  "Welcome to the show.",
+  "Today we talk about cameras.",
+  "Then we look at lenses.",
+];
+
+// One word every 0.5 s, each 0.4 s long
+const speech: SpeechAnalysisResult = {
+  analysisId: "test",
+  videoPath: "/videos/interview.mp4",
+  duration: 8,
+  language: "en",
+  segments: [],
+  words: lines
+    .join(" ")
+    .split(" ")
+    .map((word, i) => ({ word, start: i * 0.5, end: i * 0.5 + 0.4, confidence: 0.9 })),
+  createdAt: 0,
+};
+
+const tokens = (text: string) => text.toLowerCase().replace(/[.,]/g, "").split(" ");
+const source = tokens(lines.join(" "));
+
+describe("alignTokens", () => {
+  it("maps an unchanged transcript word for word", () => {
+    expect(alignTokens(source, source)).toEqual(source.map((_, i) => i));
+  });
+
+  it("skips deleted lines", () => {
+    expect(alignTokens(source, tokens(`${lines[0]} ${lines[2]}`))).toEqual([
+      0, 1, 2, 3, 9, 10, 11, 12, 13,
+    ]);
+  });
+
+  it("follows reordered lines to the repeated word in the right one", () => {
+    // "we" is in both the second and third line
+    expect(alignTokens(source, tokens(`${lines[2]} ${lines[1]}`))).toEqual([
+      9, 10, 11, 12, 13, 4, 5, 6, 7, 8,
+    ]);
+  });
+
+  it("leaves paraphrased words unmatched and keeps their neighbours", () => {
+    expect(alignTokens(source, tokens("Today we discuss cameras"))).toEqual([4, 5, null, 8]);
+  });
+});
+
+describe("buildPaperEdit", () => {
+  it("lays reordered lines back to back in the edited order", () => {
+    const { decisions, unmatched } = buildPaperEdit(speech, `${lines[2]}\n${lines[0]}`);
+
+    expect(unmatched).toEqual([]);
+    expect(decisions.map((d) => [d.index, d.text, d.sourceIn, d.recordIn])).toEqual([
+      [1, "Then we look at lenses.", 4.5, 0],
+      [2, "Welcome to the show.", 0, expect.closeTo(2.4)],
+    ]);
+    expect(decisions[0].sourceOut).toBeCloseTo(6.9);
+    expect(decisions[1].recordOut).toBeCloseTo(decisions[1].recordIn + 1.9);
+  });
+
+  it("keeps handles out of the words that were cut", () => {
+    const { decisions } = buildPaperEdit(speech, `${lines[0]} ${lines[2]}`, { handles: 0.3 });
+
+    expect(decisions).toHaveLength(2);
+    // "show." ends at 1.9 and "Today" starts at 2.0
+    expect(decisions[0].sourceIn).toBe(0);
+    expect(decisions[0].sourceOut).toBeCloseTo(2.0);
+    // "cameras." ends at 4.4 and "Then" starts at 4.5
+    expect(decisions[1].sourceIn).toBeCloseTo(4.4);
+    expect(decisions[1].sourceOut).toBeCloseTo(7.2);
+  });
+
+  it("reports paraphrased words it could not find", () => {
+    const { decisions, unmatched } = buildPaperEdit(speech, "Today we discuss cameras.");
+
+    expect(unmatched).toEqual(["discuss"]);
+    expect(decisions.map((d) => d.text)).toEqual(["Today we", "cameras."]);
+  });
+
+  it("needs word timings", () => {
+    expect(() => buildPaperEdit({ ...speech, words: [] }, lines[0])).toThrow("no word timings");
+  });
+});
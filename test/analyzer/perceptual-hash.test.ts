@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import {
+  groupDuplicateFrames,
+  hammingDistance,
+  hashFromPixels,
+} from "../../src/analyzer/perceptual-hash.js";
+
+const SIZE = 32;
+
+// 32x32 grayscale frame from a per-pixel function
+function frame(pixel: (x: number, y: number) => number): Buffer {
+  const pixels = Buffer.alloc(SIZE * SIZE);
+  for (let y = 0; y < SIZE; y++) {
+    for (let x = 0; x < SIZE; x++) {
+      pixels[y * SIZE + x] = Math.max(0, Math.min(255, Math.round(pixel(x, y))));
+    }
+  }
+  return pixels;
+}
+
+// A bright subject on the left of a textured background, like a talking head
+const scene = (x: number, y: number) =>
+  60 +
+  50 * Math.sin(x / 3) * Math.cos(y / 4) +
+  80 * Math.exp(-((x - 10) ** 2 + (y - 14) ** 2) / 60) +
+  2 * y;
+
+// Deterministic pseudo-random noise
+function noise(seed: number) {
+  let state = seed;
+  return () => {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    return state / 2147483648 - 0.5;
+  };
+}
+
+describe("hashFromPixels", () => {
+  it("gives a 64-bit hex hash", () => {
+    expect(hashFromPixels(frame(scene))).toMatch(/^[0-9a-f]{16}$/);
+  });
+
+  it("ignores an overall brightness change", () => {
+    expect(hashFromPixels(frame((x, y) => scene(x, y) + 30))).toBe(
+      hashFromPixels(frame(scene))
+    );
+  });
+
+  it("keeps compression-like noise within the default dedupe threshold", () => {
+    const random = noise(7);
+    const noisy = frame((x, y) => scene(x, y) + 8 * random());
+
+    const distance = hammingDistance(hashFromPixels(noisy), hashFromPixels(frame(scene)));
+    expect(distance).toBeLessThanOrEqual(6);
+  });
+
+  it("tells a different composition apart", () => {
+    const mirrored = frame((x, y) => scene(SIZE - 1 - x, SIZE - 1 - y));
+
+    const distance = hammingDistance(hashFromPixels(mirrored), hashFromPixels(frame(scene)));
+    expect(distance).toBeGreaterThan(20);
+  });
+});
+
+describe("hammingDistance", () => {
+  it("counts differing bits", () => {
+    expect(hammingDistance("0000", "0000")).toBe(0);
+    expect(hammingDistance("000a", "0005")).toBe(4);
+    expect(hammingDistance("0000000000000000", "ffffffffffffffff")).toBe(64);
+  });
+});
+
+describe("groupDuplicateFrames", () => {
+  // 0, 3, 6 and 9 bits away from the first hash
+  const hashes = ["0000000000000000", "0000000000000007", "000000000000003f", "00000000000001ff"];
+
+  it("maps frames within the threshold to the last kept frame", () => {
+    expect(groupDuplicateFrames(hashes, 6)).toEqual([0, 0, 0, 3]);
+  });
+
+  it("compares against the kept frame, not the previous one", () => {
+    // Each step is only 3 bits, but the drift from frame 0 adds up
+    expect(groupDuplicateFrames(hashes, 3)).toEqual([0, 0, 2, 2]);
+  });
+
+  it("keeps every frame with a zero threshold unless identical", () => {
+    expect(groupDuplicateFrames([...hashes, hashes[3]], 0)).toEqual([0, 1, 2, 3, 3]);
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+import { trackPeople } from "../../src/analyzer/person-tracker.js";
+import { appearanceSimilarity, colorHistogram } from "../../src/analyzer/people/appearance.js";
+import type { FrameAnalysis, PersonDetection } from "../../src/types/index.js";
+
+const WIDTH = 8;
+const HEIGHT = 4;
+
+// An RGB image whose left half is one colour and right half another
+function twoColorImage(left: number[], right: number[]): Buffer {
+  const rgb = Buffer.alloc(WIDTH * HEIGHT * 3);
+  for (let y = 0; y < HEIGHT; y++) {
+    for (let x = 0; x < WIDTH; x++) {
+      rgb.set(x < WIDTH / 2 ? left : right, (y * WIDTH + x) * 3);
+    }
+  }
+  return rgb;
+}
+
+const red = colorHistogram(twoColorImage([200, 20, 20], [0, 0, 0]), WIDTH, HEIGHT, {
+  x: 0,
+  y: 0,
+  width: 0.5,
+  height: 1,
+});
+const blue = colorHistogram(twoColorImage([0, 0, 0], [20, 20, 200]), WIDTH, HEIGHT, {
+  x: 0.5,
+  y: 0,
+  width: 0.5,
+  height: 1,
+});
+
+function frame(timestamp: number, shotIndex: number, people: PersonDetection[]): FrameAnalysis {
+  return { timestamp, shotIndex, framePath: "", description: "", objects: [], scene: "", people };
+}
+
+describe("colorHistogram", () => {
+  it("measures only the pixels inside the box", () => {
+    expect(red).toBeDefined();
+    expect(Math.max(...red!)).toBe(1);
+    expect(appearanceSimilarity(red, red)).toBe(1);
+    expect(appearanceSimilarity(red, blue)).toBe(0);
+  });
+});
+
+describe("trackPeople", () => {
+  it("follows people without descriptions across a cut by clothing colour", () => {
+    const frames = [
+      frame(0, 0, [
+        { box: { x: 0.05, y: 0.1, width: 0.3, height: 0.8 }, appearance: red },
+        { box: { x: 0.6, y: 0.1, width: 0.3, height: 0.8 }, appearance: blue },
+      ]),
+      // After the cut the two have swapped sides, so box overlap would mix them up
+      frame(1, 1, [
+        { box: { x: 0.05, y: 0.1, width: 0.3, height: 0.8 }, appearance: blue },
+        { box: { x: 0.6, y: 0.1, width: 0.3, height: 0.8 }, appearance: red },
+      ]),
+    ];
+
+    const tracks = trackPeople(frames);
+
+    expect(tracks).toHaveLength(2);
+    expect(frames[1].people!.map((p) => p.trackId)).toEqual([2, 1]);
+  });
+
+  it("starts a new track for a differently dressed person after a cut", () => {
+    const frames = [
+      frame(0, 0, [{ box: { x: 0.3, y: 0.1, width: 0.3, height: 0.8 }, appearance: red }]),
+      frame(1, 1, [{ box: { x: 0.3, y: 0.1, width: 0.3, height: 0.8 }, appearance: blue }]),
+    ];
+
+    expect(trackPeople(frames)).toHaveLength(2);
+  });
+
+  it("prefers descriptions when both sides have one", () => {
+    const frames = [
+      frame(0, 0, [
+        {
+          box: { x: 0.3, y: 0.1, width: 0.3, height: 0.8 },
+          description: "woman with red scarf and glasses",
+          appearance: red,
+        },
+      ]),
+      frame(1, 1, [
+        {
+          box: { x: 0.3, y: 0.1, width: 0.3, height: 0.8 },
+          description: "woman with red scarf and glasses",
+          appearance: blue,
+        },
+      ]),
+    ];
+
+    expect(trackPeople(frames)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,150 @@
+import { describe, expect, it } from "vitest";
+import { findSegments } from "../../src/analyzer/segment-finder.js";
+import type { SpeechAnalysisResult, VisualAnalysisResult } from "../../src/types/index.js";
+
+const videoPath = "/videos/interview.mp4";
+
+const speech: SpeechAnalysisResult = {
+  analysisId: "speech",
+  videoPath,
+  duration: 20,
+  language: "en",
+  segments: [{ id: 0, start: 2, end: 6, text: "Let me show you the product" }],
+  words: [],
+  createdAt: 1,
+};
+
+const visual: VisualAnalysisResult = {
+  analysisId: "visual",
+  videoPath,
+  duration: 20,
+  fps: 1,
+  framesAnalyzed: 2,
+  frames: [
+    {
+      timestamp: 10,
+      framePath: "",
+      description: "Close-up of the product on a table",
+      objects: ["product"],
+      scene: "studio",
+      attributes: { framing: "close-up" },
+      people: [],
+    },
+    {
+      timestamp: 15,
+      framePath: "",
+      description: "Wide shot of the product and the host",
+      objects: ["product", "person"],
+      scene: "studio",
+      attributes: { framing: "wide" },
+      people: [
+        {
+          trackId: 1,
+          box: { x: 0.4, y: 0.2, width: 0.2, height: 0.6 },
+          confidence: 0.9,
+          shotSize: "wide",
+        },
+      ],
+    },
+  ],
+  createdAt: 1,
+};
+
+describe("findSegments frame filters", () => {
+  it("returns speech and visual matches without filters", () => {
+    const segments = findSegments(speech, visual, { query: "product", searchType: "both" });
+
+    expect(segments.map((s) => s.matchType).sort()).toEqual(["speech", "visual", "visual"]);
+  });
+
+  it("leaves out speech matches when attribute filters are set", () => {
+    const segments = findSegments(speech, visual, {
+      query: "product",
+      searchType: "both",
+      attributeFilters: [{ field: "framing", operator: "==", value: "close-up" }],
+    });
+
+    expect(segments).toHaveLength(1);
+    expect(segments[0]).toMatchObject({ matchType: "visual" });
+    expect(segments[0].start).toBeLessThanOrEqual(10);
+    expect(segments[0].end).toBeGreaterThan(10);
+  });
+
+  it("leaves out speech matches when person filters are set", () => {
+    const segments = findSegments(speech, visual, {
+      query: "product",
+      searchType: "both",
+      minPeople: 1,
+    });
+
+    expect(segments).toHaveLength(1);
+    expect(segments[0]).toMatchObject({ matchType: "visual" });
+    expect(segments[0].end).toBeGreaterThan(15);
+  });
+});
+
+describe("findSegments semantic blending", () => {
+  const talk: SpeechAnalysisResult = {
+    ...speech,
+    segments: [
+      { id: 0, start: 0, end: 4, text: "Our pricing changed" },
+      { id: 1, start: 10, end: 14, text: "We talked about costs" },
+      { id: 2, start: 20, end: 24, text: "The weather was lovely" },
+      { id: 3, start: 30, end: 34, text: "Pricing, again" },
+    ],
+  };
+  const semanticScores = {
+    speech: new Map([
+      [0, 0.5],
+      [1, 0.6],
+      [2, 0.1],
+      [3, -0.5],
+    ]),
+    visual: new Map<number, number>(),
+  };
+
+  const search = (options: { semanticWeight?: number; minScore?: number } = {}) =>
+    findSegments(talk, null, {
+      query: "pricing",
+      searchType: "speech",
+      semanticScores,
+      ...options,
+    }).map((s) => [s.matchedContent, s.confidence, s.similarity]);
+
+  it("blends similarity with the keyword score and ranks by the blend", () => {
+    expect(search()).toEqual([
+      // 0.7 * 0.5 + 0.3 * 1
+      ["Our pricing changed", 0.65, 0.5],
+      // Similar without the keyword: 0.7 * 0.6
+      ["We talked about costs", 0.42, 0.6],
+      // A keyword hit still counts when the meaning is far off
+      ["Pricing, again", 0.3, -0.5],
+    ]);
+  });
+
+  it("leaves out matches below the minimum score", () => {
+    expect(search({ minScore: 0.5 }).map(([text]) => text)).toEqual(["Our pricing changed"]);
+  });
+
+  it("ranks by similarity alone with a weight of 1", () => {
+    expect(search({ semanticWeight: 1, minScore: 0 }).map(([text]) => text)).toEqual([
+      "We talked about costs",
+      "Our pricing changed",
+      "The weather was lovely",
+      "Pricing, again",
+    ]);
+  });
+
+  it("scores frames by their timestamp", () => {
+    const segments = findSegments(null, visual, {
+      query: "host",
+      searchType: "visual",
+      semanticScores: { speech: new Map(), visual: new Map([[15000, 0.8]]) },
+    });
+
+    expect(segments).toHaveLength(1);
+    expect(segments[0]).toMatchObject({ matchType: "visual", similarity: 0.8 });
+    // 0.7 * 0.8 + 0.3 for "host" in the description
+    expect(segments[0].confidence).toBeCloseTo(0.86, 3);
+  });
+});
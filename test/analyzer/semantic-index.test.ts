@@ -0,0 +1,139 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { embedText, localEmbeddingProvider } from "../../src/analyzer/embeddings/local.js";
+import type { EmbeddingProvider, SpeechAnalysisResult } from "../../src/types/index.js";
+
+const home = fs.mkdtempSync(path.join(os.tmpdir(), "premiere-mcp-test-"));
+const originalHome = process.env.HOME;
+const videoPath = "/videos/interview.mp4";
+
+let store: typeof import("../../src/cache/store.js");
+let semantic: typeof import("../../src/analyzer/semantic-index.js");
+
+beforeAll(async () => {
+  process.env.HOME = home;
+  store = await import("../../src/cache/store.js");
+  semantic = await import("../../src/analyzer/semantic-index.js");
+  store.initializeCache();
+});
+
+afterAll(() => {
+  store.closeCache();
+  process.env.HOME = originalHome;
+  fs.rmSync(home, { recursive: true, force: true });
+});
+
+const similarity = (a: string, b: string) =>
+  semantic.cosineSimilarity(embedText(a), embedText(b));
+
+// The local provider, recording every text it is asked to embed
+function countingProvider() {
+  const embedded: string[] = [];
+  const provider: EmbeddingProvider = {
+    ...localEmbeddingProvider,
+    embed: async (texts) => {
+      embedded.push(...texts);
+      return localEmbeddingProvider.embed(texts);
+    },
+  };
+  return { provider, embedded };
+}
+
+function transcript(texts: string[]): SpeechAnalysisResult {
+  return {
+    analysisId: "speech",
+    videoPath,
+    duration: texts.length * 5,
+    language: "en",
+    segments: texts.map((text, id) => ({ id, start: id * 5, end: id * 5 + 4, text })),
+    words: [],
+    createdAt: 1,
+  };
+}
+
+describe("cosineSimilarity", () => {
+  it("compares direction, not length", () => {
+    expect(semantic.cosineSimilarity([1, 2, 3], [2, 4, 6])).toBeCloseTo(1, 10);
+    expect(semantic.cosineSimilarity([1, 0], [0, 3])).toBe(0);
+    expect(semantic.cosineSimilarity([1, 1], [-1, -1])).toBeCloseTo(-1, 10);
+  });
+
+  it("gives 0 for an empty vector", () => {
+    expect(semantic.cosineSimilarity([0, 0], [1, 1])).toBe(0);
+  });
+});
+
+describe("embedText", () => {
+  it("returns the same unit vector for the same text", () => {
+    const vector = embedText("Our pricing changed last month");
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+
+    expect(vector).toEqual(embedText("Our pricing changed last month"));
+    expect(vector).toHaveLength(512);
+    expect(norm).toBeCloseTo(1, 10);
+  });
+
+  it("ignores case, punctuation and stop words", () => {
+    expect(similarity("The PRICE, for you!", "price")).toBeCloseTo(1, 10);
+  });
+
+  it("places inflections of a word close together", () => {
+    expect(similarity("pricing", "prices")).toBeCloseTo(1, 10);
+    expect(similarity("pricing", "priced")).toBeCloseTo(1, 10);
+    expect(similarity("pricing", "weather")).toBeLessThan(0.2);
+  });
+
+  it("scores partial overlap between exact and unrelated", () => {
+    const partial = similarity("new pricing plans", "pricing for teams");
+
+    expect(partial).toBeGreaterThan(0.2);
+    expect(partial).toBeLessThan(0.9);
+  });
+
+  it("gives a zero vector when there are no words to embed", () => {
+    expect(embedText("the, and... a").every((v) => v === 0)).toBe(true);
+  });
+});
+
+describe("computeSemanticScores", () => {
+  it("ranks transcript segments by similarity to the query", async () => {
+    const speech = transcript([
+      "The weather was lovely on the day we filmed",
+      "We changed our prices last month",
+      "Team plans are priced per seat, and pricing starts at ten dollars",
+    ]);
+
+    const scores = await semantic.computeSemanticScores(
+      videoPath,
+      speech,
+      null,
+      "pricing",
+      localEmbeddingProvider
+    );
+
+    const ranked = [...scores.speech.entries()].sort((a, b) => b[1] - a[1]).map(([id]) => id);
+    expect(ranked).toEqual([2, 1, 0]);
+    expect(scores.speech.get(0)).toBeLessThan(0.2);
+    expect(scores.visual.size).toBe(0);
+  });
+
+  it("embeds only the query and changed segments once indexed", async () => {
+    const { provider, embedded } = countingProvider();
+    const speech = transcript(["Welcome to the launch", "Here is the new camera"]);
+    const video = "/videos/launch.mp4";
+
+    await semantic.computeSemanticScores(video, speech, null, "camera", provider);
+    expect(embedded).toEqual(["camera", "Welcome to the launch", "Here is the new camera"]);
+
+    embedded.length = 0;
+    await semantic.computeSemanticScores(video, speech, null, "launch", provider);
+    expect(embedded).toEqual(["launch"]);
+
+    embedded.length = 0;
+    speech.segments[1].text = "Here is the new lens";
+    await semantic.computeSemanticScores(video, speech, null, "lens", provider);
+    expect(embedded).toEqual(["lens", "Here is the new lens"]);
+  });
+});
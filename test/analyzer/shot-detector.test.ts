@@ -0,0 +1,152 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import type { Shot } from "../../src/types/index.js";
+
+// No ffmpeg in tests: the stub replays the scene-detection log set here
+const ffmpegRun = vi.hoisted(() => ({ log: [] as string[], runs: 0 }));
+
+interface FfmpegCommandStub {
+  on(event: string, handler: (arg?: string) => void): FfmpegCommandStub;
+  run(): void;
+}
+
+vi.mock("fluent-ffmpeg", () => ({
+  default: (): FfmpegCommandStub => {
+    const handlers: Record<string, (arg?: string) => void> = {};
+    const chain: FfmpegCommandStub = new Proxy<FfmpegCommandStub>({} as FfmpegCommandStub, {
+      get: (_, prop) => {
+        if (prop === "on") {
+          return (event: string, handler: (arg?: string) => void) => {
+            handlers[event] = handler;
+            return chain;
+          };
+        }
+        if (prop === "run") {
+          return () => {
+            ffmpegRun.runs++;
+            setImmediate(() => {
+              for (const line of ffmpegRun.log) handlers.stderr?.(line);
+              handlers.end?.();
+            });
+          };
+        }
+        return () => chain;
+      },
+    });
+    return chain;
+  },
+}));
+
+vi.mock("../../src/utils/video-info.js", () => ({
+  getVideoInfo: async () => ({ duration: 12, width: 1920, height: 1080, fps: 25 }),
+}));
+
+const home = fs.mkdtempSync(path.join(os.tmpdir(), "premiere-mcp-test-"));
+const originalHome = process.env.HOME;
+
+let store: typeof import("../../src/cache/store.js");
+let shots: typeof import("../../src/analyzer/shot-detector.js");
+
+beforeAll(async () => {
+  process.env.HOME = home;
+  store = await import("../../src/cache/store.js");
+  shots = await import("../../src/analyzer/shot-detector.js");
+  store.initializeCache();
+});
+
+afterAll(() => {
+  store.closeCache();
+  process.env.HOME = originalHome;
+  fs.rmSync(home, { recursive: true, force: true });
+});
+
+const bounds = (list: Shot[]) => list.map((s) => [s.start, s.end]);
+
+describe("buildShots", () => {
+  it("covers the whole video with one shot per cut", () => {
+    const result = shots.buildShots(
+      [
+        { time: 7, score: 0.61234 },
+        { time: 3, score: 0.45 },
+      ],
+      10,
+      0.5
+    );
+
+    expect(result).toEqual([
+      { index: 0, start: 0, end: 3, duration: 3, cutScore: 1 },
+      { index: 1, start: 3, end: 7, duration: 4, cutScore: 0.45 },
+      { index: 2, start: 7, end: 10, duration: 3, cutScore: 0.612 },
+    ]);
+  });
+
+  it("drops cuts closer than the minimum shot length to the previous one", () => {
+    const result = shots.buildShots(
+      [
+        { time: 2, score: 0.5 },
+        { time: 2.2, score: 0.9 },
+        { time: 5, score: 0.5 },
+      ],
+      10,
+      0.5
+    );
+
+    expect(bounds(result)).toEqual([
+      [0, 2],
+      [2, 5],
+      [5, 10],
+    ]);
+  });
+
+  it("folds a too-short last shot into the one before it", () => {
+    const result = shots.buildShots([{ time: 9.8, score: 0.5 }], 10, 0.5);
+
+    expect(bounds(result)).toEqual([[0, 10]]);
+  });
+
+  it("returns a single shot when there are no cuts", () => {
+    expect(bounds(shots.buildShots([], 4, 0.5))).toEqual([[0, 4]]);
+  });
+});
+
+describe("representativeTimestamps", () => {
+  const shot: Shot = { index: 1, start: 3, end: 7, duration: 4, cutScore: 0.5 };
+
+  it("takes the middle of the shot for one frame", () => {
+    expect(shots.representativeTimestamps(shot, 1)).toEqual([5]);
+  });
+
+  it("spaces several frames evenly away from the cuts", () => {
+    expect(shots.representativeTimestamps(shot, 3)).toEqual([4, 5, 6]);
+  });
+});
+
+describe("detectShots", () => {
+  it("reads scene scores from the ffmpeg log and caches the shots", async () => {
+    const prefix = "[Parsed_metadata_2 @ 0x55a1]";
+    ffmpegRun.log = [
+      `${prefix} frame:0    pts:100352  pts_time:3.92`,
+      `${prefix} lavfi.scene_score=0.532100`,
+      "frame=  300 fps=0.0 q=-0.0 size=N/A time=00:00:12.00 bitrate=N/A speed=60x",
+      `${prefix} frame:1    pts:209920  pts_time:8.2`,
+      `${prefix} lavfi.scene_score=0.871000`,
+    ];
+
+    const result = await shots.detectShots("/videos/a.mp4");
+
+    expect(result.shots.map((s) => [s.start, s.end, s.cutScore])).toEqual([
+      [0, 3.92, 1],
+      [3.92, 8.2, 0.532],
+      [8.2, 12, 0.871],
+    ]);
+
+    await shots.detectShots("/videos/a.mp4");
+    expect(ffmpegRun.runs).toBe(1);
+
+    // Other settings are a different analysis
+    await shots.detectShots("/videos/a.mp4", { threshold: 0.5 });
+    expect(ffmpegRun.runs).toBe(2);
+  });
+});
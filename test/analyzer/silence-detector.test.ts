@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import { computeKeepRanges } from "../../src/analyzer/silence-detector.js";
+
+const silence = (start: number, end: number) => ({ start, end, duration: end - start });
+
+describe("computeKeepRanges", () => {
+  it("keeps the speech between silences, padded on both sides", () => {
+    const keep = computeKeepRanges([silence(2, 4), silence(6, 9)], 10);
+
+    expect(keep.map((r) => [r.start, r.end])).toEqual([
+      [0, 2.1],
+      [3.9, 6.1],
+      [8.9, 10],
+    ]);
+  });
+
+  it("doesn't cut silences shorter than twice the padding", () => {
+    const keep = computeKeepRanges([silence(2, 2.05), silence(5, 7)], 10);
+
+    expect(keep.map((r) => [r.start, r.end])).toEqual([
+      [0, 5.1],
+      [6.9, 10],
+    ]);
+  });
+
+  it("never returns overlapping ranges", () => {
+    const silences = [silence(1, 1.1), silence(1.5, 1.6), silence(3, 3.15), silence(4, 6)];
+    const keep = computeKeepRanges(silences, 8, { padding: 0.1, minKeepDuration: 0 });
+
+    for (let i = 1; i < keep.length; i++) {
+      expect(keep[i].start).toBeGreaterThanOrEqual(keep[i - 1].end);
+    }
+  });
+
+  it("drops keep ranges shorter than minKeepDuration", () => {
+    const keep = computeKeepRanges([silence(0.5, 3), silence(3.2, 6)], 6);
+
+    expect(keep.map((r) => [r.start, r.end])).toEqual([[0, 0.6]]);
+  });
+});
@@ -0,0 +1,39 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { afterAll, describe, expect, it } from "vitest";
+import { createTesseractOcrProvider } from "../../src/analyzer/ocr/tesseract.js";
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), "premiere-mcp-tesseract-"));
+
+// Stand-in for the tesseract CLI that lists English and German
+const fakeTesseract = path.join(dir, "tesseract");
+fs.writeFileSync(
+  fakeTesseract,
+  '#!/bin/sh\necho "List of available languages in \\"/usr/share/tessdata/\\" (3):"\necho eng\necho deu\necho osd\n',
+  { mode: 0o755 }
+);
+
+afterAll(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe("tesseract checkAvailable", () => {
+  it("passes when every requested language is installed", async () => {
+    await expect(
+      createTesseractOcrProvider(fakeTesseract, "eng+deu").checkAvailable!()
+    ).resolves.toBeUndefined();
+  });
+
+  it("names missing language data", async () => {
+    await expect(
+      createTesseractOcrProvider(fakeTesseract, "eng+fra").checkAvailable!()
+    ).rejects.toThrow(/no language data for fra/);
+  });
+
+  it("explains a missing executable", async () => {
+    await expect(
+      createTesseractOcrProvider(path.join(dir, "missing"), "eng").checkAvailable!()
+    ).rejects.toThrow(/Tesseract not found/);
+  });
+});
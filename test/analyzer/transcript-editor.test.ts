@@ -0,0 +1,110 @@
+import { describe, expect, it } from "vitest";
+import { applyTranscriptEdits } from "../../src/analyzer/transcript-editor.js";
+import type { SpeechAnalysisResult } from "../../src/types/index.js";
+
+const speech: SpeechAnalysisResult = {
+  analysisId: "original",
+  videoPath: "/videos/interview.mp4",
+  duration: 10,
+  language: "en",
+  segments: [
+    { id: 0, start: 0, end: 2, text: "We use premier pro", speaker: "SPEAKER_1" },
+    { id: 1, start: 3, end: 4, text: "every day", speaker: "SPEAKER_1" },
+  ],
+  words: [
+    { word: "We", start: 0, end: 0.3, confidence: 0.9, speaker: "SPEAKER_1" },
+    { word: "use", start: 0.4, end: 0.7, confidence: 0.9, speaker: "SPEAKER_1" },
+    { word: "premier", start: 0.8, end: 1.3, confidence: 0.4, speaker: "SPEAKER_1" },
+    { word: "pro", start: 1.4, end: 1.9, confidence: 0.8, speaker: "SPEAKER_1" },
+    { word: "every", start: 3, end: 3.4, confidence: 0.9, speaker: "SPEAKER_1" },
+    { word: "day", start: 3.5, end: 3.9, confidence: 0.9, speaker: "SPEAKER_1" },
+  ],
+  createdAt: 1,
+};
+
+describe("applyTranscriptEdits", () => {
+  it("keeps the recognized word timings when the word count is unchanged", () => {
+    const result = applyTranscriptEdits(speech, [
+      { type: "replace_text", segmentId: 0, text: "We use Premiere Pro" },
+    ]);
+
+    expect(result.segments[0]).toMatchObject({ start: 0, end: 2, text: "We use Premiere Pro" });
+    expect(result.words.slice(0, 4).map((w) => [w.word, w.start, w.end])).toEqual([
+      ["We", 0, 0.3],
+      ["use", 0.4, 0.7],
+      ["Premiere", 0.8, 1.3],
+      ["Pro", 1.4, 1.9],
+    ]);
+    expect(result.words[2].confidence).toBe(1);
+    // Case-only changes aren't recognition errors worth learning
+    expect(result.corrections).toEqual([{ from: "premier", to: "Premiere" }]);
+  });
+
+  it("spreads the segment's time over new text with a different word count", () => {
+    const result = applyTranscriptEdits(speech, [
+      { type: "replace_text", segmentId: 1, text: "each and every day" },
+    ]);
+
+    const edited = result.words.filter((w) => w.start >= 3);
+    expect(edited.map((w) => w.word)).toEqual(["each", "and", "every", "day"]);
+    expect(edited[0].start).toBe(3);
+    expect(edited[3].end).toBeCloseTo(4);
+    expect(edited.every((w) => w.speaker === "SPEAKER_1")).toBe(true);
+    // The other segment is untouched
+    expect(result.words.slice(0, 4)).toEqual(speech.words.slice(0, 4));
+  });
+
+  it("splits a segment at a time between its words", () => {
+    const result = applyTranscriptEdits(speech, [{ type: "split", segmentId: 0, at: 0.75 }]);
+
+    expect(result.segments.map((s) => [s.id, s.start, s.end, s.text])).toEqual([
+      [0, 0, 0.75, "We use"],
+      [1, 0.75, 2, "premier pro"],
+      [2, 3, 4, "every day"],
+    ]);
+    expect(result.words).toEqual(speech.words);
+  });
+
+  it("merges a segment with the next and renumbers later edits", () => {
+    const result = applyTranscriptEdits(speech, [
+      { type: "split", segmentId: 0, at: 0.75 },
+      { type: "merge", segmentId: 1 },
+    ]);
+
+    expect(result.segments.map((s) => [s.id, s.start, s.end, s.text])).toEqual([
+      [0, 0, 0.75, "We use"],
+      [1, 0.75, 4, "premier pro every day"],
+    ]);
+  });
+
+  it("nudges a word without overlapping its neighbours", () => {
+    const result = applyTranscriptEdits(speech, [
+      { type: "nudge_word", at: 1.0, startDelta: -0.5, endDelta: 0.05 },
+    ]);
+
+    expect(result.words[2]).toMatchObject({ word: "premier", start: 0.7, end: 1.35 });
+  });
+
+  it("rejects edits that can't apply", () => {
+    expect(() => applyTranscriptEdits(speech, [{ type: "merge", segmentId: 1 }])).toThrow(
+      "no following segment"
+    );
+    expect(() => applyTranscriptEdits(speech, [{ type: "split", segmentId: 1, at: 5 }])).toThrow(
+      "outside segment"
+    );
+    expect(() =>
+      applyTranscriptEdits(speech, [{ type: "replace_text", segmentId: 9, text: "x" }])
+    ).toThrow("Segment 9 not found");
+  });
+
+  it("leaves the input transcript unchanged", () => {
+    const before = JSON.stringify(speech);
+
+    applyTranscriptEdits(speech, [
+      { type: "replace_text", segmentId: 0, text: "We use Premiere Pro" },
+      { type: "nudge_word", at: 3.2, startDelta: -0.2 },
+    ]);
+
+    expect(JSON.stringify(speech)).toBe(before);
+  });
+});
@@ -0,0 +1,229 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import type {
+  TranscriptSegment,
+  TranscriptionBackend,
+  WordTimestamp,
+} from "../../src/types/index.js";
+
+// No ffmpeg in tests: every command "succeeds" without producing output.
+// Builder methods (input, audioCodec, ...) all return the command itself.
+interface FfmpegCommandStub {
+  on(event: string, handler: () => void): FfmpegCommandStub;
+  run(): void;
+}
+
+vi.mock("fluent-ffmpeg", () => {
+  const command = (): FfmpegCommandStub => {
+    const handlers: Record<string, () => void> = {};
+    const chain: FfmpegCommandStub = new Proxy<FfmpegCommandStub>(
+      {} as FfmpegCommandStub,
+      {
+        get: (_, prop) => {
+          if (prop === "on") {
+            return (event: string, handler: () => void) => {
+              handlers[event] = handler;
+              return chain;
+            };
+          }
+          if (prop === "run") return () => setImmediate(() => handlers.end?.());
+          return () => chain;
+        },
+      }
+    );
+    return chain;
+  };
+  return { default: command };
+});
+
+vi.mock("../../src/utils/video-info.js", () => ({
+  getVideoInfo: async () => ({ duration: 20, width: 1920, height: 1080, fps: 25 }),
+}));
+
+// Diarization reads the extracted WAV, which the ffmpeg stub never writes
+vi.mock("../../src/analyzer/diarization.js", () => ({
+  diarizeTranscript: async (
+    _audioPath: string,
+    segments: TranscriptSegment[],
+    words: WordTimestamp[]
+  ) => ({
+    segments: segments.map((s) => ({ ...s, speaker: "SPEAKER_1" })),
+    words,
+    speakers: ["SPEAKER_1"],
+  }),
+}));
+
+const home = fs.mkdtempSync(path.join(os.tmpdir(), "premiere-mcp-test-"));
+const originalHome = process.env.HOME;
+
+let store: typeof import("../../src/cache/store.js");
+let whisper: typeof import("../../src/analyzer/whisper.js");
+let backends: typeof import("../../src/analyzer/transcription/index.js");
+
+// The cache lives under the home directory, so point it somewhere disposable
+// before anything opens it
+beforeAll(async () => {
+  process.env.HOME = home;
+  store = await import("../../src/cache/store.js");
+  whisper = await import("../../src/analyzer/whisper.js");
+  backends = await import("../../src/analyzer/transcription/index.js");
+  store.initializeCache();
+});
+
+afterAll(() => {
+  store.closeCache();
+  process.env.HOME = originalHome;
+  fs.rmSync(home, { recursive: true, force: true });
+});
+
+function fakeBackend(name: string, text: string): TranscriptionBackend & { calls: number } {
+  return {
+    name,
+    calls: 0,
+    async transcribe() {
+      this.calls++;
+      return {
+        language: "en",
+        segments: [{ id: 0, start: 1, end: 2.5, text }],
+        words: [{ word: text, start: 1, end: 2.5, confidence: 0.9 }],
+      };
+    },
+  };
+}
+
+describe("transcription backend registry", () => {
+  it("lists the built-in backends", () => {
+    expect(backends.transcriptionBackends.names()).toEqual(
+      expect.arrayContaining(["nodejs-whisper", "whisper-cpp-server", "faster-whisper", "http"])
+    );
+  });
+
+  it("rejects unknown names with the available choices", () => {
+    expect(() => backends.transcriptionBackends.get("nope")).toThrow(
+      /Unknown transcription backend "nope"\. Available: .*nodejs-whisper/
+    );
+  });
+
+  it("transcribes with a registered fake backend", async () => {
+    const backend = fakeBackend("fake", "hello");
+    backends.transcriptionBackends.register(backend);
+
+    const result = await whisper.transcribeVideo("/videos/a.mp4", { backend: "fake" });
+
+    expect(backend.calls).toBe(1);
+    expect(result.segments).toMatchObject([{ start: 1, end: 2.5, text: "hello", language: "en" }]);
+    expect(store.getSpeechAnalysis("/videos/a.mp4")?.analysisId).toBe(result.analysisId);
+  });
+
+  it("replaces a backend registered under the same name", async () => {
+    backends.transcriptionBackends.register(fakeBackend("fake", "first"));
+    const replacement = fakeBackend("fake", "second");
+    backends.transcriptionBackends.register(replacement);
+
+    const result = await whisper.transcribeVideo("/videos/b.mp4", { backend: "fake" });
+
+    expect(replacement.calls).toBe(1);
+    expect(result.segments[0].text).toBe("second");
+  });
+
+  it("tags segments that switch language within a chunk", async () => {
+    backends.transcriptionBackends.register({
+      name: "bilingual",
+      async transcribe() {
+        return {
+          language: "en",
+          segments: [
+            { id: 0, start: 0, end: 3, text: "So this is the part that we like" },
+            { id: 1, start: 3, end: 6, text: "Pero la verdad es que no lo sabemos" },
+          ],
+          words: [
+            { word: "So", start: 0, end: 0.5, confidence: 0.9 },
+            { word: "Pero", start: 3, end: 3.5, confidence: 0.9 },
+          ],
+        };
+      },
+    });
+
+    const result = await whisper.transcribeVideo("/videos/c.mp4", { backend: "bilingual" });
+
+    expect(result.segments.map((s) => s.language)).toEqual(["en", "es"]);
+    expect(result.words.map((w) => w.language)).toEqual(["en", "es"]);
+    expect(result.languages).toEqual(["en", "es"]);
+  });
+
+  it("applies new replacements to a cached transcript without transcribing again", async () => {
+    const backend = fakeBackend("cached", "premier pro");
+    backends.transcriptionBackends.register(backend);
+
+    await whisper.transcribeVideo("/videos/d.mp4", { backend: "cached" });
+    const result = await whisper.transcribeVideo("/videos/d.mp4", {
+      backend: "cached",
+      replacements: { premier: "Premiere" },
+    });
+
+    expect(backend.calls).toBe(1);
+    expect(result.segments[0].text).toBe("Premiere pro");
+    expect(store.getSpeechAnalysis("/videos/d.mp4")?.segments[0].text).toBe("Premiere pro");
+  });
+
+  it("transcribes again when the vocabulary changes", async () => {
+    const backend = fakeBackend("prompted", "hello");
+    backends.transcriptionBackends.register(backend);
+
+    await whisper.transcribeVideo("/videos/e.mp4", { backend: "prompted" });
+    await whisper.transcribeVideo("/videos/e.mp4", { backend: "prompted", vocabulary: ["Acme"] });
+    await whisper.transcribeVideo("/videos/e.mp4", { backend: "prompted", vocabulary: ["Acme"] });
+
+    expect(backend.calls).toBe(2);
+  });
+
+  it("transcribes again when the model or language changes", async () => {
+    const backend = fakeBackend("settings", "hello");
+    backends.transcriptionBackends.register(backend);
+
+    await whisper.transcribeVideo("/videos/f.mp4", { backend: "settings" });
+    await whisper.transcribeVideo("/videos/f.mp4", { backend: "settings", modelSize: "small" });
+    await whisper.transcribeVideo("/videos/f.mp4", { backend: "settings", modelSize: "small" });
+    await whisper.transcribeVideo("/videos/f.mp4", {
+      backend: "settings",
+      modelSize: "small",
+      language: "de",
+    });
+
+    expect(backend.calls).toBe(3);
+  });
+
+  it("transcribes again when the backend changes", async () => {
+    const first = fakeBackend("first-backend", "hello");
+    const second = fakeBackend("second-backend", "hello");
+    backends.transcriptionBackends.register(first);
+    backends.transcriptionBackends.register(second);
+
+    await whisper.transcribeVideo("/videos/g.mp4", { backend: "first-backend" });
+    const result = await whisper.transcribeVideo("/videos/g.mp4", { backend: "second-backend" });
+
+    expect(second.calls).toBe(1);
+    expect(result.backend).toBe("second-backend");
+  });
+
+  it("reuses a diarized transcript only for the same speaker count", async () => {
+    const backend = fakeBackend("speakers", "hello");
+    backends.transcriptionBackends.register(backend);
+
+    await whisper.transcribeVideo("/videos/h.mp4", { backend: "speakers", diarize: true });
+    await whisper.transcribeVideo("/videos/h.mp4", { backend: "speakers", diarize: true });
+    await whisper.transcribeVideo("/videos/h.mp4", { backend: "speakers" });
+    expect(backend.calls).toBe(1);
+
+    const result = await whisper.transcribeVideo("/videos/h.mp4", {
+      backend: "speakers",
+      diarize: true,
+      numSpeakers: 2,
+    });
+
+    expect(backend.calls).toBe(2);
+    expect(result.numSpeakers).toBe(2);
+  });
+});
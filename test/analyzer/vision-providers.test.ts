@@ -0,0 +1,122 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  computeImageStats,
+  describeImageStats,
+} from "../../src/analyzer/vision/image-stats.js";
+import { visionProviders } from "../../src/analyzer/vision/index.js";
+
+const WIDTH = 64;
+const HEIGHT = 36;
+
+function image(pixel: (x: number, y: number) => [number, number, number]): Buffer {
+  const rgb = Buffer.alloc(WIDTH * HEIGHT * 3);
+  for (let y = 0; y < HEIGHT; y++) {
+    for (let x = 0; x < WIDTH; x++) {
+      rgb.set(pixel(x, y), (y * WIDTH + x) * 3);
+    }
+  }
+  return rgb;
+}
+
+// Decoding needs ffmpeg; the provider gets a left-red, right-blue frame instead
+vi.mock("../../src/utils/image.js", () => ({
+  decodeRawImage: async () =>
+    image((x) => (x < WIDTH / 2 ? [200, 20, 20] : [20, 20, 200])),
+}));
+
+describe("computeImageStats", () => {
+  it("measures a black frame", () => {
+    const stats = computeImageStats(image(() => [0, 0, 0]), WIDTH, HEIGHT);
+
+    expect(stats).toEqual({
+      brightness: 0,
+      contrast: 0,
+      saturation: 0,
+      detail: 0,
+      dominantColors: [],
+    });
+    expect(describeImageStats(stats).description).toBe("Black frame");
+  });
+
+  it("names the colours covering most of the frame", () => {
+    // Three quarters green, a quarter orange
+    const stats = computeImageStats(
+      image((x) => (x < 48 ? [30, 180, 40] : [230, 130, 20])),
+      WIDTH,
+      HEIGHT
+    );
+
+    expect(stats.dominantColors).toEqual(["green", "orange"]);
+    expect(stats.saturation).toBeGreaterThan(0.7);
+  });
+
+  it("measures detail from neighbouring pixel differences", () => {
+    const flat = computeImageStats(image(() => [128, 128, 128]), WIDTH, HEIGHT);
+    const checkerboard = computeImageStats(
+      image((x, y) => ((x + y) % 2 === 0 ? [255, 255, 255] : [0, 0, 0])),
+      WIDTH,
+      HEIGHT
+    );
+
+    expect(flat.detail).toBe(0);
+    expect(flat.contrast).toBe(0);
+    expect(checkerboard.detail).toBeGreaterThan(0.9);
+    expect(checkerboard.contrast).toBeCloseTo(0.5, 2);
+  });
+});
+
+describe("describeImageStats", () => {
+  it("describes tone, contrast, detail and colour", () => {
+    const result = describeImageStats({
+      brightness: 0.8,
+      contrast: 0.3,
+      saturation: 0.5,
+      detail: 0.1,
+      dominantColors: ["blue", "green", "red"],
+    });
+
+    expect(result).toEqual({
+      description: "Bright, high-contrast, detailed frame with mostly blue and green tones",
+      objects: ["blue", "green", "red"],
+      scene: "bright detailed scene",
+    });
+  });
+
+  it("calls a desaturated frame nearly monochrome", () => {
+    const result = describeImageStats({
+      brightness: 0.2,
+      contrast: 0.05,
+      saturation: 0.05,
+      detail: 0.01,
+      dominantColors: [],
+    });
+
+    expect(result.description).toBe("Dark, low-contrast, flat frame with nearly monochrome colours");
+  });
+});
+
+describe("vision provider registry", () => {
+  it("lists the built-in providers", () => {
+    expect(visionProviders.names()).toEqual(
+      expect.arrayContaining(["claude", "http", "offline"])
+    );
+  });
+
+  it("rejects unknown names with the available choices", () => {
+    expect(() => visionProviders.get("nope")).toThrow(
+      /Unknown vision provider "nope"\. Available: .*offline/
+    );
+  });
+
+  it("describes a frame offline, the same way every time", async () => {
+    const provider = visionProviders.get("offline");
+
+    const first = JSON.parse(await provider.describeImage("/tmp/frame.jpg", "ignored prompt", {}));
+    const second = JSON.parse(await provider.describeImage("/tmp/frame.jpg", "another prompt", {}));
+
+    expect(first).toEqual(second);
+    expect(first.objects).toEqual(expect.arrayContaining(["red", "blue"]));
+    expect(first.description).toMatch(/mostly (red and blue|blue and red) tones/);
+    expect(first.stats.brightness).toBeGreaterThan(0);
+  });
+});
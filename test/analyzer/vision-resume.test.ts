@@ -0,0 +1,145 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import type { VisionProvider } from "../../src/types/index.js";
+
+// Four sampled frames; the second looks the same as the first
+const FRAMES = [0, 1, 2, 3].map((timestamp) => ({
+  timestamp,
+  framePath: `/frames/frame_${timestamp}.jpg`,
+}));
+const HASHES: Record<string, string> = {
+  "/frames/frame_0.jpg": "0000000000000000",
+  "/frames/frame_1.jpg": "0000000000000000",
+  "/frames/frame_2.jpg": "ffffffffffffffff",
+  "/frames/frame_3.jpg": "00000000ffffffff",
+};
+
+// No ffmpeg in tests: extraction, hashing, quality and thumbnails are stubbed
+vi.mock("../../src/utils/video-info.js", () => ({
+  getVideoInfo: async () => ({ duration: 4, width: 1920, height: 1080, fps: 25 }),
+}));
+
+vi.mock("../../src/analyzer/frame-extractor.js", () => ({
+  extractVideoFrames: async () => ({ frames: FRAMES, tempDir: "", framesSkipped: 0 }),
+  cleanupFrames: async () => {},
+}));
+
+vi.mock("../../src/analyzer/frame-quality.js", () => ({
+  measureFrameQuality: async (_videoPath: string, timestamps: number[]) =>
+    timestamps.map(() => ({
+      sharpness: 100,
+      averageLuma: 0.5,
+      highlightClipping: 0,
+      shadowClipping: 0,
+    })),
+}));
+
+vi.mock("../../src/analyzer/perceptual-hash.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../../src/analyzer/perceptual-hash.js")>()),
+  perceptualHash: async (framePath: string) => HASHES[framePath],
+}));
+
+vi.mock("../../src/cache/thumbnails.js", () => ({
+  saveThumbnail: async (_videoPath: string, timestamp: number) => `/thumbnails/${timestamp}.jpg`,
+}));
+
+const home = fs.mkdtempSync(path.join(os.tmpdir(), "premiere-mcp-test-"));
+const originalHome = process.env.HOME;
+const videoPath = "/videos/interview.mp4";
+
+let store: typeof import("../../src/cache/store.js");
+let vision: typeof import("../../src/analyzer/vision-analyzer.js");
+
+beforeAll(async () => {
+  process.env.HOME = home;
+  store = await import("../../src/cache/store.js");
+  vision = await import("../../src/analyzer/vision-analyzer.js");
+  store.initializeCache();
+});
+
+afterAll(() => {
+  store.closeCache();
+  process.env.HOME = originalHome;
+  fs.rmSync(home, { recursive: true, force: true });
+});
+
+// Records the frames it is asked about and fails the ones in `failing`
+function fakeProvider(failing: Set<string>) {
+  const calls: string[] = [];
+  const provider: VisionProvider = {
+    name: "fake",
+    defaultModel: "fake-model",
+    describeImage: async (imagePath) => {
+      calls.push(imagePath);
+      if (failing.has(imagePath)) throw new Error("provider unavailable");
+      return JSON.stringify({
+        description: `Frame ${path.basename(imagePath)}`,
+        objects: ["desk"],
+        scene: "studio",
+      });
+    },
+  };
+  return { provider, calls };
+}
+
+describe("analyzeVideoVisual resume", () => {
+  it("re-analyzes only the frames that failed last time", async () => {
+    const failing = new Set(["/frames/frame_3.jpg"]);
+    const { provider, calls } = fakeProvider(failing);
+    const options = { provider, maxRetries: 0 };
+
+    const first = await vision.analyzeVideoVisual(videoPath, options);
+
+    // The duplicate frame reuses the first frame's analysis
+    expect(calls).toEqual(["/frames/frame_0.jpg", "/frames/frame_2.jpg", "/frames/frame_3.jpg"]);
+    expect(first.frames.map((f) => f.error)).toEqual([
+      undefined,
+      undefined,
+      undefined,
+      "provider unavailable",
+    ]);
+    expect(store.getAnalysisStatus(first.analysisId)).toMatchObject({
+      status: "completed",
+      framesDone: 3,
+      framesRemaining: 1,
+    });
+
+    failing.clear();
+    calls.length = 0;
+    const second = await vision.analyzeVideoVisual(videoPath, options);
+
+    expect(calls).toEqual(["/frames/frame_3.jpg"]);
+    expect(second.frames.every((f) => !f.error)).toBe(true);
+    expect(second.frames[0].description).toBe(first.frames[0].description);
+    expect(store.getAnalysisStatus(second.analysisId)).toMatchObject({
+      framesDone: 4,
+      framesRemaining: 0,
+    });
+
+    // A complete analysis comes from the cache without any frame calls
+    calls.length = 0;
+    await vision.analyzeVideoVisual(videoPath, options);
+    expect(calls).toEqual([]);
+
+    // A forced re-run doesn't reuse saved frames
+    await vision.analyzeVideoVisual(videoPath, { ...options, forceReanalyze: true });
+    expect(calls).toHaveLength(3);
+  });
+
+  it("keys saved frames by prompt", async () => {
+    const { provider, calls } = fakeProvider(new Set(["/frames/frame_2.jpg"]));
+
+    await vision.analyzeVideoVisual("/videos/broll.mp4", { provider, maxRetries: 0 });
+    calls.length = 0;
+
+    // Frames saved for another prompt don't count as done
+    await vision.analyzeVideoVisual("/videos/broll.mp4", {
+      provider,
+      maxRetries: 0,
+      prompt: "List every product visible in this frame.",
+    });
+    expect(calls).toEqual(["/frames/frame_0.jpg", "/frames/frame_2.jpg", "/frames/frame_3.jpg"]);
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import {
+  parseWhisperJson,
+  parseWhisperStdout,
+} from "../../src/analyzer/transcription/whisper-cpp-output.js";
+
+function token(text: string, from: number, to: number, p: number) {
+  return { text, offsets: { from, to }, p };
+}
+
+describe("parseWhisperJson", () => {
+  it("joins sub-word tokens into words with mean token confidence", () => {
+    const result = parseWhisperJson({
+      result: { language: "en" },
+      transcription: [
+        {
+          offsets: { from: 0, to: 1500 },
+          text: " Hello wonderful",
+          tokens: [
+            token("[_BEG_]", 0, 0, 1),
+            token(" Hello", 0, 400, 0.9),
+            token(" wonder", 500, 900, 0.8),
+            token("ful", 900, 1200, 0.6),
+            token("[_TT_60]", 1200, 1200, 1),
+          ],
+        },
+      ],
+    });
+
+    expect(result.language).toBe("en");
+    expect(result.segments).toEqual([{ id: 0, start: 0, end: 1.5, text: "Hello wonderful" }]);
+    expect(result.words).toHaveLength(2);
+    expect(result.words[0]).toEqual({ word: "Hello", start: 0, end: 0.4, confidence: 0.9 });
+    expect(result.words[1]).toMatchObject({ word: "wonderful", start: 0.5, end: 1.2 });
+    expect(result.words[1].confidence).toBeCloseTo(0.7);
+  });
+
+  it("keeps segments without tokens and numbers them in order", () => {
+    const result = parseWhisperJson({
+      transcription: [
+        { offsets: { from: 0, to: 1000 }, text: " One" },
+        { offsets: { from: 1000, to: 2500 }, text: " Two " },
+      ],
+    });
+
+    expect(result.segments.map((s) => [s.id, s.start, s.end, s.text])).toEqual([
+      [0, 0, 1, "One"],
+      [1, 1, 2.5, "Two"],
+    ]);
+    expect(result.words).toEqual([]);
+    expect(result.language).toBeUndefined();
+  });
+});
+
+describe("parseWhisperStdout", () => {
+  it("reads timestamped lines and skips everything else", () => {
+    const segments = parseWhisperStdout(
+      [
+        "whisper_init_from_file: loading model",
+        "[00:00:01.000 --> 00:00:03.500]  Hello there",
+        "[00:01:00.250 --> 01:00:00.000]   Later on",
+      ].join("\n")
+    );
+
+    expect(segments).toEqual([
+      { id: 0, start: 1, end: 3.5, text: "Hello there" },
+      { id: 1, start: 60.25, end: 3600, text: "Later on" },
+    ]);
+  });
+});
@@ -0,0 +1,96 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+
+const home = fs.mkdtempSync(path.join(os.tmpdir(), "premiere-mcp-test-"));
+const originalHome = process.env.HOME;
+const videoPath = "/videos/interview.mp4";
+
+let store: typeof import("../../src/cache/store.js");
+let tool: typeof import("../../src/tools/edit-transcript.js");
+
+beforeAll(async () => {
+  process.env.HOME = home;
+  store = await import("../../src/cache/store.js");
+  tool = await import("../../src/tools/edit-transcript.js");
+  store.initializeCache();
+
+  store.saveSpeechAnalysis({
+    analysisId: "original",
+    videoPath,
+    duration: 10,
+    language: "en",
+    segments: [{ id: 0, start: 1, end: 2, text: "premier pro" }],
+    words: [
+      { word: "premier", start: 1, end: 1.4, confidence: 0.5 },
+      { word: "pro", start: 1.5, end: 2, confidence: 0.9 },
+    ],
+    modelSize: "small",
+    createdAt: 1,
+  });
+});
+
+afterAll(() => {
+  vi.useRealTimers();
+  store.closeCache();
+  process.env.HOME = originalHome;
+  fs.rmSync(home, { recursive: true, force: true });
+});
+
+async function edit(text: string, at: number) {
+  // Revisions are ordered by creation time
+  vi.useFakeTimers({ toFake: ["Date"], now: at });
+  const response = await tool.handleEditTranscript({
+    videoPath,
+    edits: [{ type: "replace_text", segmentId: 0, text }],
+  });
+  vi.useRealTimers();
+  return JSON.parse(response.content[0].text);
+}
+
+describe("edit_transcript revisions", () => {
+  it("saves each edit as a new revision pointing at the one it was made from", async () => {
+    const first = await edit("Premiere pro", 1000);
+    const second = await edit("Premiere Pro", 2000);
+
+    expect(first).toMatchObject({ success: true, revision: 2, previousAnalysisId: "original" });
+    expect(second).toMatchObject({ revision: 3, previousAnalysisId: first.analysisId });
+    expect(new Set([first.analysisId, second.analysisId, "original"]).size).toBe(3);
+
+    const latest = store.getSpeechAnalysis(videoPath)!;
+    expect(latest).toMatchObject({
+      analysisId: second.analysisId,
+      parentAnalysisId: first.analysisId,
+      revision: 3,
+      modelSize: "small",
+    });
+    expect(latest.segments[0].text).toBe("Premiere Pro");
+
+    // Earlier revisions stay in the cache untouched
+    expect(store.getSpeechAnalysisById("original")?.segments[0].text).toBe("premier pro");
+    expect(store.getSpeechAnalysisById(first.analysisId)).toMatchObject({
+      parentAnalysisId: "original",
+      segments: [{ text: "Premiere pro" }],
+    });
+  });
+
+  it("keeps word timings across revisions", async () => {
+    const latest = store.getSpeechAnalysis(videoPath)!;
+
+    expect(latest.words.map((w) => [w.word, w.start, w.end])).toEqual([
+      ["Premiere", 1, 1.4],
+      ["Pro", 1.5, 2],
+    ]);
+  });
+
+  it("leaves the transcript alone when an edit fails", async () => {
+    const response = await tool.handleEditTranscript({
+      videoPath,
+      edits: [{ type: "merge", segmentId: 0 }],
+    });
+
+    expect(JSON.parse(response.content[0].text).error).toMatch(/no following segment/);
+    expect(store.getSpeechAnalysis(videoPath)?.revision).toBe(3);
+  });
+});
@@ -0,0 +1,74 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+
+const home = fs.mkdtempSync(path.join(os.tmpdir(), "premiere-mcp-test-"));
+const originalHome = process.env.HOME;
+const videoPath = "/videos/interview.mp4";
+
+let store: typeof import("../../src/cache/store.js");
+let tool: typeof import("../../src/tools/export-transcript.js");
+
+beforeAll(async () => {
+  process.env.HOME = home;
+  store = await import("../../src/cache/store.js");
+  tool = await import("../../src/tools/export-transcript.js");
+  store.initializeCache();
+
+  store.saveSpeechAnalysis({
+    analysisId: "original",
+    videoPath,
+    duration: 10,
+    language: "en",
+    segments: [{ id: 0, start: 1, end: 2, text: "Hello there" }],
+    words: [
+      { word: "Hello", start: 1, end: 1.4, confidence: 0.9 },
+      { word: "there", start: 1.5, end: 2, confidence: 0.9 },
+    ],
+    createdAt: 1,
+  });
+});
+
+afterAll(() => {
+  store.closeCache();
+  process.env.HOME = originalHome;
+  fs.rmSync(home, { recursive: true, force: true });
+});
+
+async function exportSrt(offset?: number | string) {
+  const outputPath = path.join(home, "interview.srt");
+  const response = await tool.handleExportTranscript({ videoPath, outputPath, offset, fps: 25 });
+  return {
+    result: JSON.parse(response.content[0].text),
+    file: fs.existsSync(outputPath) ? fs.readFileSync(outputPath, "utf-8") : null,
+  };
+}
+
+describe("export_transcript offset", () => {
+  it("shifts cues by a source timecode", async () => {
+    const { result, file } = await exportSrt("01:00:00:00");
+
+    expect(result.offset).toBe(3600);
+    expect(file).toContain("01:00:01,000 --> 01:00:02,000");
+  });
+
+  it("rejects negative offsets without writing a file", async () => {
+    fs.rmSync(path.join(home, "interview.srt"), { force: true });
+
+    for (const offset of [-5, "-5"]) {
+      const { result, file } = await exportSrt(offset);
+
+      expect(result.error).toMatch(/Invalid offset: -5/);
+      expect(file).toBeNull();
+    }
+  });
+
+  it("rejects negative numbers in the schema", async () => {
+    const { z } = await import("zod");
+    const schema = z.object(tool.exportTranscriptSchema);
+
+    expect(schema.safeParse({ videoPath, offset: -1 }).success).toBe(false);
+    expect(schema.safeParse({ videoPath, offset: 2.5 }).success).toBe(true);
+  });
+});
@@ -0,0 +1,94 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import type { SpeechAnalysisResult } from "../../src/types/index.js";
+
+const home = fs.mkdtempSync(path.join(os.tmpdir(), "premiere-mcp-test-"));
+const originalHome = process.env.HOME;
+const videoPath = "/videos/interview.mp4";
+
+let store: typeof import("../../src/cache/store.js");
+let tool: typeof import("../../src/tools/find-segments.js");
+
+beforeAll(async () => {
+  process.env.HOME = home;
+  store = await import("../../src/cache/store.js");
+  tool = await import("../../src/tools/find-segments.js");
+  store.initializeCache();
+
+  const original: SpeechAnalysisResult = {
+    analysisId: "original",
+    videoPath,
+    duration: 20,
+    language: "en",
+    languages: ["en", "de"],
+    segments: [
+      { id: 0, start: 0, end: 4, text: "The product launch is next week", language: "en" },
+      { id: 1, start: 5, end: 9, text: "Der Produktstart ist nächste Woche", language: "de" },
+    ],
+    words: [],
+    createdAt: 1,
+  };
+  store.saveSpeechAnalysis(original);
+  store.saveSpeechAnalysis({
+    ...original,
+    analysisId: "german",
+    language: "de",
+    languages: ["de"],
+    segments: [
+      { id: 0, start: 0, end: 4, text: "Der Produktstart ist nächste Woche", language: "de" },
+      { id: 1, start: 5, end: 9, text: "Der Produktstart ist nächste Woche", language: "de" },
+    ],
+    translatedFrom: "original",
+    createdAt: 2,
+  });
+});
+
+afterAll(() => {
+  store.closeCache();
+  process.env.HOME = originalHome;
+  fs.rmSync(home, { recursive: true, force: true });
+});
+
+async function search(params: Record<string, unknown>) {
+  const response = await tool.handleFindSegments({
+    videoPath,
+    query: "Produktstart",
+    searchType: "speech",
+    expandBy: 0,
+    ...params,
+  });
+  return JSON.parse(response.content[0].type === "text" ? response.content[0].text : "{}");
+}
+
+describe("find_video_segments languages", () => {
+  it("filters by spoken language in the original transcript", async () => {
+    const result = await search({ language: "de" });
+
+    expect(result.segments.map((s: { start: string }) => s.start)).toEqual(["5.00"]);
+  });
+
+  it("searches a translation with transcriptLanguage, keeping the spoken language", async () => {
+    const result = await search({ transcriptLanguage: "de" });
+
+    expect(result.transcriptLanguage).toBe("de");
+    expect(result.segments.map((s: { language: string }) => s.language).sort()).toEqual([
+      "de",
+      "en",
+    ]);
+  });
+
+  it("combines the translation with the spoken-language filter", async () => {
+    const result = await search({ transcriptLanguage: "de", language: "en" });
+
+    expect(result.segments).toHaveLength(1);
+    expect(result.segments[0]).toMatchObject({ start: "0.00", language: "en" });
+  });
+
+  it("reports a missing translation", async () => {
+    const result = await search({ transcriptLanguage: "fr" });
+
+    expect(result.error).toMatch(/No transcript in "fr"/);
+  });
+});
@@ -0,0 +1,131 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import type { FrameAnalysis } from "../../src/types/index.js";
+
+const home = fs.mkdtempSync(path.join(os.tmpdir(), "premiere-mcp-test-"));
+const originalHome = process.env.HOME;
+const videoPath = "/videos/interview.mp4";
+
+let store: typeof import("../../src/cache/store.js");
+let thumbnails: typeof import("../../src/cache/thumbnails.js");
+let tool: typeof import("../../src/tools/get-frame-thumbnail.js");
+
+// An analyzed frame whose thumbnail file holds its own timestamp, so the
+// returned image tells which frame was picked
+function frame(timestamp: number, withThumbnail = true): FrameAnalysis {
+  const analysis: FrameAnalysis = {
+    timestamp,
+    framePath: `/tmp/frames/frame_${timestamp}.jpg`,
+    description: `Frame at ${timestamp}s`,
+    objects: [],
+    scene: "studio",
+  };
+  if (withThumbnail) {
+    analysis.thumbnailPath = thumbnails.getThumbnailPath(videoPath, timestamp);
+    fs.mkdirSync(path.dirname(analysis.thumbnailPath), { recursive: true });
+    fs.writeFileSync(analysis.thumbnailPath, `thumbnail ${timestamp}`);
+  }
+  return analysis;
+}
+
+function saveFrames(frames: FrameAnalysis[], video = videoPath) {
+  store.saveVisualAnalysis({
+    analysisId: `visual-${video}`,
+    videoPath: video,
+    duration: 10,
+    fps: 0.5,
+    framesAnalyzed: frames.length,
+    frames,
+    createdAt: 1,
+  });
+}
+
+beforeAll(async () => {
+  process.env.HOME = home;
+  store = await import("../../src/cache/store.js");
+  thumbnails = await import("../../src/cache/thumbnails.js");
+  tool = await import("../../src/tools/get-frame-thumbnail.js");
+  store.initializeCache();
+});
+
+afterAll(() => {
+  store.closeCache();
+  process.env.HOME = originalHome;
+  fs.rmSync(home, { recursive: true, force: true });
+});
+
+async function getThumbnail(timestamp: number, video = videoPath) {
+  const response = await tool.handleGetFrameThumbnail({ videoPath: video, timestamp });
+  const [text, image] = response.content;
+  return {
+    info: text.type === "text" ? JSON.parse(text.text) : undefined,
+    image:
+      image?.type === "image" ? Buffer.from(image.data, "base64").toString() : undefined,
+  };
+}
+
+describe("getThumbnailPath", () => {
+  it("keeps thumbnails per video in the cache directory, named by millisecond", () => {
+    const thumbnailPath = thumbnails.getThumbnailPath(videoPath, 2.5);
+
+    expect(thumbnailPath.startsWith(path.join(home, ".premiere-mcp", "cache", "thumbnails"))).toBe(
+      true
+    );
+    expect(path.basename(thumbnailPath)).toBe("2500.jpg");
+    expect(path.dirname(thumbnails.getThumbnailPath("/videos/other.mp4", 2.5))).not.toBe(
+      path.dirname(thumbnailPath)
+    );
+  });
+});
+
+describe("get_frame_thumbnail", () => {
+  beforeAll(() => {
+    // The last frame failed or was saved before thumbnails existed
+    saveFrames([frame(0), frame(2), frame(4), frame(6, false)]);
+  });
+
+  it("returns the analyzed frame nearest the timestamp", async () => {
+    const result = await getThumbnail(2.9);
+
+    expect(result.info).toMatchObject({ timestamp: 2, description: "Frame at 2s" });
+    expect(result.image).toBe("thumbnail 2");
+  });
+
+  it("skips frames without a thumbnail", async () => {
+    const result = await getThumbnail(6);
+
+    expect(result.info.timestamp).toBe(4);
+    expect(result.image).toBe("thumbnail 4");
+  });
+
+  it("takes the earlier frame halfway between two", async () => {
+    expect((await getThumbnail(1)).image).toBe("thumbnail 0");
+  });
+
+  it("reports a thumbnail file that has been deleted", async () => {
+    const missing = frame(1);
+    fs.rmSync(missing.thumbnailPath!);
+    saveFrames([missing], "/videos/deleted.mp4");
+
+    const result = await getThumbnail(1, "/videos/deleted.mp4");
+
+    expect(result.info.error).toMatch(/Thumbnail file is missing/);
+    expect(result.image).toBeUndefined();
+  });
+
+  it("asks for an analysis when there is none", async () => {
+    const result = await getThumbnail(1, "/videos/unanalyzed.mp4");
+
+    expect(result.info.error).toMatch(/run analyze_video_visual first/);
+  });
+
+  it("asks for a re-run when the analysis has no thumbnails", async () => {
+    saveFrames([frame(0, false)], "/videos/old.mp4");
+
+    const result = await getThumbnail(0, "/videos/old.mp4");
+
+    expect(result.info.error).toMatch(/forceReanalyze/);
+  });
+});
@@ -0,0 +1,58 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+
+const home = fs.mkdtempSync(path.join(os.tmpdir(), "premiere-mcp-test-"));
+const originalHome = process.env.HOME;
+const videoPath = "/videos/interview.mp4";
+
+let store: typeof import("../../src/cache/store.js");
+let tool: typeof import("../../src/tools/paper-edit.js");
+
+beforeAll(async () => {
+  process.env.HOME = home;
+  store = await import("../../src/cache/store.js");
+  tool = await import("../../src/tools/paper-edit.js");
+  store.initializeCache();
+
+  store.saveSpeechAnalysis({
+    analysisId: "original",
+    videoPath,
+    duration: 3,
+    language: "en",
+    segments: [{ id: 0, start: 0, end: 1, text: "Hello there" }],
+    words: [
+      { word: "Hello", start: 0, end: 0.4, confidence: 0.9 },
+      { word: "there", start: 0.5, end: 0.9, confidence: 0.9 },
+    ],
+    createdAt: 1,
+  });
+});
+
+afterAll(() => {
+  store.closeCache();
+  process.env.HOME = originalHome;
+  fs.rmSync(home, { recursive: true, force: true });
+});
+
+async function paperEdit(editedTranscript: string, dryRun: boolean) {
+  const response = await tool.handlePaperEdit({ videoPath, editedTranscript, dryRun });
+  return JSON.parse(response.content[0].text);
+}
+
+describe("assemble_paper_edit", () => {
+  it("reports a dry run without applying it", async () => {
+    const result = await paperEdit("Hello there", true);
+
+    expect(result).toMatchObject({ success: true, dryRun: true, applied: false, decisionCount: 1 });
+  });
+
+  it("says why nothing was applied when no words match", async () => {
+    const result = await paperEdit("Goodbye everyone", false);
+
+    expect(result).toMatchObject({ dryRun: false, applied: false, decisionCount: 0 });
+    expect(result.reason).toMatch(/nothing to place/);
+    expect(result.unmatchedWords).toEqual(["Goodbye", "everyone"]);
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import { parseJsonResponse } from "../../src/utils/json-response.js";
+import { parseVisionOcrResponse } from "../../src/analyzer/ocr/vision.js";
+import { parsePeopleResponse } from "../../src/analyzer/people/parse.js";
+
+describe("parseJsonResponse", () => {
+  it("reads JSON from a markdown code block", () => {
+    const reply = 'Here is what I found:\n```json\n{ "text": [] }\n```';
+
+    expect(parseJsonResponse(reply)).toEqual({ text: [] });
+  });
+
+  it("reads bare JSON", () => {
+    expect(parseJsonResponse('  [1, 2]\n')).toEqual([1, 2]);
+  });
+
+  it("throws when there is no JSON", () => {
+    expect(() => parseJsonResponse("I can't see any text.")).toThrow();
+  });
+});
+
+describe("parseVisionOcrResponse", () => {
+  it("keeps text items and defaults a missing box to the whole frame", () => {
+    const reply = JSON.stringify({
+      text: [
+        { text: " Quarterly results ", box: [0.1, 0.05, 0.5, 0.1] },
+        { text: "Jane Doe, CEO" },
+        { text: "   " },
+        "not an item",
+        null,
+      ],
+    });
+
+    expect(parseVisionOcrResponse(reply)).toEqual([
+      { text: "Quarterly results", box: { x: 0.1, y: 0.05, width: 0.5, height: 0.1 } },
+      { text: "Jane Doe, CEO", box: { x: 0, y: 0, width: 1, height: 1 } },
+    ]);
+  });
+
+  it("finds no text in replies of another shape", () => {
+    expect(parseVisionOcrResponse("null")).toEqual([]);
+    expect(parseVisionOcrResponse("42")).toEqual([]);
+    expect(parseVisionOcrResponse('["Quarterly results"]')).toEqual([]);
+    expect(parseVisionOcrResponse('{ "text": "Quarterly results" }')).toEqual([]);
+  });
+});
+
+describe("parsePeopleResponse", () => {
+  it("keeps people with a body or face box", () => {
+    const parsed = parseJsonResponse(
+      '```\n{ "people": [' +
+        '{ "box": [0.1, 0.2, 0.3, 0.7], "face": null, "confidence": 0.9, "description": " man in a blue shirt " },' +
+        '{ "face": [0.6, 0.2, 0.1, 0.15], "confidence": "high" },' +
+        '{ "description": "someone off screen" }' +
+        "] }\n```"
+    );
+
+    expect(parsePeopleResponse(parsed)).toEqual([
+      {
+        box: { x: 0.1, y: 0.2, width: 0.3, height: 0.7 },
+        faceBox: undefined,
+        confidence: 0.9,
+        description: "man in a blue shirt",
+      },
+      {
+        box: { x: 0.6, y: 0.2, width: 0.1, height: 0.15 },
+        faceBox: { x: 0.6, y: 0.2, width: 0.1, height: 0.15 },
+        confidence: undefined,
+        description: undefined,
+      },
+    ]);
+  });
+
+  it("finds nobody in replies of another shape", () => {
+    expect(parsePeopleResponse(null)).toEqual([]);
+    expect(parsePeopleResponse(42)).toEqual([]);
+    expect(parsePeopleResponse({ people: "two people" })).toEqual([]);
+  });
+});
@@ -0,0 +1,24 @@
+import { describe, expect, it } from "vitest";
+import { detectTextLanguage, normalizeLanguageCode } from "../../src/utils/language.js";
+
+describe("normalizeLanguageCode", () => {
+  it("maps language names to ISO codes and ignores auto", () => {
+    expect(normalizeLanguageCode("English")).toBe("en");
+    expect(normalizeLanguageCode("de")).toBe("de");
+    expect(normalizeLanguageCode("auto")).toBeUndefined();
+  });
+});
+
+describe("detectTextLanguage", () => {
+  it("recognises segments by their function words", () => {
+    expect(detectTextLanguage("So what we have here is the new model")).toBe("en");
+    expect(detectTextLanguage("Pero la verdad es que no lo sabemos")).toBe("es");
+    expect(detectTextLanguage("Das ist nicht so einfach, und wir wissen es")).toBe("de");
+    expect(detectTextLanguage("Je pense que c'est pas une bonne idée")).toBe("fr");
+  });
+
+  it("stays undecided on short or ambiguous text", () => {
+    expect(detectTextLanguage("Okay")).toBeUndefined();
+    expect(detectTextLanguage("Product launch tomorrow morning")).toBeUndefined();
+  });
+});
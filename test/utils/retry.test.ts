@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import Anthropic from "@anthropic-ai/sdk";
+import { HttpStatusError, isRetryableError, withRetry } from "../../src/utils/retry.js";
+
+function codeError(code: string): Error {
+  return Object.assign(new Error(code), { code });
+}
+
+describe("isRetryableError", () => {
+  it("retries timeouts, conflicts, rate limits and server errors", () => {
+    for (const status of [408, 409, 429, 500, 503]) {
+      expect(isRetryableError(new HttpStatusError("failed", status))).toBe(true);
+    }
+    for (const status of [400, 401, 404, 422]) {
+      expect(isRetryableError(new HttpStatusError("failed", status))).toBe(false);
+    }
+  });
+
+  it("retries network failures, including wrapped ones", () => {
+    expect(isRetryableError(codeError("ECONNRESET"))).toBe(true);
+    expect(isRetryableError(codeError("ETIMEDOUT"))).toBe(true);
+    expect(
+      isRetryableError(new TypeError("fetch failed", { cause: codeError("UND_ERR_SOCKET") }))
+    ).toBe(true);
+    expect(isRetryableError(new TypeError("fetch failed"))).toBe(true);
+    expect(
+      isRetryableError(new Anthropic.APIConnectionError({ cause: codeError("ECONNREFUSED") }))
+    ).toBe(true);
+  });
+
+  it("does not retry errors that would fail the same way again", () => {
+    expect(isRetryableError(codeError("ENOENT"))).toBe(false);
+    expect(isRetryableError(new SyntaxError("Unexpected token < in JSON"))).toBe(false);
+    expect(isRetryableError(new TypeError("Cannot read properties of undefined"))).toBe(false);
+    expect(isRetryableError(new Error("Vision server returned no text"))).toBe(false);
+  });
+});
+
+describe("withRetry", () => {
+  it("retries retryable errors and gives up on the others at once", async () => {
+    let calls = 0;
+    const result = await withRetry(
+      async () => {
+        if (++calls < 3) throw codeError("ECONNRESET");
+        return "ok";
+      },
+      { baseDelayMs: 1 }
+    );
+    expect(result).toBe("ok");
+    expect(calls).toBe(3);
+
+    calls = 0;
+    await expect(
+      withRetry(
+        async () => {
+          calls++;
+          throw new Error("bad response");
+        },
+        { baseDelayMs: 1 }
+      )
+    ).rejects.toThrow("bad response");
+    expect(calls).toBe(1);
+  });
+});